@@ -1,10 +1,35 @@
 "use client";
 
+import { CalibrePanel } from "@/components/watch/CalibrePanel";
+import { CameraPathsPanel } from "@/components/watch/CameraPathsPanel";
+import { ExportPanel } from "@/components/watch/ExportPanel";
+import { ImportPanel } from "@/components/watch/ImportPanel";
+import { MeasurePanel } from "@/components/watch/MeasurePanel";
+import { MeshingPanel } from "@/components/watch/MeshingPanel";
+import { PartInspectorPanel } from "@/components/watch/PartInspectorPanel";
+import { PositionTestPanel } from "@/components/watch/PositionTestPanel";
+import { SavedViewsPanel } from "@/components/watch/SavedViewsPanel";
+import { SectionPanel } from "@/components/watch/SectionPanel";
+import { TimegrapherPanel } from "@/components/watch/TimegrapherPanel";
+import { TourPanel } from "@/components/watch/TourPanel";
+import { TrainDesignerPanel } from "@/components/watch/TrainDesignerPanel";
+import { LAYER_SPACING } from "@/components/watch/explodeAnimation";
 import {
   WatchScene,
   cameraViews,
-  layerList,
+  useLayerList,
 } from "@/components/watch/WatchScene";
+import { useSyncExternalStore } from "react";
+import { solveCalibreTrain, trainPath, trainRatio } from "@/calibre";
+import { balanceAmplitude, powerReserveHours } from "@/simulation/mainspring";
+import {
+  balanceFrequency,
+  balanceInertia,
+  hairspringStiffness,
+  rateError,
+} from "@/simulation/regulation";
+import { useSessionPersistence } from "@/state/persistence";
+import { useUrlStateSync } from "@/state/urlState";
 import { useWatchStore, WatchLayer } from "@/state/useWatchStore";
 
 type TelemetryDatum = {
@@ -13,28 +38,53 @@ type TelemetryDatum = {
   detail: string;
 };
 
-const telemetry: TelemetryDatum[] = [
-  {
-    label: "Beat Frequency",
-    value: "28,800 vph",
-    detail: "4 Hz Swiss lever escapement with 0.35 ms lift angle",
-  },
-  {
-    label: "Power Reserve",
-    value: "54 h",
-    detail: "Twin mainspring barrels, optimized torque curve",
-  },
-  {
-    label: "Gear Train Ratio",
-    value: "1 : 1728",
-    detail: "Barrel → center → third → fourth → escape wheel",
-  },
-  {
-    label: "Regulation",
-    value: "±2 s/day",
-    detail: "Free-sprung balance with micro-adjusting inertia screws",
-  },
-];
+const formatRate = (rate: number) =>
+  `${rate >= 0 ? "+" : "−"}${Math.abs(rate).toFixed(1)} s/day`;
+
+const barrelCountLabels = ["Single", "Twin", "Triple"];
+
+const useTelemetry = (): TelemetryDatum[] => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const regulation = useWatchStore((state) => state.regulation);
+  const solution = solveCalibreTrain(calibre);
+  const arborOf = (wheelId: string) =>
+    calibre.wheels.find((wheel) => wheel.id === wheelId)!.arbor;
+  const barrelArbor = arborOf(calibre.mainspring.barrelWheel);
+  const escapeArbor = arborOf(calibre.escapement.escapeWheel);
+  const ratio = trainRatio(solution, barrelArbor, escapeArbor);
+  const path = trainPath(calibre, barrelArbor, escapeArbor);
+  const arborName = (id: string) =>
+    calibre.arbors.find((arbor) => arbor.id === id)?.name ?? id;
+  const { beatsPerHour, liftAngle } = calibre.escapement;
+  const { barrels, turns } = calibre.mainspring;
+
+  return [
+    {
+      label: "Beat Frequency",
+      value: `${beatsPerHour.toLocaleString("en-US")} vph`,
+      detail: `${beatsPerHour / 7200} Hz Swiss lever escapement with ${liftAngle}° lift angle`,
+    },
+    {
+      label: "Power Reserve",
+      value: `${Math.round(powerReserveHours(calibre))} h`,
+      detail: `${barrelCountLabels[barrels - 1] ?? barrels} mainspring barrel${
+        barrels > 1 ? "s" : ""
+      }, ${turns} turns from full wind`,
+    },
+    {
+      label: "Gear Train Ratio",
+      value: `1 : ${Math.round(ratio).toLocaleString("en-US")}`,
+      detail: path
+        ? path.map(arborName).join(" → ")
+        : "The barrel does not drive the escape wheel",
+    },
+    {
+      label: "Regulation",
+      value: formatRate(rateError(calibre, regulation)),
+      detail: `Free-sprung balance with ${calibre.balance.inertia.screwCount} micro-adjusting inertia screws`,
+    },
+  ];
+};
 
 const LayerCard = ({
   layerId,
@@ -48,7 +98,7 @@ const LayerCard = ({
   const hidden = useWatchStore((state) => state.hiddenLayers[layerId]);
   const opacity = useWatchStore((state) => state.layerOpacity[layerId]);
   const setLayerOpacity = useWatchStore((state) => state.setLayerOpacity);
-  const { title, description, color } = layerList.find(
+  const { title, description, color } = useLayerList().find(
     (l) => l.id === layerId
   )!;
 
@@ -121,16 +171,407 @@ const LayerCard = ({
   );
 };
 
+const noTimeZones: string[] = [];
+const subscribeNever = () => () => {};
+let timeZoneCache: string[] | undefined;
+const readTimeZones = () =>
+  (timeZoneCache ??= Intl.supportedValuesOf("timeZone"));
+
+// The zone list differs between runtimes, so it is only read on the client.
+const useTimeZoneOptions = () =>
+  useSyncExternalStore(subscribeNever, readTimeZones, () => noTimeZones);
+
+const DisplayModePanel = () => {
+  const displayMode = useWatchStore((state) => state.displayMode);
+  const setDisplayMode = useWatchStore((state) => state.setDisplayMode);
+  const timeZone = useWatchStore((state) => state.timeZone);
+  const setTimeZone = useWatchStore((state) => state.setTimeZone);
+  const secondsMotion = useWatchStore((state) => state.secondsMotion);
+  const setSecondsMotion = useWatchStore((state) => state.setSecondsMotion);
+  const timeZones = useTimeZoneOptions();
+  const live = displayMode === "live";
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Display Mode
+        </h3>
+        <span className={`text-sm font-semibold ${live ? "text-cyan-200" : "text-slate-400"}`}>
+          {live ? "Live Time" : "Demonstration"}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {(["demonstration", "live"] as const).map((mode) => (
+          <button
+            type="button"
+            key={mode}
+            onClick={() => setDisplayMode(mode)}
+            className={`rounded-2xl border px-3 py-2 text-xs font-semibold tracking-wide transition ${
+              displayMode === mode
+                ? "border-cyan-400/60 bg-cyan-500/10 text-cyan-100 shadow-lg shadow-cyan-500/10"
+                : "border-slate-800/70 bg-slate-900/60 text-slate-300 hover:border-slate-700/70 hover:bg-slate-800/60"
+            }`}
+          >
+            {mode === "live" ? "Live Time" : "Demonstration"}
+          </button>
+        ))}
+      </div>
+      {live && (
+        <>
+          <label className="grid gap-2 text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+            <span>Time Zone</span>
+            <select
+              value={timeZone ?? ""}
+              onChange={(event) => setTimeZone(event.target.value || null)}
+              className="rounded-xl border border-slate-700/60 bg-slate-900/80 px-3 py-2 text-xs font-medium normal-case tracking-normal text-slate-100"
+            >
+              <option value="">Device time zone</option>
+              {timeZone && !timeZones.includes(timeZone) && (
+                <option value={timeZone}>{timeZone}</option>
+              )}
+              {timeZones.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+            <span>Seconds Hand</span>
+            <div className="flex gap-2">
+              {(["beat", "sweep"] as const).map((motion) => (
+                <button
+                  type="button"
+                  key={motion}
+                  onClick={() => setSecondsMotion(motion)}
+                  className={`rounded-full border px-3 py-1 text-[11px] font-medium uppercase tracking-wider transition ${
+                    secondsMotion === motion
+                      ? "border-cyan-400/60 bg-cyan-500/10 text-cyan-100"
+                      : "border-slate-700/60 bg-slate-800/70 text-slate-300 hover:border-slate-500"
+                  }`}
+                >
+                  {motion === "beat" ? "Beat Ticks" : "Sweep"}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+      <p className="text-xs leading-relaxed text-slate-400">
+        {live
+          ? "Hands show the current time; the balance runs at its true beat rate."
+          : "Hands follow the simulated train at the selected rotation speed."}
+      </p>
+    </section>
+  );
+};
+
+const PowerReservePanel = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const windFraction = useWatchStore((state) => state.windFraction);
+  const setWindFraction = useWatchStore((state) => state.setWindFraction);
+  const reserve = powerReserveHours(calibre);
+  const amplitude = balanceAmplitude(calibre, windFraction);
+  const running = windFraction > 0;
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Power Reserve
+        </h3>
+        <span className={`text-sm font-semibold ${running ? "text-cyan-200" : "text-rose-300"}`}>
+          {running ? `${(windFraction * reserve).toFixed(1)} h` : "Stopped"}
+        </span>
+      </div>
+      <div className="h-2 w-full overflow-hidden rounded-full bg-slate-800">
+        <div
+          className={`h-full rounded-full ${
+            windFraction > 0.2 ? "bg-cyan-400" : "bg-amber-400"
+          }`}
+          style={{ width: `${windFraction * 100}%` }}
+        />
+      </div>
+      <div className="flex items-center justify-between text-[11px] uppercase tracking-widest text-slate-500">
+        <span>State of wind {Math.round(windFraction * 100)}%</span>
+        <span>Amplitude {Math.round(amplitude)}°</span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => setWindFraction(1)}
+          className="rounded-full border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 text-xs font-semibold text-cyan-200 transition hover:border-cyan-400/60 hover:bg-cyan-400/20"
+        >
+          Wind Fully
+        </button>
+        <button
+          type="button"
+          onClick={() => setWindFraction(0)}
+          className="rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-xs font-medium text-slate-100 transition hover:border-slate-500 hover:bg-slate-700/70"
+        >
+          Let Down
+        </button>
+      </div>
+      <p className="text-xs leading-relaxed text-slate-400">
+        Drag the crown in the scene to wind the mainspring. Amplitude falls
+        as the reserve depletes and the movement stops when it is let down.
+      </p>
+    </section>
+  );
+};
+
+const RegulationPanel = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const regulation = useWatchStore((state) => state.regulation);
+  const setRegulatorIndex = useWatchStore((state) => state.setRegulatorIndex);
+  const setScrewOffset = useWatchStore((state) => state.setScrewOffset);
+  const resetRegulation = useWatchStore((state) => state.resetRegulation);
+  const { screwTravel } = calibre.balance.inertia;
+  const frequency = balanceFrequency(calibre, regulation);
+  const rate = rateError(calibre, regulation);
+
+  const readouts = [
+    { label: "Frequency", value: `${frequency.toFixed(4)} Hz` },
+    {
+      label: "Beat Rate",
+      value: `${Math.round(frequency * 7200).toLocaleString("en-US")} vph`,
+    },
+    {
+      label: "Inertia",
+      value: `${(balanceInertia(calibre, regulation) * 1e10).toFixed(2)} mg·cm²`,
+    },
+    {
+      label: "Stiffness",
+      value: `${(hairspringStiffness(calibre, regulation) * 1e6).toFixed(3)} µN·m`,
+    },
+  ];
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Regulation
+        </h3>
+        <span
+          className={`text-sm font-semibold ${
+            Math.abs(rate) <= 4 ? "text-cyan-200" : "text-amber-300"
+          }`}
+        >
+          {formatRate(rate)}
+        </span>
+      </div>
+      <dl className="grid grid-cols-2 gap-2">
+        {readouts.map((readout) => (
+          <div
+            key={readout.label}
+            className="rounded-xl border border-slate-800/70 bg-slate-900/50 p-3"
+          >
+            <dt className="text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+              {readout.label}
+            </dt>
+            <dd className="font-mono text-sm font-semibold text-slate-100">
+              {readout.value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      <div>
+        <label className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+          <span>Regulator Index</span>
+          <span>
+            {regulation.regulatorIndex >= 0 ? "+" : ""}
+            {regulation.regulatorIndex.toFixed(2)}
+          </span>
+        </label>
+        <input
+          type="range"
+          min={-1}
+          max={1}
+          step={0.01}
+          value={regulation.regulatorIndex}
+          onChange={(event) => setRegulatorIndex(Number(event.target.value))}
+          className="mt-2 h-1 w-full cursor-pointer appearance-none rounded-full bg-slate-800 accent-cyan-400"
+        />
+        <div className="mt-1 flex items-center justify-between text-[11px] uppercase tracking-widest text-slate-500">
+          <span>− Slow</span>
+          <span>+ Fast</span>
+        </div>
+      </div>
+      <div className="grid gap-2">
+        <p className="text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+          Inertia Screws
+        </p>
+        {regulation.screwOffsets.map((offset, index) => (
+          <label
+            key={index}
+            className="flex items-center gap-3 text-[11px] uppercase tracking-widest text-slate-500"
+          >
+            <span className="w-6">#{index + 1}</span>
+            <input
+              type="range"
+              min={-screwTravel}
+              max={screwTravel}
+              step={screwTravel / 40}
+              value={offset}
+              onChange={(event) =>
+                setScrewOffset(index, Number(event.target.value))
+              }
+              className="h-1 flex-1 cursor-pointer appearance-none rounded-full bg-slate-800 accent-cyan-400"
+            />
+            <span className="w-16 text-right font-mono normal-case tracking-normal">
+              {offset >= 0 ? "+" : ""}
+              {(offset * 1000).toFixed(0)} µm
+            </span>
+          </label>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={resetRegulation}
+        className="justify-self-start rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-xs font-medium text-slate-100 transition hover:border-slate-500 hover:bg-slate-700/70"
+      >
+        Reset Regulation
+      </button>
+      <p className="text-xs leading-relaxed text-slate-400">
+        Moving the index towards fast shortens the active hairspring; turning
+        screws out raises the balance inertia and slows it. The timing machine
+        picks up every change.
+      </p>
+    </section>
+  );
+};
+
+const LayerLiftPanel = () => {
+  const explodeAmount = useWatchStore((state) => state.explodeAmount);
+  const setExplodeAmount = useWatchStore((state) => state.setExplodeAmount);
+  const explodeStaged = useWatchStore((state) => state.explodeStaged);
+  const setExplodeStaged = useWatchStore((state) => state.setExplodeStaged);
+  const radialExplode = useWatchStore((state) => state.radialExplode);
+  const setRadialExplode = useWatchStore((state) => state.setRadialExplode);
+  const layerOffsets = useWatchStore((state) => state.layerOffsets);
+  const setLayerOffset = useWatchStore((state) => state.setLayerOffset);
+  const layerList = useLayerList();
+  const exploded = explodeAmount > 0;
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Layer Lift
+        </h3>
+        <span className={`text-sm font-semibold ${exploded ? "text-cyan-200" : "text-slate-400"}`}>
+          {exploded ? `Exploded ${Math.round(explodeAmount * 100)}%` : "Stacked"}
+        </span>
+      </div>
+      <button
+        type="button"
+        onClick={() => setExplodeAmount(exploded ? 0 : 1)}
+        className={`relative flex h-12 items-center justify-center rounded-2xl border transition ${
+          exploded
+            ? "border-cyan-400/60 bg-cyan-500/10 text-cyan-100 shadow-lg shadow-cyan-500/15"
+            : "border-slate-800/70 bg-slate-900/60 text-slate-200 hover:border-slate-700/70 hover:bg-slate-800/60"
+        }`}
+      >
+        {exploded ? "Collapse Assembly" : "Explode Assembly"}
+      </button>
+      <label className="grid gap-2 text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        <span>Explode Amount</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={explodeAmount}
+          onChange={(event) => setExplodeAmount(Number(event.target.value))}
+          className="h-1 w-full cursor-pointer appearance-none rounded-full bg-slate-800 accent-cyan-400"
+        />
+      </label>
+      <label className="grid gap-2 text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        <span className="flex items-center justify-between">
+          <span>Radial Spread</span>
+          <span>{Math.round(radialExplode * 100)}%</span>
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={radialExplode}
+          onChange={(event) => setRadialExplode(Number(event.target.value))}
+          className="h-1 w-full cursor-pointer appearance-none rounded-full bg-slate-800 accent-cyan-400"
+        />
+      </label>
+      <label className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        <span>Stage Layer by Layer</span>
+        <input
+          type="checkbox"
+          checked={explodeStaged}
+          onChange={(event) => setExplodeStaged(event.target.checked)}
+          className="size-4 accent-cyan-400"
+        />
+      </label>
+      <details className="text-[11px] text-slate-400">
+        <summary className="cursor-pointer font-semibold uppercase tracking-widest">
+          Layer Offsets
+        </summary>
+        <div className="mt-2 grid gap-2">
+          {layerList.map((layer, index) => (
+            <div key={layer.id} className="flex items-center justify-between gap-2">
+              <span className="truncate">{layer.title}</span>
+              <span className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={4}
+                  step={0.1}
+                  value={layerOffsets[layer.id] ?? ""}
+                  placeholder={(index * LAYER_SPACING).toFixed(1)}
+                  onChange={(event) =>
+                    setLayerOffset(
+                      layer.id,
+                      event.target.value === ""
+                        ? null
+                        : Number(event.target.value)
+                    )
+                  }
+                  className="w-16 rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-right text-xs text-slate-100 placeholder:text-slate-500"
+                />
+                <button
+                  type="button"
+                  disabled={layerOffsets[layer.id] === undefined}
+                  onClick={() => setLayerOffset(layer.id, null)}
+                  className="text-[10px] uppercase tracking-wider text-slate-400 hover:text-slate-200 disabled:opacity-30"
+                >
+                  Reset
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      </details>
+      <p className="text-xs leading-relaxed text-slate-400">
+        Lift separates the main plate, train bridges, escapement and display
+        mechanics; radial spread pulls the wheels of each layer apart for
+        part-level inspection.
+      </p>
+    </section>
+  );
+};
+
 export default function Home() {
   const setCameraView = useWatchStore((state) => state.setCameraView);
   const cameraView = useWatchStore((state) => state.cameraView);
   const highlightedLayer = useWatchStore((state) => state.highlightedLayer);
   const setHighlightedLayer = useWatchStore((state) => state.setHighlightedLayer);
-  const exploded = useWatchStore((state) => state.exploded);
-  const setExploded = useWatchStore((state) => state.setExploded);
   const rotationSpeed = useWatchStore((state) => state.rotationSpeed);
   const setRotationSpeed = useWatchStore((state) => state.setRotationSpeed);
+  const displayMode = useWatchStore((state) => state.displayMode);
   const revealAll = useWatchStore((state) => state.revealAll);
+  const layerList = useLayerList();
+  const telemetry = useTelemetry();
+  useUrlStateSync();
+  useSessionPersistence();
 
   return (
     <main className="relative min-h-screen bg-slate-950 text-slate-100">
@@ -156,16 +597,27 @@ export default function Home() {
               <h2 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
                 System Views
               </h2>
-              <button
-                type="button"
-                onClick={() => {
-                  revealAll();
-                  setHighlightedLayer(null);
-                }}
-                className="rounded-full border border-slate-700/60 bg-slate-800/70 px-3 py-1 text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500 hover:bg-slate-700/80"
-              >
-                Reset Layers
-              </button>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() =>
+                    navigator.clipboard?.writeText(window.location.href)
+                  }
+                  className="rounded-full border border-slate-700/60 bg-slate-800/70 px-3 py-1 text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500 hover:bg-slate-700/80"
+                >
+                  Copy Link
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    revealAll();
+                    setHighlightedLayer(null);
+                  }}
+                  className="rounded-full border border-slate-700/60 bg-slate-800/70 px-3 py-1 text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500 hover:bg-slate-700/80"
+                >
+                  Reset Layers
+                </button>
+              </div>
             </div>
             <div className="mt-3 grid grid-cols-2 gap-2">
               {cameraViews.map((view) => (
@@ -196,6 +648,20 @@ export default function Home() {
             </div>
           </section>
 
+          <SavedViewsPanel />
+
+          <CameraPathsPanel />
+
+          <TourPanel />
+
+          <CalibrePanel />
+
+          <PartInspectorPanel />
+
+          <MeshingPanel />
+
+          <TrainDesignerPanel />
+
           <section className="grid gap-4 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
             <div className="flex items-center justify-between">
               <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
@@ -211,8 +677,9 @@ export default function Home() {
               max={1.5}
               step={0.01}
               value={rotationSpeed}
+              disabled={displayMode === "live"}
               onChange={(event) => setRotationSpeed(Number(event.target.value))}
-              className="h-1 w-full cursor-pointer appearance-none rounded-full bg-slate-800 accent-cyan-400"
+              className="h-1 w-full cursor-pointer appearance-none rounded-full bg-slate-800 accent-cyan-400 disabled:cursor-not-allowed disabled:opacity-40"
             />
             <div className="flex items-center justify-between text-[11px] uppercase tracking-widest text-slate-500">
               <span>Slow</span>
@@ -221,31 +688,25 @@ export default function Home() {
             </div>
           </section>
 
-          <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
-            <div className="flex items-center justify-between">
-              <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
-                Layer Lift
-              </h3>
-              <span className={`text-sm font-semibold ${exploded ? "text-cyan-200" : "text-slate-400"}`}>
-                {exploded ? "Exploded" : "Stacked"}
-              </span>
-            </div>
-            <button
-              type="button"
-              onClick={() => setExploded(!exploded)}
-              className={`relative flex h-12 items-center justify-center rounded-2xl border transition ${
-                exploded
-                  ? "border-cyan-400/60 bg-cyan-500/10 text-cyan-100 shadow-lg shadow-cyan-500/15"
-                  : "border-slate-800/70 bg-slate-900/60 text-slate-200 hover:border-slate-700/70 hover:bg-slate-800/60"
-              }`}
-            >
-              {exploded ? "Collapse Assembly" : "Explode Assembly"}
-            </button>
-            <p className="text-xs leading-relaxed text-slate-400">
-              Activate exploded view to view the vertical separation of main
-              plate, train bridges, escapement, and display mechanics.
-            </p>
-          </section>
+          <DisplayModePanel />
+
+          <PowerReservePanel />
+
+          <RegulationPanel />
+
+          <LayerLiftPanel />
+
+          <SectionPanel />
+
+          <MeasurePanel />
+
+          <ExportPanel />
+
+          <ImportPanel />
+
+          <TimegrapherPanel />
+
+          <PositionTestPanel />
 
           <section className="rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
             <h2 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
@@ -0,0 +1,92 @@
+import referenceJson from "@/calibre/calibres/reference.json";
+import { CalibreValidationError, parseCalibre } from "@/calibre/load";
+import { checkCalibreMeshing } from "@/calibre/meshing";
+
+export * from "@/calibre/schema";
+export { validateCalibre } from "@/calibre/validate";
+export {
+  solveCalibreTrain,
+  solveTrain,
+  trainPath,
+  trainRatio,
+} from "@/calibre/kinematics";
+export type { TrainReference, TrainSolution } from "@/calibre/kinematics";
+export type { CalibreIssue } from "@/calibre/validate";
+export {
+  calibreLayer,
+  calibreLayers,
+  isRegisteredLayer,
+  onLayersRegistered,
+  registerLayer,
+  registeredLayer,
+  registeredLayerIds,
+  registeredLayers,
+} from "@/calibre/layers";
+export type { CalibreLayer, LayerDefinition } from "@/calibre/layers";
+export { checkCalibreMeshing, idealCentreDistance } from "@/calibre/meshing";
+export type {
+  MeshCheck,
+  MeshingIssue,
+  MeshingReport,
+  MeshingSeverity,
+} from "@/calibre/meshing";
+export {
+  calibreParts,
+  findCalibrePart,
+  fixturePartIds,
+  partAxis,
+  partMeshing,
+  toothedPartInfo,
+} from "@/calibre/parts";
+export type {
+  CalibrePart,
+  CalibrePartKind,
+  PartMeshing,
+  ToothedPartInfo,
+} from "@/calibre/parts";
+export {
+  DEFAULT_FLANK_RESOLUTION,
+  DEFAULT_PRESSURE_ANGLE,
+  DEFAULT_TOOTH_PROFILE,
+  gearOutline,
+  resolveToothProfile,
+} from "@/calibre/toothProfiles";
+export type {
+  GearOutline,
+  ToothForm,
+  ToothRole,
+} from "@/calibre/toothProfiles";
+export {
+  addTrainPart,
+  checkTrainDesign,
+  formatPeriod,
+  handRevolutionsPerHour,
+  isFixedTrainPart,
+  moveTrainPart,
+  placeTrainArbors,
+  removeTrainPart,
+  setTrainPartDrives,
+  updateTrainPart,
+} from "@/calibre/trainDesign";
+export type { TrainDesignIssue, TrainPartChanges } from "@/calibre/trainDesign";
+export {
+  CalibreValidationError,
+  parseCalibre,
+  parseCalibreJson,
+} from "@/calibre/load";
+
+export const referenceCalibre = parseCalibre(referenceJson);
+
+// The reference movement is what the meshing overlay is first shown on and
+// what the train designer resets to, so it must run as drawn.
+const referenceFaults = checkCalibreMeshing(referenceCalibre).issues.filter(
+  (issue) => issue.severity === "error"
+);
+if (referenceFaults.length > 0) {
+  throw new CalibreValidationError(
+    referenceFaults.map((issue) => ({
+      path: `$ (${issue.parts.join(", ")})`,
+      message: issue.message,
+    }))
+  );
+}
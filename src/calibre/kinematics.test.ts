@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { referenceCalibre } from "@/calibre";
+import {
+  solveCalibreTrain,
+  solveTrain,
+  trainPath,
+  trainRatio,
+} from "@/calibre/kinematics";
+import type { CalibreDefinition } from "@/calibre/schema";
+
+const speeds = solveCalibreTrain(referenceCalibre).arborSpeeds;
+
+const withMeshes = (meshes: CalibreDefinition["meshes"]) => ({
+  ...referenceCalibre,
+  meshes,
+});
+
+describe("solveCalibreTrain", () => {
+  it("turns the reference hands at time-keeping speeds", () => {
+    expect(speeds.center).toBeCloseTo(1, 9);
+    expect(speeds.hour).toBeCloseTo(1 / 12, 9);
+    expect(speeds.fourth).toBeCloseTo(60, 9);
+  });
+
+  it("turns the minute hand clockwise", () => {
+    expect(speeds.center).toBeGreaterThan(0);
+  });
+
+  it("reverses direction at every external mesh", () => {
+    expect(Math.sign(speeds.third)).toBe(-Math.sign(speeds.center));
+    expect(Math.sign(speeds.fourth)).toBe(Math.sign(speeds.center));
+  });
+
+  it("has nothing to report for the reference calibre", () => {
+    expect(solveCalibreTrain(referenceCalibre).issues).toEqual([]);
+  });
+
+  it("caches the solution per calibre", () => {
+    expect(solveCalibreTrain(referenceCalibre)).toBe(
+      solveCalibreTrain(referenceCalibre)
+    );
+  });
+});
+
+describe("solveTrain", () => {
+  it("flags arbors the train does not reach", () => {
+    const calibre = withMeshes(
+      referenceCalibre.meshes.filter((mesh) => mesh.driver !== "cannonPinion")
+    );
+    const solution = solveTrain(calibre, {
+      arbor: "center",
+      revolutionsPerHour: 1,
+    });
+    expect(solution.issues.map((issue) => issue.message)).toEqual([
+      'arbor "minute" is not connected to the train',
+      'arbor "hour" is not connected to the train',
+    ]);
+  });
+
+  it("flags an arbor driven at two speeds", () => {
+    const calibre = withMeshes([
+      ...referenceCalibre.meshes,
+      { driver: "centerWheel", driven: "fourthPinion" },
+    ]);
+    const solution = solveTrain(calibre, {
+      arbor: "center",
+      revolutionsPerHour: 1,
+    });
+    expect(solution.issues.length).toBeGreaterThan(0);
+    solution.issues.forEach((issue) =>
+      expect(issue.message).toMatch(/conflicting speeds/)
+    );
+  });
+});
+
+describe("trainRatio", () => {
+  it("multiplies the tooth ratios from barrel to escape wheel", () => {
+    // 72/12 × 64/8 × 60/8 × 96/6
+    const solution = solveCalibreTrain(referenceCalibre);
+    expect(trainRatio(solution, "barrel", "escape")).toBeCloseTo(5760, 6);
+  });
+});
+
+describe("trainPath", () => {
+  it("follows the going train from barrel to escape wheel", () => {
+    expect(trainPath(referenceCalibre, "barrel", "escape")).toEqual([
+      "barrel",
+      "center",
+      "third",
+      "fourth",
+      "escape",
+    ]);
+  });
+
+  it("only follows meshes from driver to driven", () => {
+    expect(trainPath(referenceCalibre, "escape", "barrel")).toBeUndefined();
+  });
+
+  it("is undefined when the train is broken", () => {
+    const calibre = withMeshes(
+      referenceCalibre.meshes.filter((mesh) => mesh.driver !== "thirdWheel")
+    );
+    expect(trainPath(calibre, "barrel", "escape")).toBeUndefined();
+  });
+});
@@ -0,0 +1,166 @@
+import type { CalibreDefinition } from "@/calibre/schema";
+import type { CalibreIssue } from "@/calibre/validate";
+
+export interface TrainReference {
+  arbor: string;
+  revolutionsPerHour: number;
+}
+
+export interface TrainSolution {
+  /**
+   * Signed arbor speeds in revolutions per hour. Positive is clockwise when
+   * seen from the dial side, i.e. looking down the scene's y axis.
+   */
+  arborSpeeds: Record<string, number>;
+  issues: CalibreIssue[];
+}
+
+const RATIO_TOLERANCE = 1e-9;
+
+const toothCounts = (calibre: CalibreDefinition) => {
+  const parts = new Map<string, { arbor: string; teeth: number }>();
+  calibre.wheels.forEach((wheel) =>
+    parts.set(wheel.id, { arbor: wheel.arbor, teeth: wheel.teeth })
+  );
+  calibre.pinions.forEach((pinion) =>
+    parts.set(pinion.id, { arbor: pinion.arbor, teeth: pinion.leaves })
+  );
+  return parts;
+};
+
+/**
+ * Propagates a single known arbor speed through the meshing graph. Parts on
+ * one arbor turn together; an external mesh scales speed by the tooth ratio
+ * and reverses direction. Meshes are treated as undirected so the reference
+ * may sit anywhere in the train.
+ */
+export const solveTrain = (
+  calibre: CalibreDefinition,
+  reference: TrainReference
+): TrainSolution => {
+  const parts = toothCounts(calibre);
+  const issues: CalibreIssue[] = [];
+  const speeds: Record<string, number> = {
+    [reference.arbor]: reference.revolutionsPerHour,
+  };
+  const queue = [reference.arbor];
+
+  while (queue.length > 0) {
+    const arbor = queue.shift()!;
+    calibre.meshes.forEach((mesh, index) => {
+      const driver = parts.get(mesh.driver);
+      const driven = parts.get(mesh.driven);
+      if (!driver || !driven) return;
+      const [from, to] =
+        driver.arbor === arbor
+          ? [driver, driven]
+          : driven.arbor === arbor
+            ? [driven, driver]
+            : [null, null];
+      if (!from || !to) return;
+
+      const speed = (-speeds[arbor] * from.teeth) / to.teeth;
+      if (speeds[to.arbor] === undefined) {
+        speeds[to.arbor] = speed;
+        queue.push(to.arbor);
+      } else if (
+        Math.abs(speeds[to.arbor] - speed) >
+        RATIO_TOLERANCE * Math.max(1, Math.abs(speed))
+      ) {
+        issues.push({
+          path: `$.meshes[${index}]`,
+          message: `arbor "${to.arbor}" is driven at conflicting speeds`,
+        });
+      }
+    });
+  }
+
+  calibre.arbors.forEach((arbor, index) => {
+    if (speeds[arbor.id] === undefined) {
+      speeds[arbor.id] = 0;
+      issues.push({
+        path: `$.arbors[${index}]`,
+        message: `arbor "${arbor.id}" is not connected to the train`,
+      });
+    }
+  });
+
+  return { arborSpeeds: speeds, issues };
+};
+
+const solutions = new WeakMap<CalibreDefinition, TrainSolution>();
+
+/**
+ * Solves the train from the escapement: the escape wheel advances one tooth
+ * every two beats, and the direction is chosen so the minute hand turns
+ * clockwise.
+ */
+export const solveCalibreTrain = (
+  calibre: CalibreDefinition
+): TrainSolution => {
+  const cached = solutions.get(calibre);
+  if (cached) return cached;
+
+  const escapeWheel = calibre.wheels.find(
+    (wheel) => wheel.id === calibre.escapement.escapeWheel
+  )!;
+  const solution = solveTrain(calibre, {
+    arbor: escapeWheel.arbor,
+    revolutionsPerHour:
+      calibre.escapement.beatsPerHour / (2 * escapeWheel.teeth),
+  });
+
+  const minuteHand = calibre.hands.find((hand) => hand.kind === "minute");
+  if (minuteHand && solution.arborSpeeds[minuteHand.arbor] < 0) {
+    Object.keys(solution.arborSpeeds).forEach((arbor) => {
+      solution.arborSpeeds[arbor] = -solution.arborSpeeds[arbor];
+    });
+  }
+
+  solutions.set(calibre, solution);
+  return solution;
+};
+
+/** Overall step-up between two arbors, e.g. barrel to escape wheel. */
+export const trainRatio = (
+  solution: TrainSolution,
+  fromArbor: string,
+  toArbor: string
+) =>
+  Math.abs(
+    solution.arborSpeeds[toArbor] / solution.arborSpeeds[fromArbor]
+  );
+
+/**
+ * Arbors power passes through from one arbor to another, following each
+ * mesh from driver to driven, or undefined when nothing connects them.
+ */
+export const trainPath = (
+  calibre: CalibreDefinition,
+  fromArbor: string,
+  toArbor: string
+): string[] | undefined => {
+  const parts = toothCounts(calibre);
+  const previous = new Map<string, string | null>([[fromArbor, null]]);
+  const queue = [fromArbor];
+
+  while (queue.length > 0) {
+    const arbor = queue.shift()!;
+    if (arbor === toArbor) {
+      const path = [arbor];
+      for (let step = previous.get(arbor); step; step = previous.get(step)) {
+        path.unshift(step);
+      }
+      return path;
+    }
+    calibre.meshes.forEach((mesh) => {
+      const driver = parts.get(mesh.driver);
+      const driven = parts.get(mesh.driven);
+      if (driver?.arbor !== arbor || !driven) return;
+      if (previous.has(driven.arbor)) return;
+      previous.set(driven.arbor, arbor);
+      queue.push(driven.arbor);
+    });
+  }
+  return undefined;
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+import { referenceCalibre } from "@/calibre";
+import {
+  calibreLayer,
+  calibreLayers,
+  isRegisteredLayer,
+  onLayersRegistered,
+  registerLayer,
+  registeredLayer,
+  registeredLayerIds,
+} from "@/calibre/layers";
+import { findCalibrePart, fixturePartIds } from "@/calibre/parts";
+
+// Registrations are global; vitest gives each test file its own registry.
+
+describe("layer registry", () => {
+  it("stacks the built-in layers from the case up to the hands", () => {
+    expect(registeredLayerIds()).toEqual([
+      "case",
+      "basePlate",
+      "gearTrain",
+      "escapement",
+      "balance",
+      "hands",
+    ]);
+  });
+
+  it("declares each built-in fixture with its layer", () => {
+    registeredLayerIds()
+      .map((id) => registeredLayer(id)!)
+      .filter((layer) => layer.draws)
+      .forEach((layer) => expect(layer.Fixture).toBeDefined());
+    expect(registeredLayer("case")!.draws).toEqual(["crown"]);
+  });
+
+  it("applies a calibre's overrides and annotations", () => {
+    const layer = calibreLayer(referenceCalibre, "gearTrain")!;
+    const override = referenceCalibre.layers.find(
+      (entry) => entry.id === "gearTrain"
+    )!;
+    expect(layer.baseHeight).toBe(override.baseHeight);
+    expect(layer.annotations).toEqual(override.annotations ?? []);
+  });
+
+  it("adds, replaces and announces layers", () => {
+    const listener = vi.fn();
+    const unsubscribe = onLayersRegistered(listener);
+    const before = calibreLayers(referenceCalibre);
+
+    registerLayer({
+      id: "dial",
+      title: "Dial",
+      description: "Printed dial under the hands.",
+      color: "#ffffff",
+      baseHeight: 2.2,
+    });
+    expect(isRegisteredLayer("dial")).toBe(true);
+    expect(registeredLayerIds().at(-1)).toBe("dial");
+    expect(calibreLayers(referenceCalibre)).not.toBe(before);
+    expect(calibreLayer(referenceCalibre, "dial")!.annotations).toEqual([]);
+
+    registerLayer({ ...registeredLayer("case")!, title: "Case" });
+    expect(registeredLayerIds()[0]).toBe("case");
+    expect(registeredLayer("case")!.title).toBe("Case");
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it("puts fixture parts on whichever layer draws them", () => {
+    expect(findCalibrePart(referenceCalibre, fixturePartIds.crown)!.layer).toBe(
+      "case"
+    );
+    registerLayer({ ...registeredLayer("case")!, draws: [] });
+    registerLayer({
+      ...registeredLayer("basePlate")!,
+      draws: ["crown"],
+    });
+    expect(findCalibrePart(referenceCalibre, fixturePartIds.crown)!.layer).toBe(
+      "basePlate"
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import { ComponentType, lazy } from "react";
+import type { CalibrePartKind } from "@/calibre/parts";
+import type {
+  CalibreAnnotation,
+  CalibreDefinition,
+} from "@/calibre/schema";
+
+/**
+ * The layers a movement is built up from. Each layer registers once, with
+ * its metadata, resting height, the scene parts the calibre schema does not
+ * describe and its starting state; the store, scene, views and tours all
+ * work from the registry, so a new layer needs nothing more than a call to
+ * `registerLayer`. Layers stack in the order they are registered.
+ *
+ * Calibres may override a layer's metadata and add annotations to it, but
+ * only for layers that are registered.
+ */
+
+export interface LayerDefinition {
+  id: string;
+  title: string;
+  description: string;
+  color: string;
+  /** Resting height of the layer's origin with the movement assembled. */
+  baseHeight: number;
+  /** Parts drawn with the layer beyond those the calibre lists. */
+  Fixture?: ComponentType;
+  /**
+   * Kinds of part `Fixture` draws, so they can be picked on this layer:
+   * the calibre's hands, or parts every movement has but the schema does
+   * not list.
+   */
+  draws?: CalibrePartKind[];
+  /** Starting state: shown, opaque and cut by section planes by default. */
+  hidden?: boolean;
+  opacity?: number;
+  sectioned?: boolean;
+}
+
+/** A registered layer with a calibre's overrides applied. */
+export interface CalibreLayer extends LayerDefinition {
+  annotations: CalibreAnnotation[];
+}
+
+/**
+ * A built-in layer's fixture, loaded with the scene that draws the rest of
+ * the movement. The scene depends on the registry, so it is not imported
+ * here up front.
+ */
+const sceneFixture = (
+  name: "Crown" | "PalletFork" | "BalanceWheel" | "WatchHands"
+) =>
+  lazy(() =>
+    import("@/components/watch/WatchScene").then((scene) => ({
+      default: scene[name],
+    }))
+  );
+
+const builtInLayers: LayerDefinition[] = [
+  {
+    id: "case",
+    title: "Case & Crystal",
+    description:
+      "Protective architecture defining the exterior envelope and sapphire " +
+      "crystal.",
+    color: "#d6e2f0",
+    baseHeight: -0.6,
+    Fixture: sceneFixture("Crown"),
+    draws: ["crown"],
+  },
+  {
+    id: "basePlate",
+    title: "Main Plate & Bridges",
+    description:
+      "Structural brass base plate, pillars, and bridges supporting the " +
+      "train.",
+    color: "#7f8ea3",
+    baseHeight: -0.1,
+  },
+  {
+    id: "gearTrain",
+    title: "Gear Train",
+    description:
+      "Mainspring barrel drives the center, third, and fourth wheels to " +
+      "transmit power.",
+    color: "#f7d27b",
+    baseHeight: 0.45,
+  },
+  {
+    id: "escapement",
+    title: "Escapement",
+    description:
+      "Swiss lever escapement with escape wheel and pallets regulating " +
+      "impulse.",
+    color: "#ff9171",
+    baseHeight: 1.05,
+    Fixture: sceneFixture("PalletFork"),
+    draws: ["palletFork"],
+  },
+  {
+    id: "balance",
+    title: "Balance Assembly",
+    description:
+      "Balance wheel, hairspring, and shock protection oscillating at 4 Hz.",
+    color: "#a2f2ff",
+    baseHeight: 1.7,
+    Fixture: sceneFixture("BalanceWheel"),
+    draws: ["balance"],
+  },
+  {
+    id: "hands",
+    title: "Time Display",
+    description:
+      "Hand stack for hours, minutes, and seconds mounted above the motion " +
+      "works.",
+    color: "#e0f5d0",
+    baseHeight: 2.35,
+    Fixture: sceneFixture("WatchHands"),
+    draws: ["hand"],
+  },
+];
+
+// Replaced, never changed, so readers can compare lists by identity.
+let registered: readonly LayerDefinition[] = builtInLayers;
+
+const listeners = new Set<(layers: readonly LayerDefinition[]) => void>();
+
+/**
+ * Adds a layer, or replaces the one registered under the same id in its
+ * place.
+ */
+export const registerLayer = (layer: LayerDefinition) => {
+  registered = registered.some((entry) => entry.id === layer.id)
+    ? registered.map((entry) => (entry.id === layer.id ? layer : entry))
+    : [...registered, layer];
+  listeners.forEach((listener) => listener(registered));
+};
+
+export const registeredLayers = () => registered;
+
+export const registeredLayerIds = () => registered.map((layer) => layer.id);
+
+export const registeredLayer = (id: string) =>
+  registered.find((layer) => layer.id === id);
+
+export const isRegisteredLayer = (id: unknown): id is string =>
+  registered.some((layer) => layer.id === id);
+
+/** Calls `listener` after every registration; returns an unsubscribe. */
+export const onLayersRegistered = (
+  listener: (layers: readonly LayerDefinition[]) => void
+) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const resolved = new WeakMap<
+  CalibreDefinition,
+  { from: readonly LayerDefinition[]; layers: CalibreLayer[] }
+>();
+
+/** Every registered layer, in stacking order, as the calibre has it. */
+export const calibreLayers = (calibre: CalibreDefinition): CalibreLayer[] => {
+  const cached = resolved.get(calibre);
+  if (cached?.from === registered) return cached.layers;
+
+  const layers = registered.map((layer) => {
+    const override = calibre.layers.find((entry) => entry.id === layer.id);
+    return {
+      ...layer,
+      title: override?.title ?? layer.title,
+      description: override?.description ?? layer.description,
+      color: override?.color ?? layer.color,
+      baseHeight: override?.baseHeight ?? layer.baseHeight,
+      annotations: override?.annotations ?? [],
+    };
+  });
+  resolved.set(calibre, { from: registered, layers });
+  return layers;
+};
+
+export const calibreLayer = (calibre: CalibreDefinition, id: string) =>
+  calibreLayers(calibre).find((layer) => layer.id === id);
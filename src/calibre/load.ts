@@ -0,0 +1,40 @@
+import { CalibreDefinition } from "@/calibre/schema";
+import { CalibreIssue, validateCalibre } from "@/calibre/validate";
+
+export class CalibreValidationError extends Error {
+  readonly issues: CalibreIssue[];
+
+  constructor(issues: CalibreIssue[]) {
+    super(
+      `Invalid calibre definition:\n${issues
+        .map((issue) => `  ${issue.path}: ${issue.message}`)
+        .join("\n")}`
+    );
+    this.name = "CalibreValidationError";
+    this.issues = issues;
+  }
+}
+
+/** Validates untrusted JSON and narrows it to a calibre definition. */
+export const parseCalibre = (input: unknown): CalibreDefinition => {
+  const issues = validateCalibre(input);
+  if (issues.length > 0) {
+    throw new CalibreValidationError(issues);
+  }
+  return input as CalibreDefinition;
+};
+
+export const parseCalibreJson = (source: string): CalibreDefinition => {
+  let input: unknown;
+  try {
+    input = JSON.parse(source);
+  } catch (error) {
+    throw new CalibreValidationError([
+      {
+        path: "$",
+        message: error instanceof Error ? error.message : "malformed JSON",
+      },
+    ]);
+  }
+  return parseCalibre(input);
+};
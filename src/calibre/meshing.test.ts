@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { referenceCalibre } from "@/calibre";
+import { checkCalibreMeshing, idealCentreDistance } from "@/calibre/meshing";
+import type { CalibreDefinition } from "@/calibre/schema";
+import { toothedPartInfo } from "@/calibre/parts";
+
+const edited = (edit: (calibre: CalibreDefinition) => void) => {
+  const calibre = structuredClone(referenceCalibre);
+  edit(calibre);
+  return calibre;
+};
+
+/** Moves arbor `to` along its line from `from`, scaling their distance. */
+const spread = (
+  calibre: CalibreDefinition,
+  from: string,
+  to: string,
+  factor: number
+) => {
+  const origin = calibre.arbors.find((arbor) => arbor.id === from)!.position;
+  const arbor = calibre.arbors.find((entry) => entry.id === to)!;
+  arbor.position = [
+    origin[0] + (arbor.position[0] - origin[0]) * factor,
+    arbor.position[1],
+    origin[2] + (arbor.position[2] - origin[2]) * factor,
+  ];
+};
+
+const messagesFor = (calibre: CalibreDefinition, part: string) =>
+  checkCalibreMeshing(calibre)
+    .issues.filter((issue) => issue.parts.includes(part))
+    .map((issue) => `${issue.severity}: ${issue.message}`);
+
+describe("checkCalibreMeshing", () => {
+  it("finds nothing wrong with the reference calibre", () => {
+    const report = checkCalibreMeshing(referenceCalibre);
+    expect(report.issues).toEqual([]);
+    expect(report.meshes).toHaveLength(referenceCalibre.meshes.length);
+    expect(report.flagged).toEqual({});
+  });
+
+  it("caches the report per calibre", () => {
+    expect(checkCalibreMeshing(referenceCalibre)).toBe(
+      checkCalibreMeshing(referenceCalibre)
+    );
+  });
+
+  it("flags a mesh between different modules", () => {
+    const calibre = edited((draft) => {
+      draft.pinions.find((pinion) => pinion.id === "thirdPinion")!.module *= 2;
+    });
+    expect(messagesFor(calibre, "thirdPinion")).toContainEqual(
+      expect.stringMatching(/^error: .* have different modules/)
+    );
+    expect(checkCalibreMeshing(calibre).flagged.thirdPinion).toBe("error");
+  });
+
+  it("flags parts that are not level with each other", () => {
+    const calibre = edited((draft) => {
+      draft.pinions.find((pinion) => pinion.id === "thirdPinion")!.offset += 1;
+    });
+    expect(messagesFor(calibre, "thirdPinion")).toContainEqual(
+      expect.stringMatching(/^error: .* are not level with each other/)
+    );
+  });
+
+  it("warns of a shallow mesh and errs when the parts no longer reach", () => {
+    const shallow = edited((draft) => spread(draft, "center", "third", 1.01));
+    expect(messagesFor(shallow, "thirdPinion")).toContainEqual(
+      expect.stringMatching(/^warning: .* mesh too shallow/)
+    );
+    const apart = edited((draft) => spread(draft, "center", "third", 1.2));
+    expect(messagesFor(apart, "thirdPinion")).toContainEqual(
+      expect.stringMatching(/^error: .* do not reach each other/)
+    );
+  });
+
+  it("errs when the tips bottom in the roots", () => {
+    const calibre = edited((draft) => spread(draft, "center", "third", 0.9));
+    expect(messagesFor(calibre, "thirdPinion")).toContainEqual(
+      expect.stringMatching(/^error: .* interfere/)
+    );
+  });
+
+  it("flags a part fouling one it does not mesh with", () => {
+    const calibre = edited((draft) => {
+      draft.meshes = draft.meshes.filter(
+        (mesh) => mesh.driven !== "thirdPinion"
+      );
+    });
+    expect(messagesFor(calibre, "thirdPinion")).toContainEqual(
+      expect.stringMatching(/^error: .* fouls .*, which it does not mesh with/)
+    );
+  });
+});
+
+describe("idealCentreDistance", () => {
+  it("sums the pitch radii of a cycloidal pair", () => {
+    const wheel = toothedPartInfo(referenceCalibre, "centerWheel")!;
+    const pinion = toothedPartInfo(referenceCalibre, "thirdPinion")!;
+    expect(
+      idealCentreDistance(referenceCalibre, "centerWheel", "thirdPinion")
+    ).toBeCloseTo((wheel.pitchDiameter + pinion.pitchDiameter) / 2, 12);
+  });
+
+  it("is undefined for an unknown part", () => {
+    expect(
+      idealCentreDistance(referenceCalibre, "centerWheel", "nothing")
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,278 @@
+import type {
+  BridgeDefinition,
+  CalibreDefinition,
+  PinionDefinition,
+  WheelDefinition,
+} from "@/calibre/schema";
+import { calibreLayer } from "@/calibre/layers";
+import { gearOutline } from "@/calibre/toothProfiles";
+
+/**
+ * Checks that the wheels and pinions of a calibre can actually run: each
+ * declared mesh must share a module, sit at the centre distance its pitch
+ * circles call for and overlap in height, and no toothed part may foul a
+ * part it does not mesh with or cut into a bridge or plate. Everything is
+ * checked with the movement assembled, before any explode.
+ */
+
+export type MeshingSeverity = "error" | "warning";
+
+export interface MeshingIssue {
+  severity: MeshingSeverity;
+  /** Parts to highlight for the issue. */
+  parts: string[];
+  message: string;
+}
+
+export interface MeshCheck {
+  driver: string;
+  driven: string;
+  centreDistance: number;
+  /** Centre distance at which the pitch circles touch. */
+  idealDistance: number;
+  issues: MeshingIssue[];
+}
+
+export interface MeshingReport {
+  meshes: MeshCheck[];
+  /** Every issue, the meshes' own included. */
+  issues: MeshingIssue[];
+  /** Worst severity flagged against each part. */
+  flagged: Record<string, MeshingSeverity>;
+}
+
+/** Depthing error, in modules, tolerated either side of the ideal. */
+const DEPTH_TOLERANCE = 0.1;
+
+/** Overlap, in scene units, below which parts are only touching. */
+const CONTACT_TOLERANCE = 0.01;
+
+interface ToothedSolid {
+  id: string;
+  name: string;
+  arbor: string;
+  module: number;
+  count: number;
+  x: number;
+  z: number;
+  /** Top and bottom faces, assembled. */
+  top: number;
+  bottom: number;
+  pitchRadius: number;
+  tipRadius: number;
+  rootRadius: number;
+  /** Shift of an involute profile, in modules. */
+  shift: number;
+}
+
+const format = (value: number) => value.toFixed(3);
+
+const heightOverlap = (
+  a: { top: number; bottom: number },
+  b: { top: number; bottom: number }
+) => Math.min(a.top, b.top) - Math.max(a.bottom, b.bottom);
+
+const layerHeight = (calibre: CalibreDefinition, layer: string) =>
+  calibreLayer(calibre, layer)?.baseHeight ?? 0;
+
+const toothedSolids = (calibre: CalibreDefinition) => {
+  const solid = (
+    part: WheelDefinition | PinionDefinition,
+    role: "wheel" | "pinion",
+    count: number
+  ): ToothedSolid | undefined => {
+    const arbor = calibre.arbors.find((entry) => entry.id === part.arbor);
+    if (!arbor) return undefined;
+    const outline = gearOutline({
+      role,
+      count,
+      module: part.module,
+      profile: part.profile,
+    });
+    const centre =
+      layerHeight(calibre, arbor.layer) + arbor.position[1] + part.offset;
+    return {
+      id: part.id,
+      name: part.name,
+      arbor: part.arbor,
+      module: part.module,
+      count,
+      x: arbor.position[0],
+      z: arbor.position[2],
+      top: centre + part.thickness / 2,
+      bottom: centre - part.thickness / 2,
+      pitchRadius: outline.pitchRadius,
+      tipRadius: outline.tipRadius,
+      rootRadius: outline.rootRadius,
+      shift:
+        part.profile?.kind === "involute" ? part.profile.profileShift ?? 0 : 0,
+    };
+  };
+  return [
+    ...calibre.wheels.map((wheel) => solid(wheel, "wheel", wheel.teeth)),
+    ...calibre.pinions.map((pinion) => solid(pinion, "pinion", pinion.leaves)),
+  ].filter((entry): entry is ToothedSolid => entry !== undefined);
+};
+
+// Shifted involutes stand apart by the sum of their shifts, near enough.
+const pitchDistance = (a: ToothedSolid, b: ToothedSolid) =>
+  a.pitchRadius +
+  b.pitchRadius +
+  ((a.shift + b.shift) * (a.module + b.module)) / 2;
+
+/**
+ * Centre distance at which two wheels or pinions mesh correctly, or
+ * undefined when either is missing.
+ */
+export const idealCentreDistance = (
+  calibre: CalibreDefinition,
+  driver: string,
+  driven: string
+) => {
+  const solids = toothedSolids(calibre);
+  const a = solids.find((solid) => solid.id === driver);
+  const b = solids.find((solid) => solid.id === driven);
+  return a && b ? pitchDistance(a, b) : undefined;
+};
+
+const checkMesh = (
+  driver: ToothedSolid,
+  driven: ToothedSolid
+): MeshCheck => {
+  const parts = [driver.id, driven.id];
+  const pair = `${driver.name} and ${driven.name}`;
+  const centreDistance = Math.hypot(driver.x - driven.x, driver.z - driven.z);
+  const idealDistance = pitchDistance(driver, driven);
+  const issues: MeshingIssue[] = [];
+  const error = (message: string) =>
+    issues.push({ severity: "error", parts, message });
+  const warning = (message: string) =>
+    issues.push({ severity: "warning", parts, message });
+
+  if (Math.abs(driver.module - driven.module) > 1e-6) {
+    error(
+      `${pair} have different modules (${driver.module} and ${driven.module}).`
+    );
+  }
+  if (heightOverlap(driver, driven) <= CONTACT_TOLERANCE) {
+    error(`${pair} are not level with each other, so their teeth miss.`);
+  }
+
+  const tolerance =
+    (DEPTH_TOLERANCE * (driver.module + driven.module)) / 2;
+  const distances = `${format(centreDistance)} apart against ${format(
+    idealDistance
+  )}`;
+  if (centreDistance >= driver.tipRadius + driven.tipRadius) {
+    error(`${pair} do not reach each other: ${distances}.`);
+  } else if (
+    centreDistance <
+    Math.max(
+      driver.tipRadius + driven.rootRadius,
+      driven.tipRadius + driver.rootRadius
+    )
+  ) {
+    error(`${pair} interfere, tips bottoming in the roots: ${distances}.`);
+  } else if (centreDistance < idealDistance - tolerance) {
+    warning(`${pair} mesh too deep: ${distances}.`);
+  } else if (centreDistance > idealDistance + tolerance) {
+    warning(`${pair} mesh too shallow: ${distances}.`);
+  }
+
+  return {
+    driver: driver.id,
+    driven: driven.id,
+    centreDistance,
+    idealDistance,
+    issues,
+  };
+};
+
+/** How far a toothed part's tip circle reaches into a bridge, in plan. */
+const planOverlap = (part: ToothedSolid, bridge: BridgeDefinition) => {
+  const [x, , z] = bridge.position;
+  if (bridge.shape.kind === "disc") {
+    const radius = Math.max(bridge.shape.radiusTop, bridge.shape.radiusBottom);
+    return part.tipRadius + radius - Math.hypot(part.x - x, part.z - z);
+  }
+  const dx = Math.max(0, Math.abs(part.x - x) - bridge.shape.width / 2);
+  const dz = Math.max(0, Math.abs(part.z - z) - bridge.shape.length / 2);
+  return part.tipRadius - Math.hypot(dx, dz);
+};
+
+const reports = new WeakMap<CalibreDefinition, MeshingReport>();
+
+export const checkCalibreMeshing = (
+  calibre: CalibreDefinition
+): MeshingReport => {
+  const cached = reports.get(calibre);
+  if (cached) return cached;
+
+  const solids = toothedSolids(calibre);
+  const byId = new Map(solids.map((solid) => [solid.id, solid]));
+  const meshes = calibre.meshes.flatMap((mesh) => {
+    const driver = byId.get(mesh.driver);
+    const driven = byId.get(mesh.driven);
+    return driver && driven ? [checkMesh(driver, driven)] : [];
+  });
+  const issues = meshes.flatMap((mesh) => mesh.issues);
+
+  const meshed = (a: string, b: string) =>
+    calibre.meshes.some(
+      (mesh) =>
+        (mesh.driver === a && mesh.driven === b) ||
+        (mesh.driver === b && mesh.driven === a)
+    );
+  solids.forEach((part, index) => {
+    solids.slice(index + 1).forEach((other) => {
+      if (other.arbor === part.arbor || meshed(part.id, other.id)) return;
+      const reach =
+        part.tipRadius +
+        other.tipRadius -
+        Math.hypot(part.x - other.x, part.z - other.z);
+      if (
+        reach > CONTACT_TOLERANCE &&
+        heightOverlap(part, other) > CONTACT_TOLERANCE
+      ) {
+        issues.push({
+          severity: "error",
+          parts: [part.id, other.id],
+          message:
+            `${part.name} fouls ${other.name}, ` +
+            "which it does not mesh with.",
+        });
+      }
+    });
+  });
+
+  calibre.bridges.forEach((bridge) => {
+    const centre = layerHeight(calibre, bridge.layer) + bridge.position[1];
+    const extent = {
+      top: centre + bridge.thickness / 2,
+      bottom: centre - bridge.thickness / 2,
+    };
+    solids.forEach((part) => {
+      if (
+        planOverlap(part, bridge) > CONTACT_TOLERANCE &&
+        heightOverlap(part, extent) > CONTACT_TOLERANCE
+      ) {
+        issues.push({
+          severity: "error",
+          parts: [part.id, bridge.id],
+          message: `${part.name} cuts into ${bridge.name}.`,
+        });
+      }
+    });
+  });
+
+  const flagged: Record<string, MeshingSeverity> = {};
+  issues.forEach((issue) =>
+    issue.parts.forEach((part) => {
+      if (flagged[part] !== "error") flagged[part] = issue.severity;
+    })
+  );
+
+  const report = { meshes, issues, flagged };
+  reports.set(calibre, report);
+  return report;
+};
@@ -0,0 +1,210 @@
+import type {
+  CalibreDefinition,
+  GearMaterial,
+  ToothProfile,
+} from "@/calibre/schema";
+import { LayerDefinition, registeredLayers } from "@/calibre/layers";
+import { ToothRole, resolveToothProfile } from "@/calibre/toothProfiles";
+import type { WatchLayer } from "@/state/useWatchStore";
+
+export type CalibrePartKind =
+  | "wheel"
+  | "pinion"
+  | "bridge"
+  | "jewel"
+  | "hand"
+  | "balance"
+  | "palletFork"
+  | "crown";
+
+/** Anything in the scene that can be picked, inspected or framed. */
+export interface CalibrePart {
+  id: string;
+  name: string;
+  kind: CalibrePartKind;
+  layer: WatchLayer;
+}
+
+/**
+ * Ids of the parts every movement has but the schema does not list. Calibre
+ * ids may not reuse them.
+ */
+export const fixturePartIds = {
+  balance: "balanceWheel",
+  palletFork: "palletFork",
+  crown: "crown",
+} as const;
+
+const handNames = {
+  hour: "Hour hand",
+  minute: "Minute hand",
+  seconds: "Seconds hand",
+};
+
+const fixtureParts: Omit<CalibrePart, "layer">[] = [
+  { id: fixturePartIds.balance, name: "Balance wheel", kind: "balance" },
+  { id: fixturePartIds.palletFork, name: "Pallet fork", kind: "palletFork" },
+  { id: fixturePartIds.crown, name: "Winding crown", kind: "crown" },
+];
+
+const parts = new WeakMap<
+  CalibreDefinition,
+  { from: readonly LayerDefinition[]; parts: CalibrePart[] }
+>();
+
+/**
+ * Every part in the scene. Hands and fixture parts are on whichever layer
+ * draws their kind, and left out when no registered layer does.
+ */
+export const calibreParts = (calibre: CalibreDefinition): CalibrePart[] => {
+  const layers = registeredLayers();
+  const cached = parts.get(calibre);
+  if (cached?.from === layers) return cached.parts;
+
+  const drawnOn = (kind: CalibrePartKind) =>
+    layers.find((layer) => layer.draws?.includes(kind))?.id;
+  const handLayer = drawnOn("hand");
+  const arbor = (id: string) =>
+    calibre.arbors.find((entry) => entry.id === id)!;
+  const list: CalibrePart[] = [
+    ...calibre.wheels.map((wheel) => ({
+      id: wheel.id,
+      name: wheel.name,
+      kind: "wheel" as const,
+      layer: arbor(wheel.arbor).layer,
+    })),
+    ...calibre.pinions.map((pinion) => ({
+      id: pinion.id,
+      name: pinion.name,
+      kind: "pinion" as const,
+      layer: arbor(pinion.arbor).layer,
+    })),
+    ...calibre.bridges.map((bridge) => ({
+      id: bridge.id,
+      name: bridge.name,
+      kind: "bridge" as const,
+      layer: bridge.layer,
+    })),
+    ...calibre.jewels.map((jewel) => ({
+      id: jewel.id,
+      name: jewel.arbor
+        ? `${arbor(jewel.arbor).name} ${
+            jewel.setting === "ring" ? "shock ring" : "jewel"
+          }`
+        : jewel.setting === "ring"
+          ? "Shock ring"
+          : "Jewel",
+      kind: "jewel" as const,
+      layer: jewel.layer,
+    })),
+    ...(handLayer === undefined
+      ? []
+      : calibre.hands.map((hand) => ({
+          id: hand.id,
+          name: handNames[hand.kind],
+          kind: "hand" as const,
+          layer: handLayer,
+        }))),
+    ...fixtureParts.flatMap((part) => {
+      const layer = drawnOn(part.kind);
+      return layer === undefined ? [] : [{ ...part, layer }];
+    }),
+  ];
+
+  parts.set(calibre, { from: layers, parts: list });
+  return list;
+};
+
+export const findCalibrePart = (calibre: CalibreDefinition, id: string) =>
+  calibreParts(calibre).find((part) => part.id === id);
+
+export interface ToothedPartInfo {
+  arbor: string;
+  /** Teeth on a wheel, leaves on a pinion. */
+  count: number;
+  module: number;
+  thickness: number;
+  material: GearMaterial;
+  pitchDiameter: number;
+  role: ToothRole;
+  /** Tooth form, with the default filled in. */
+  profile: ToothProfile;
+}
+
+/** Gear data for a wheel or pinion id, or undefined for any other part. */
+export const toothedPartInfo = (
+  calibre: CalibreDefinition,
+  id: string
+): ToothedPartInfo | undefined => {
+  const wheel = calibre.wheels.find((entry) => entry.id === id);
+  const pinion = calibre.pinions.find((entry) => entry.id === id);
+  const part = wheel ?? pinion;
+  if (!part) return undefined;
+  const count = wheel ? wheel.teeth : pinion!.leaves;
+  return {
+    arbor: part.arbor,
+    count,
+    module: part.module,
+    thickness: part.thickness,
+    material: part.material,
+    pitchDiameter: part.module * count,
+    role: wheel ? "wheel" : "pinion",
+    profile: resolveToothProfile(part.profile),
+  };
+};
+
+export interface PartMeshing {
+  part: CalibrePart;
+  role: "drives" | "driven by";
+}
+
+/** Wheels and pinions the part is in mesh with, in either direction. */
+export const partMeshing = (
+  calibre: CalibreDefinition,
+  id: string
+): PartMeshing[] =>
+  calibre.meshes.flatMap((mesh): PartMeshing[] => {
+    if (mesh.driver === id) {
+      const part = findCalibrePart(calibre, mesh.driven);
+      return part ? [{ part, role: "drives" }] : [];
+    }
+    if (mesh.driven === id) {
+      const part = findCalibrePart(calibre, mesh.driver);
+      return part ? [{ part, role: "driven by" }] : [];
+    }
+    return [];
+  });
+
+/**
+ * Where the axis a part turns about meets the movement plane, as scene (x, z).
+ * Undefined for parts with no upright axis, such as bridges and the crown.
+ */
+export const partAxis = (
+  calibre: CalibreDefinition,
+  id: string
+): [number, number] | undefined => {
+  const arborAxis = (arborId: string) => {
+    const arbor = calibre.arbors.find((entry) => entry.id === arborId);
+    return arbor
+      ? ([arbor.position[0], arbor.position[2]] as [number, number])
+      : undefined;
+  };
+  const toothed = toothedPartInfo(calibre, id);
+  if (toothed) return arborAxis(toothed.arbor);
+  const jewel = calibre.jewels.find((entry) => entry.id === id);
+  if (jewel) {
+    return jewel.arbor
+      ? arborAxis(jewel.arbor)
+      : [jewel.position[0], jewel.position[2]];
+  }
+  const hand = calibre.hands.find((entry) => entry.id === id);
+  if (hand) return arborAxis(hand.arbor);
+  if (id === fixturePartIds.balance) {
+    return [calibre.balance.position[0], calibre.balance.position[2]];
+  }
+  if (id === fixturePartIds.palletFork) {
+    const [x, , z] = calibre.escapement.palletPosition;
+    return [x, z];
+  }
+  return undefined;
+};
@@ -0,0 +1,232 @@
+import type { WatchLayer } from "@/state/useWatchStore";
+
+/**
+ * Calibre definitions describe a movement as data: the stacked layers, the
+ * arbors that carry wheels and pinions, the bridges and jewels holding them,
+ * and which toothed parts mesh with one another. All lengths are in scene
+ * units, converted to the real movement's size by `millimetresPerUnit`, and
+ * every position is relative to the owning layer's origin.
+ */
+export const CALIBRE_SCHEMA_VERSION = 1;
+
+export type Vec3 = [number, number, number];
+
+export type GearMaterial = "brass" | "steel" | "ruby";
+
+export interface SurfaceFinish {
+  color: string;
+  metalness: number;
+  roughness: number;
+  opacityScale?: number;
+  transmission?: number;
+}
+
+export type CalibreMaterial = GearMaterial | SurfaceFinish;
+
+export interface CalibreAnnotation {
+  text: string;
+  position: Vec3;
+}
+
+/** A calibre's own take on a registered layer; omitted fields keep its. */
+export interface CalibreLayerDefinition {
+  id: WatchLayer;
+  title?: string;
+  description?: string;
+  color?: string;
+  baseHeight?: number;
+  annotations?: CalibreAnnotation[];
+}
+
+export interface ArborDefinition {
+  id: string;
+  name: string;
+  layer: WatchLayer;
+  position: Vec3;
+  staff?: {
+    radius: number;
+    length: number;
+    offset: number;
+  };
+}
+
+interface ToothProfileBase {
+  /** Points along each tooth flank; more for close-up renders. */
+  resolution?: number;
+}
+
+export interface InvoluteProfile extends ToothProfileBase {
+  kind: "involute";
+  /** Pressure angle in degrees, 20 when omitted. */
+  pressureAngle?: number;
+  /** Profile shift coefficient, in modules, 0 when omitted. */
+  profileShift?: number;
+}
+
+export interface CycloidalProfile extends ToothProfileBase {
+  kind: "cycloidal";
+  /** Height of a wheel tooth's ogival addendum, in modules. */
+  addendum?: number;
+}
+
+/**
+ * Tooth form of a wheel or pinion. The cycloidal form is the horological
+ * one: ogival wheel teeth driving pinion leaves with radial flanks, used
+ * whenever a part does not name a profile.
+ */
+export type ToothProfile = InvoluteProfile | CycloidalProfile;
+
+interface ToothedPartDefinition {
+  id: string;
+  name: string;
+  arbor: string;
+  /**
+   * Pitch diameter per tooth, in scene units like every other length; times
+   * `millimetresPerUnit` it is the module in millimetres.
+   */
+  module: number;
+  thickness: number;
+  holeRadius?: number;
+  material: GearMaterial;
+  /** Height of the part along its arbor. */
+  offset: number;
+  profile?: ToothProfile;
+}
+
+export interface WheelDefinition extends ToothedPartDefinition {
+  teeth: number;
+}
+
+export interface PinionDefinition extends ToothedPartDefinition {
+  leaves: number;
+}
+
+export interface MeshDefinition {
+  driver: string;
+  driven: string;
+}
+
+export type BridgeShape =
+  | { kind: "bar"; width: number; length: number }
+  | { kind: "disc"; radiusTop: number; radiusBottom: number };
+
+/** Plates, bridges, cocks and case parts: anything static that is not toothed. */
+export interface BridgeDefinition {
+  id: string;
+  name: string;
+  layer: WatchLayer;
+  position: Vec3;
+  thickness: number;
+  shape: BridgeShape;
+  material: CalibreMaterial;
+}
+
+export interface JewelDefinition {
+  id: string;
+  layer: WatchLayer;
+  setting: "chaton" | "ring";
+  position: Vec3;
+  arbor?: string;
+  radius: number;
+  height: number;
+}
+
+export interface EscapementDefinition {
+  escapeWheel: string;
+  beatsPerHour: number;
+  /** Balance arc, in degrees, over which the roller engages the fork. */
+  liftAngle: number;
+  /** Fork swing, in degrees, between the two banking pins. */
+  forkAngle: number;
+  palletPosition: Vec3;
+}
+
+export interface MainspringDefinition {
+  barrelWheel: string;
+  barrels: number;
+  /** Barrel drum turns from fully wound to let down. */
+  turns: number;
+  crownTurnsPerBarrelTurn: number;
+}
+
+/** Balance rim and timing screws; masses in mg, radii in mm. */
+export interface BalanceInertiaDefinition {
+  rimMass: number;
+  rimRadius: number;
+  screwCount: number;
+  screwMass: number;
+  screwRadius: number;
+  /** How far each screw can be turned in or out, in mm. */
+  screwTravel: number;
+}
+
+/** Hairspring strip; Young's modulus in GPa, dimensions in mm. */
+export interface HairspringDefinition {
+  youngsModulus: number;
+  height: number;
+  thickness: number;
+  length: number;
+  /** Active length the curb pins take up or give back at full index. */
+  regulatorTravel: number;
+  /** Rate change, in s/day, per 100° the amplitude falls below nominal. */
+  isochronism: number;
+}
+
+/** Residual heavy spot of the balance, in mg·mm at an angle in degrees. */
+export interface BalancePoiseDefinition {
+  unbalance: number;
+  angle: number;
+}
+
+export interface BalanceDefinition {
+  position: Vec3;
+  /** Nominal amplitude in degrees either side of the dead point. */
+  amplitude: number;
+  /** Degrees the balance rests off the line of centres; sets beat error. */
+  beatOffset: number;
+  rimRadius: number;
+  hairspringTurns: number;
+  hairspringRadius: number;
+  inertia: BalanceInertiaDefinition;
+  hairspring: HairspringDefinition;
+  poise: BalancePoiseDefinition;
+}
+
+export interface CrownDefinition {
+  position: Vec3;
+  radius: number;
+  length: number;
+}
+
+export type HandKind = "hour" | "minute" | "seconds";
+
+export interface HandDefinition {
+  id: string;
+  kind: HandKind;
+  length: number;
+  thickness: number;
+  color: string;
+  elevation: number;
+  /** Arbor or pipe the hand is fitted to; it turns at that arbor's speed. */
+  arbor: string;
+}
+
+export interface CalibreDefinition {
+  schemaVersion: typeof CALIBRE_SCHEMA_VERSION;
+  id: string;
+  name: string;
+  /** Millimetres on the real movement per scene unit, for dimensioning. */
+  millimetresPerUnit: number;
+  layers: CalibreLayerDefinition[];
+  arbors: ArborDefinition[];
+  wheels: WheelDefinition[];
+  pinions: PinionDefinition[];
+  meshes: MeshDefinition[];
+  bridges: BridgeDefinition[];
+  jewels: JewelDefinition[];
+  mainspring: MainspringDefinition;
+  escapement: EscapementDefinition;
+  balance: BalanceDefinition;
+  crown: CrownDefinition;
+  hands: HandDefinition[];
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_TOOTH_PROFILE,
+  GearOutline,
+  gearOutline,
+  resolveToothProfile,
+} from "@/calibre/toothProfiles";
+
+const radii = (outline: GearOutline) =>
+  outline.points.map(([x, y]) => Math.hypot(x, y));
+
+/** Signed area of the outline; positive when it runs anticlockwise. */
+const area = (outline: GearOutline) =>
+  outline.points.reduce((sum, [x, y], index) => {
+    const [nx, ny] = outline.points[(index + 1) % outline.points.length];
+    return sum + (x * ny - nx * y) / 2;
+  }, 0);
+
+describe("gearOutline", () => {
+  const cycloidalWheel = gearOutline({ role: "wheel", count: 60, module: 0.1 });
+  const involuteWheel = gearOutline({
+    role: "wheel",
+    count: 40,
+    module: 0.1,
+    profile: { kind: "involute" },
+  });
+
+  it("puts the pitch circle at module times count", () => {
+    expect(cycloidalWheel.pitchRadius).toBeCloseTo(3, 12);
+    expect(involuteWheel.pitchRadius).toBeCloseTo(2, 12);
+  });
+
+  it("stays between the root and tip circles", () => {
+    [cycloidalWheel, involuteWheel].forEach((outline) =>
+      radii(outline).forEach((radius) => {
+        expect(radius).toBeGreaterThanOrEqual(outline.rootRadius - 1e-9);
+        expect(radius).toBeLessThanOrEqual(outline.tipRadius + 1e-9);
+      })
+    );
+  });
+
+  it("runs anticlockwise without repeating its first point", () => {
+    expect(area(cycloidalWheel)).toBeGreaterThan(0);
+    expect(cycloidalWheel.points[0]).not.toEqual(
+      cycloidalWheel.points[cycloidalWheel.points.length - 1]
+    );
+  });
+
+  it("gives cycloidal wheel teeth the horological addendum", () => {
+    expect(cycloidalWheel.tipRadius).toBeCloseTo(3 + 1.35 * 0.1, 9);
+    expect(cycloidalWheel.rootRadius).toBeCloseTo(3 - 1.6 * 0.1, 12);
+  });
+
+  it("rounds the leaves of small pinions", () => {
+    const pinion = gearOutline({ role: "pinion", count: 6, module: 0.1 });
+    expect(pinion.tipRadius).toBeGreaterThan(pinion.pitchRadius);
+    expect(pinion.tipRadius).toBeLessThan(pinion.pitchRadius + 0.07);
+  });
+
+  it("gives involute teeth one module of addendum, moved by the shift", () => {
+    expect(involuteWheel.tipRadius).toBeCloseTo(2.1, 12);
+    expect(involuteWheel.rootRadius).toBeCloseTo(2 - 0.125, 12);
+    const shifted = gearOutline({
+      role: "wheel",
+      count: 40,
+      module: 0.1,
+      profile: { kind: "involute", profileShift: 0.5 },
+    });
+    expect(shifted.tipRadius).toBeCloseTo(2.15, 12);
+    expect(shifted.rootRadius).toBeCloseTo(2 - 0.075, 12);
+  });
+
+  it("tops involute teeth that would come to a point", () => {
+    const pointed = gearOutline({
+      role: "pinion",
+      count: 8,
+      module: 0.1,
+      profile: { kind: "involute", profileShift: 1 },
+    });
+    expect(pointed.tipRadius).toBeLessThan(0.4 + 0.2);
+    expect(Math.max(...radii(pointed))).toBeCloseTo(pointed.tipRadius, 6);
+  });
+
+  it("keeps the root clear of a bore", () => {
+    const bored = gearOutline({ role: "wheel", count: 60, module: 0.1 }, 2.9);
+    expect(bored.rootRadius).toBe(2.9);
+    expect(Math.min(...radii(bored))).toBeCloseTo(2.9, 12);
+  });
+
+  it("draws finer flanks at a higher resolution", () => {
+    const fine = gearOutline({
+      role: "wheel",
+      count: 60,
+      module: 0.1,
+      profile: { kind: "cycloidal", resolution: 16 },
+    });
+    expect(fine.points.length).toBeGreaterThan(cycloidalWheel.points.length);
+  });
+});
+
+describe("resolveToothProfile", () => {
+  it("defaults to the cycloidal form", () => {
+    expect(resolveToothProfile()).toBe(DEFAULT_TOOTH_PROFILE);
+    expect(resolveToothProfile({ kind: "involute" })).toEqual({
+      kind: "involute",
+    });
+  });
+});
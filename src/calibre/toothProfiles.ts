@@ -0,0 +1,270 @@
+import type {
+  CycloidalProfile,
+  InvoluteProfile,
+  ToothProfile,
+} from "@/calibre/schema";
+
+/**
+ * Outlines of wheel teeth and pinion leaves, in the plane of the part with
+ * its axis at the origin. Each tooth is described by half its profile, as
+ * radius and angular half-width from the root up to the tip, and mirrored
+ * about its centre line.
+ *
+ * Involute teeth follow the textbook generation with profile shift. The
+ * cycloidal form uses the circular-arc approximations of the horological
+ * standards (NIHS 20-25, BS 978): wheel teeth with an ogival addendum on
+ * radial flanks, and pinion leaves with radial flanks and a rounded or
+ * ogival head.
+ */
+
+export type ToothRole = "wheel" | "pinion";
+
+export interface ToothForm {
+  role: ToothRole;
+  /** Teeth on a wheel, leaves on a pinion. */
+  count: number;
+  module: number;
+  profile?: ToothProfile;
+}
+
+export interface GearOutline {
+  pitchRadius: number;
+  tipRadius: number;
+  rootRadius: number;
+  /** Closed outline, anticlockwise, without repeating the first point. */
+  points: [number, number][];
+}
+
+export const DEFAULT_TOOTH_PROFILE: ToothProfile = { kind: "cycloidal" };
+
+export const DEFAULT_FLANK_RESOLUTION = 8;
+
+export const DEFAULT_PRESSURE_ANGLE = 20;
+
+/** Wheel tooth proportions, in modules. */
+const WHEEL_THICKNESS = 1.41;
+const WHEEL_ADDENDUM = 1.35;
+const WHEEL_DEDENDUM = 1.6;
+
+/** Pinion leaf proportions, in modules. */
+const PINION_DEDENDUM = 1.75;
+const PINION_OGIVAL_ADDENDUM = 0.7;
+/** Fewest leaves given an ogival head; smaller pinions are rounded. */
+const PINION_OGIVAL_LEAVES = 8;
+
+const pinionThickness = (leaves: number) => (leaves <= 10 ? 1.05 : 1.25);
+
+/** Involute addendum and dedendum, in modules, before profile shift. */
+const INVOLUTE_ADDENDUM = 1;
+const INVOLUTE_DEDENDUM = 1.25;
+
+/** Radius and angular half-width of a point on a tooth's flank. */
+type ProfilePoint = [radius: number, halfWidth: number];
+
+const range = (from: number, to: number, steps: number) =>
+  Array.from(
+    { length: steps + 1 },
+    (_, index) => from + ((to - from) * index) / steps
+  );
+
+const involuteFunction = (angle: number) => Math.tan(angle) - angle;
+
+const involuteTooth = (
+  count: number,
+  module: number,
+  profile: InvoluteProfile,
+  steps: number
+) => {
+  const pressureAngle =
+    ((profile.pressureAngle ?? DEFAULT_PRESSURE_ANGLE) * Math.PI) / 180;
+  const shift = profile.profileShift ?? 0;
+  const pitchRadius = (module * count) / 2;
+  const baseRadius = pitchRadius * Math.cos(pressureAngle);
+  const rootRadius = pitchRadius - module * (INVOLUTE_DEDENDUM - shift);
+  const halfPitchWidth =
+    (Math.PI / 2 + 2 * shift * Math.tan(pressureAngle)) / count;
+  const halfWidth = (radius: number) =>
+    halfPitchWidth +
+    involuteFunction(pressureAngle) -
+    involuteFunction(Math.acos(Math.min(1, baseRadius / radius)));
+
+  // Teeth that would come to a point are topped where the flanks meet.
+  let tipRadius = pitchRadius + module * (INVOLUTE_ADDENDUM + shift);
+  if (halfWidth(tipRadius) < 0) {
+    let low = Math.max(baseRadius, pitchRadius);
+    let high = tipRadius;
+    for (let step = 0; step < 40; step += 1) {
+      const middle = (low + high) / 2;
+      if (halfWidth(middle) > 0) low = middle;
+      else high = middle;
+    }
+    tipRadius = low;
+  }
+
+  // Flank points are spaced evenly in roll angle, which crowds them low
+  // on the flank where the involute bends most.
+  const flankStart = Math.max(baseRadius, rootRadius);
+  const roll = (radius: number) =>
+    Math.sqrt(Math.max(0, radius * radius - baseRadius * baseRadius)) /
+    baseRadius;
+  const flank = range(roll(flankStart), roll(tipRadius), steps).map(
+    (angle): ProfilePoint => {
+      const radius = baseRadius * Math.sqrt(1 + angle * angle);
+      return [radius, halfWidth(radius)];
+    }
+  );
+  // Below the base circle the flank runs straight down to the root.
+  const half: ProfilePoint[] =
+    rootRadius < baseRadius ? [[rootRadius, flank[0][1]], ...flank] : flank;
+  return { pitchRadius, tipRadius, rootRadius, half };
+};
+
+/**
+ * Circular arc from the pitch point of a flank, at `halfWidth` either side
+ * of the centre line, to the tooth's centre line at `tipRadius`. The arc is
+ * centred on the pitch circle, as in the standard horological construction.
+ */
+const ogive = (
+  pitchRadius: number,
+  halfWidth: number,
+  tipRadius: number,
+  steps: number
+): ProfilePoint[] => {
+  // Solves |centre - pitch point| = |centre - tip| for the centre's angle.
+  const a =
+    2 * pitchRadius * tipRadius -
+    2 * pitchRadius * pitchRadius * Math.cos(halfWidth);
+  const b = 2 * pitchRadius * pitchRadius * Math.sin(halfWidth);
+  const k = tipRadius * tipRadius - pitchRadius * pitchRadius;
+  const centreAngle =
+    Math.atan2(b, a) -
+    Math.acos(Math.min(1, k / Math.sqrt(a * a + b * b)));
+  const centre = [
+    pitchRadius * Math.cos(centreAngle),
+    pitchRadius * Math.sin(centreAngle),
+  ];
+  const start = Math.atan2(
+    -pitchRadius * Math.sin(halfWidth) - centre[1],
+    pitchRadius * Math.cos(halfWidth) - centre[0]
+  );
+  const end = Math.atan2(-centre[1], tipRadius - centre[0]);
+  const radius = Math.hypot(
+    pitchRadius * Math.cos(halfWidth) - centre[0],
+    pitchRadius * Math.sin(halfWidth) + centre[1]
+  );
+  return range(start, end, steps).map((angle): ProfilePoint => {
+    const x = centre[0] + radius * Math.cos(angle);
+    const y = centre[1] + radius * Math.sin(angle);
+    return [Math.hypot(x, y), Math.max(0, -Math.atan2(y, x))];
+  });
+};
+
+/** Half-round head on a leaf with radial flanks. */
+const roundHead = (
+  pitchRadius: number,
+  halfWidth: number,
+  steps: number
+): ProfilePoint[] => {
+  const centre = pitchRadius * Math.cos(halfWidth);
+  const radius = pitchRadius * Math.sin(halfWidth);
+  return range(-Math.PI / 2, 0, steps).map((angle): ProfilePoint => {
+    const x = centre + radius * Math.cos(angle);
+    const y = radius * Math.sin(angle);
+    return [Math.hypot(x, y), Math.max(0, -Math.atan2(y, x))];
+  });
+};
+
+const cycloidalTooth = (
+  role: ToothRole,
+  count: number,
+  module: number,
+  profile: CycloidalProfile,
+  steps: number
+) => {
+  const pitchRadius = (module * count) / 2;
+  const wheel = role === "wheel";
+  const thickness = wheel ? WHEEL_THICKNESS : pinionThickness(count);
+  const halfWidth = (thickness * module) / (2 * pitchRadius);
+  const rootRadius =
+    pitchRadius - module * (wheel ? WHEEL_DEDENDUM : PINION_DEDENDUM);
+
+  let head: ProfilePoint[];
+  if (wheel || count >= PINION_OGIVAL_LEAVES) {
+    const addendum = wheel
+      ? profile.addendum ?? WHEEL_ADDENDUM
+      : PINION_OGIVAL_ADDENDUM;
+    const tipRadius = pitchRadius + module * addendum;
+    head = ogive(pitchRadius, halfWidth, tipRadius, steps);
+  } else {
+    head = roundHead(pitchRadius, halfWidth, steps);
+  }
+  return {
+    pitchRadius,
+    tipRadius: head[head.length - 1][0],
+    rootRadius,
+    half: [[rootRadius, halfWidth] as ProfilePoint, ...head],
+  };
+};
+
+/** The profile a part is drawn with, filling in the defaults. */
+export const resolveToothProfile = (profile?: ToothProfile): ToothProfile =>
+  profile ?? DEFAULT_TOOTH_PROFILE;
+
+/**
+ * Outline of a whole wheel or pinion. The root is kept at `minRootRadius`
+ * or beyond, so a bore never breaks into the tooth spaces.
+ */
+export const gearOutline = (
+  form: ToothForm,
+  minRootRadius = 0
+): GearOutline => {
+  const profile = resolveToothProfile(form.profile);
+  const steps = Math.max(
+    2,
+    Math.round(profile.resolution ?? DEFAULT_FLANK_RESOLUTION)
+  );
+  const tooth =
+    profile.kind === "involute"
+      ? involuteTooth(form.count, form.module, profile, steps)
+      : cycloidalTooth(form.role, form.count, form.module, profile, steps);
+
+  const rootRadius = Math.max(tooth.rootRadius, minRootRadius);
+  const clipped = tooth.half.filter(([radius]) => radius > rootRadius);
+  const half: ProfilePoint[] = [
+    [rootRadius, (clipped[0] ?? tooth.half[0])[1]],
+    ...clipped,
+  ];
+  // A tooth ending on its centre line has a single tip point.
+  const tip = half[half.length - 1][1] < 1e-9 ? half.length - 1 : half.length;
+  const pitchAngle = (Math.PI * 2) / form.count;
+  const rootSteps = Math.max(2, Math.ceil(steps / 2));
+  const polar = (radius: number, angle: number): [number, number] => [
+    radius * Math.cos(angle),
+    radius * Math.sin(angle),
+  ];
+
+  const points: [number, number][] = [];
+  for (let index = 0; index < form.count; index += 1) {
+    const centre = index * pitchAngle;
+    half.forEach(([radius, width]) =>
+      points.push(polar(radius, centre - width))
+    );
+    for (let point = tip - 1; point >= 0; point -= 1) {
+      const [radius, width] = half[point];
+      points.push(polar(radius, centre + width));
+    }
+    // Root between this tooth and the next, leaving out both ends.
+    const from = centre + half[0][1];
+    const to = centre + pitchAngle - half[0][1];
+    range(from, to, rootSteps)
+      .slice(1, -1)
+      .forEach((angle) => points.push(polar(rootRadius, angle)));
+  }
+
+  return {
+    pitchRadius: tooth.pitchRadius,
+    tipRadius: tooth.tipRadius,
+    rootRadius,
+    points,
+  };
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { referenceCalibre } from "@/calibre";
+import type { CalibreDefinition } from "@/calibre/schema";
+import {
+  addTrainPart,
+  checkTrainDesign,
+  setTrainPartDrives,
+  updateTrainPart,
+} from "@/calibre/trainDesign";
+
+const drivenBy = (calibre: CalibreDefinition, driver: string) =>
+  calibre.meshes
+    .filter((mesh) => mesh.driver === driver)
+    .map((mesh) => mesh.driven);
+
+describe("setTrainPartDrives", () => {
+  it("lets a part drive several parts", () => {
+    const calibre = setTrainPartDrives(
+      { ...referenceCalibre, meshes: [] },
+      "centerWheel",
+      ["thirdPinion", "fourthPinion"]
+    );
+    expect(drivenBy(calibre, "centerWheel")).toEqual([
+      "thirdPinion",
+      "fourthPinion",
+    ]);
+  });
+
+  it("drops meshes no longer listed and leaves the input untouched", () => {
+    const meshes = referenceCalibre.meshes;
+    const calibre = setTrainPartDrives(referenceCalibre, "centerWheel", []);
+    expect(drivenBy(calibre, "centerWheel")).toEqual([]);
+    expect(calibre.meshes).toHaveLength(meshes.length - 1);
+    expect(referenceCalibre.meshes).toBe(meshes);
+  });
+
+  it("keeps every part to a single driver", () => {
+    const calibre = setTrainPartDrives(referenceCalibre, "thirdWheel", [
+      "fourthPinion",
+      "thirdPinion",
+      "thirdWheel",
+    ]);
+    expect(drivenBy(calibre, "thirdWheel")).toEqual(["fourthPinion"]);
+    expect(drivenBy(calibre, "centerWheel")).toEqual(["thirdPinion"]);
+  });
+});
+
+describe("addTrainPart", () => {
+  it("takes its module and thickness from the last part of its kind", () => {
+    const calibre = addTrainPart(referenceCalibre, "pinion");
+    const added = calibre.pinions[calibre.pinions.length - 1];
+    const last = referenceCalibre.pinions[referenceCalibre.pinions.length - 1];
+    expect(added.module).toBe(last.module);
+    expect(added.thickness).toBe(last.thickness);
+    expect(calibre.arbors.map((arbor) => arbor.id)).toContain(added.arbor);
+  });
+
+  it("takes them from a wheel when there is no pinion to copy", () => {
+    const calibre = addTrainPart(
+      { ...referenceCalibre, pinions: [], meshes: [] },
+      "pinion"
+    );
+    const last = referenceCalibre.wheels[referenceCalibre.wheels.length - 1];
+    expect(calibre.pinions[0].module).toBe(last.module);
+    expect(calibre.pinions[0].thickness).toBe(last.thickness);
+  });
+
+  it("puts the new arbor on the going train's layer", () => {
+    const calibre = addTrainPart(referenceCalibre, "wheel");
+    const added = calibre.wheels[calibre.wheels.length - 1];
+    const arbor = calibre.arbors.find((entry) => entry.id === added.arbor)!;
+    const barrel = referenceCalibre.arbors.find(
+      (entry) => entry.id === "barrel"
+    )!;
+    expect(arbor.layer).toBe(barrel.layer);
+  });
+});
+
+describe("checkTrainDesign", () => {
+  it("passes the reference train", () => {
+    expect(checkTrainDesign(referenceCalibre)).toEqual([]);
+  });
+
+  it("flags a mesh between parts of different modules", () => {
+    const calibre = updateTrainPart(referenceCalibre, "thirdPinion", {
+      module: 0.02,
+    });
+    expect(checkTrainDesign(calibre)).toContainEqual({
+      severity: "error",
+      part: "thirdPinion",
+      message: expect.stringMatching(/cannot mesh: their modules differ/),
+    });
+  });
+});
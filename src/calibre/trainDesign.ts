@@ -0,0 +1,492 @@
+import { solveCalibreTrain } from "@/calibre/kinematics";
+import { idealCentreDistance } from "@/calibre/meshing";
+import type {
+  ArborDefinition,
+  CalibreDefinition,
+  HandKind,
+  PinionDefinition,
+  WheelDefinition,
+} from "@/calibre/schema";
+import type { ToothRole } from "@/calibre/toothProfiles";
+import { validateCalibre } from "@/calibre/validate";
+
+/**
+ * Edits to the going train of a calibre, for designing one interactively.
+ * Every edit returns a new calibre and leaves its input untouched, so the
+ * result can go straight to the store. Arbors are placed afterwards, at the
+ * centre distances their meshes call for, by `placeTrainArbors`.
+ */
+
+export interface TrainPartChanges {
+  /** Teeth on a wheel, leaves on a pinion. */
+  count?: number;
+  module?: number;
+  /** Height of the part along its arbor. */
+  offset?: number;
+  /** Arbor to carry the part; a new arbor when null. */
+  arbor?: string | null;
+}
+
+export interface TrainDesignIssue {
+  severity: "error" | "warning";
+  /** Part to select for the issue, if any. */
+  part?: string;
+  message: string;
+}
+
+/** Revolutions per hour each hand makes on a watch that keeps time. */
+export const handRevolutionsPerHour: Record<HandKind, number> = {
+  hour: 1 / 12,
+  minute: 1,
+  seconds: 60,
+};
+
+const newPartDefaults: Record<
+  ToothRole,
+  { count: number; name: string; material: WheelDefinition["material"] }
+> = {
+  wheel: { count: 60, name: "Wheel", material: "brass" },
+  pinion: { count: 8, name: "Pinion", material: "steel" },
+};
+
+/**
+ * Module and thickness, in millimetres, of a new part when the calibre has
+ * no wheel or pinion to take them from: those of a small going train.
+ */
+const NEW_PART_MODULE_MM = 0.1;
+const NEW_PART_THICKNESS_MM = 0.25;
+
+/** Turn, in radians, between the bearings of arbors with nowhere to go. */
+const SPREAD_ANGLE = 2.4;
+
+const SPEED_TOLERANCE = 1e-6;
+
+const MODULE_TOLERANCE = 1e-6;
+
+const calibreIds = (calibre: CalibreDefinition) =>
+  new Set([
+    ...calibre.arbors.map((entry) => entry.id),
+    ...calibre.wheels.map((entry) => entry.id),
+    ...calibre.pinions.map((entry) => entry.id),
+    ...calibre.bridges.map((entry) => entry.id),
+    ...calibre.jewels.map((entry) => entry.id),
+    ...calibre.hands.map((entry) => entry.id),
+  ]);
+
+/** First of `prefix1`, `prefix2`, … not already taken by the calibre. */
+const freshId = (calibre: CalibreDefinition, prefix: string) => {
+  const taken = calibreIds(calibre);
+  let index = 1;
+  while (taken.has(`${prefix}${index}`)) index += 1;
+  return { id: `${prefix}${index}`, index };
+};
+
+/** A new arbor on the layer of the going train, which the barrel heads. */
+const newArbor = (calibre: CalibreDefinition): ArborDefinition => {
+  const { id, index } = freshId(calibre, "arbor");
+  const barrel = calibre.wheels.find(
+    (wheel) => wheel.id === calibre.mainspring.barrelWheel
+  )!;
+  const layer = calibre.arbors.find((arbor) => arbor.id === barrel.arbor)!
+    .layer;
+  const train = calibre.arbors.filter((arbor) => arbor.layer === layer);
+  const height = train[train.length - 1]?.position[1] ?? 0;
+  return {
+    id,
+    name: `Arbor ${index}`,
+    layer,
+    position: [0, height, 0],
+  };
+};
+
+/** Drops arbors left carrying nothing, along with their jewels. */
+const pruneArbors = (calibre: CalibreDefinition): CalibreDefinition => {
+  const used = new Set([
+    ...calibre.wheels.map((wheel) => wheel.arbor),
+    ...calibre.pinions.map((pinion) => pinion.arbor),
+    ...calibre.hands.map((hand) => hand.arbor),
+  ]);
+  return {
+    ...calibre,
+    arbors: calibre.arbors.filter((arbor) => used.has(arbor.id)),
+    jewels: calibre.jewels.filter(
+      (jewel) => jewel.arbor === undefined || used.has(jewel.arbor)
+    ),
+  };
+};
+
+const updatePart = <Part extends WheelDefinition | PinionDefinition>(
+  parts: Part[],
+  id: string,
+  update: (part: Part) => Part
+) => parts.map((part) => (part.id === id ? update(part) : part));
+
+/**
+ * Whether the rest of the calibre depends on the part, as it does on the
+ * barrel and escape wheels, so it cannot be removed.
+ */
+export const isFixedTrainPart = (calibre: CalibreDefinition, id: string) =>
+  id === calibre.mainspring.barrelWheel ||
+  id === calibre.escapement.escapeWheel;
+
+/**
+ * Adds a wheel or pinion on an arbor of its own, in mesh with nothing. It
+ * takes the module and thickness of the last part of its kind, or of any
+ * part, so it is ready to mesh with the train as it stands.
+ */
+export const addTrainPart = (
+  calibre: CalibreDefinition,
+  role: ToothRole
+): CalibreDefinition => {
+  const defaults = newPartDefaults[role];
+  const arbor = newArbor(calibre);
+  const withArbor = { ...calibre, arbors: [...calibre.arbors, arbor] };
+  const { id, index } = freshId(withArbor, role);
+  const siblings: (WheelDefinition | PinionDefinition)[] =
+    role === "wheel" ? calibre.wheels : calibre.pinions;
+  const toothed = [...calibre.wheels, ...calibre.pinions];
+  const template =
+    siblings[siblings.length - 1] ?? toothed[toothed.length - 1];
+  const part = {
+    id,
+    name: `${defaults.name} ${index}`,
+    arbor: arbor.id,
+    module:
+      template?.module ?? NEW_PART_MODULE_MM / calibre.millimetresPerUnit,
+    thickness:
+      template?.thickness ??
+      NEW_PART_THICKNESS_MM / calibre.millimetresPerUnit,
+    material: defaults.material,
+    offset: 0,
+  };
+  return role === "wheel"
+    ? {
+        ...withArbor,
+        wheels: [...calibre.wheels, { ...part, teeth: defaults.count }],
+      }
+    : {
+        ...withArbor,
+        pinions: [...calibre.pinions, { ...part, leaves: defaults.count }],
+      };
+};
+
+export const removeTrainPart = (
+  calibre: CalibreDefinition,
+  id: string
+): CalibreDefinition => {
+  if (isFixedTrainPart(calibre, id)) return calibre;
+  return pruneArbors({
+    ...calibre,
+    wheels: calibre.wheels.filter((wheel) => wheel.id !== id),
+    pinions: calibre.pinions.filter((pinion) => pinion.id !== id),
+    meshes: calibre.meshes.filter(
+      (mesh) => mesh.driver !== id && mesh.driven !== id
+    ),
+  });
+};
+
+/** Moves a part one place up or down the list of its kind. */
+export const moveTrainPart = (
+  calibre: CalibreDefinition,
+  id: string,
+  step: -1 | 1
+): CalibreDefinition => {
+  const move = <Part extends { id: string }>(parts: Part[]) => {
+    const from = parts.findIndex((part) => part.id === id);
+    const to = from + step;
+    if (from < 0 || to < 0 || to >= parts.length) return parts;
+    const next = [...parts];
+    [next[from], next[to]] = [next[to], next[from]];
+    return next;
+  };
+  return {
+    ...calibre,
+    wheels: move(calibre.wheels),
+    pinions: move(calibre.pinions),
+  };
+};
+
+export const updateTrainPart = (
+  calibre: CalibreDefinition,
+  id: string,
+  changes: TrainPartChanges
+): CalibreDefinition => {
+  let next = calibre;
+  let arbor = changes.arbor;
+  if (arbor === null) {
+    const created = newArbor(calibre);
+    next = { ...calibre, arbors: [...calibre.arbors, created] };
+    arbor = created.id;
+  }
+  const common = <Part extends WheelDefinition | PinionDefinition>(
+    part: Part
+  ): Part => ({
+    ...part,
+    module: changes.module ?? part.module,
+    offset: changes.offset ?? part.offset,
+    arbor: arbor ?? part.arbor,
+  });
+  return pruneArbors({
+    ...next,
+    wheels: updatePart(next.wheels, id, (wheel) => ({
+      ...common(wheel),
+      teeth: changes.count ?? wheel.teeth,
+    })),
+    pinions: updatePart(next.pinions, id, (pinion) => ({
+      ...common(pinion),
+      leaves: changes.count ?? pinion.leaves,
+    })),
+  });
+};
+
+/**
+ * Sets the parts the given one drives; an empty list leaves it driving
+ * nothing. A part has one driver, so any part already driven by another is
+ * left out.
+ */
+export const setTrainPartDrives = (
+  calibre: CalibreDefinition,
+  driver: string,
+  driven: string[]
+): CalibreDefinition => {
+  const drivenElsewhere = new Set(
+    calibre.meshes
+      .filter((mesh) => mesh.driver !== driver)
+      .map((mesh) => mesh.driven)
+  );
+  const wanted = new Set(
+    driven.filter((id) => id !== driver && !drivenElsewhere.has(id))
+  );
+  const meshes = calibre.meshes.filter(
+    (mesh) => mesh.driver !== driver || wanted.has(mesh.driven)
+  );
+  const added = [...wanted]
+    .filter(
+      (id) =>
+        !meshes.some((mesh) => mesh.driver === driver && mesh.driven === id)
+    )
+    .map((id) => ({ driver, driven: id }));
+  return { ...calibre, meshes: [...meshes, ...added] };
+};
+
+/**
+ * Arbors that must stay where they are: those carrying the hour and minute
+ * hands, which sit on the dial centre, and the escape wheel's, which works
+ * with the pallets and balance.
+ */
+const fixedArbors = (calibre: CalibreDefinition) => {
+  const escapeWheel = calibre.wheels.find(
+    (wheel) => wheel.id === calibre.escapement.escapeWheel
+  );
+  return new Set([
+    ...calibre.hands
+      .filter((hand) => hand.kind !== "seconds")
+      .map((hand) => hand.arbor),
+    ...(escapeWheel ? [escapeWheel.arbor] : []),
+  ]);
+};
+
+interface CentreLink {
+  arbors: [string, string];
+  distance: number;
+}
+
+/** Where two circles in the movement plane cross, if they do. */
+const circleCrossings = (
+  [ax, az]: [number, number],
+  ra: number,
+  [bx, bz]: [number, number],
+  rb: number
+): [number, number][] => {
+  const span = Math.hypot(bx - ax, bz - az);
+  if (span === 0 || span > ra + rb || span < Math.abs(ra - rb)) return [];
+  const along = (ra * ra - rb * rb + span * span) / (2 * span);
+  const across = Math.sqrt(Math.max(0, ra * ra - along * along));
+  const [ux, uz] = [(bx - ax) / span, (bz - az) / span];
+  const [mx, mz] = [ax + ux * along, az + uz * along];
+  return [
+    [mx - uz * across, mz + ux * across],
+    [mx + uz * across, mz - ux * across],
+  ];
+};
+
+/**
+ * Moves every arbor that is free to move to the correct centre distance
+ * from the arbors it meshes with, starting from the fixed ones and working
+ * outwards. An arbor linked to two placed arbors goes where both distances
+ * are met, on the side nearer where it was; one linked to a single arbor
+ * keeps its bearing from it. Whatever cannot be met is left for the
+ * meshing check to report. Jewels follow their arbors.
+ */
+export const placeTrainArbors = (
+  calibre: CalibreDefinition
+): CalibreDefinition => {
+  const arborOf = new Map(
+    [...calibre.wheels, ...calibre.pinions].map((part) => [
+      part.id,
+      part.arbor,
+    ])
+  );
+  const links = calibre.meshes.flatMap((mesh): CentreLink[] => {
+    const a = arborOf.get(mesh.driver);
+    const b = arborOf.get(mesh.driven);
+    const distance = idealCentreDistance(calibre, mesh.driver, mesh.driven);
+    return a && b && a !== b && distance !== undefined
+      ? [{ arbors: [a, b], distance }]
+      : [];
+  });
+  const current = new Map(
+    calibre.arbors.map((arbor) => [
+      arbor.id,
+      [arbor.position[0], arbor.position[2]] as [number, number],
+    ])
+  );
+  const placed = new Map<string, [number, number]>();
+  fixedArbors(calibre).forEach((id) => {
+    const centre = current.get(id);
+    if (centre) placed.set(id, centre);
+  });
+
+  const placedLinks = (id: string) =>
+    links.flatMap((link) => {
+      if (!link.arbors.includes(id)) return [];
+      const other = link.arbors[0] === id ? link.arbors[1] : link.arbors[0];
+      const centre = placed.get(other);
+      return centre ? [{ centre, distance: link.distance }] : [];
+    });
+
+  // The free arbor with most placed partners goes next.
+  const linked = new Set(links.flatMap((link) => link.arbors));
+  const nextFree = () =>
+    calibre.arbors
+      .filter((arbor) => linked.has(arbor.id) && !placed.has(arbor.id))
+      .sort((a, b) => placedLinks(b.id).length - placedLinks(a.id).length)[0];
+
+  for (let next = nextFree(); next; next = nextFree()) {
+    const from = placedLinks(next.id);
+    const here = current.get(next.id)!;
+    if (from.length === 0) {
+      // Nothing it meshes with is placed yet, so it anchors its own train.
+      placed.set(next.id, here);
+      continue;
+    }
+
+    const second = from.find(
+      (link) =>
+        Math.hypot(
+          link.centre[0] - from[0].centre[0],
+          link.centre[1] - from[0].centre[1]
+        ) > 1e-9
+    );
+    const crossings = second
+      ? circleCrossings(
+          from[0].centre,
+          from[0].distance,
+          second.centre,
+          second.distance
+        )
+      : [];
+    if (crossings.length > 0) {
+      const gap = ([x, z]: [number, number]) =>
+        Math.hypot(x - here[0], z - here[1]);
+      placed.set(
+        next.id,
+        gap(crossings[0]) <= gap(crossings[1]) ? crossings[0] : crossings[1]
+      );
+      continue;
+    }
+
+    const [cx, cz] = from[0].centre;
+    const index = calibre.arbors.indexOf(next);
+    const bearing =
+      Math.hypot(here[0] - cx, here[1] - cz) > 1e-9
+        ? Math.atan2(here[1] - cz, here[0] - cx)
+        : index * SPREAD_ANGLE;
+    placed.set(next.id, [
+      cx + from[0].distance * Math.cos(bearing),
+      cz + from[0].distance * Math.sin(bearing),
+    ]);
+  }
+
+  const position = <Entry extends { position: [number, number, number] }>(
+    entry: Entry,
+    arbor: string | undefined
+  ): Entry => {
+    const centre = arbor === undefined ? undefined : placed.get(arbor);
+    return centre
+      ? { ...entry, position: [centre[0], entry.position[1], centre[1]] }
+      : entry;
+  };
+  return {
+    ...calibre,
+    arbors: calibre.arbors.map((arbor) => position(arbor, arbor.id)),
+    jewels: calibre.jewels.map((jewel) => position(jewel, jewel.arbor)),
+  };
+};
+
+/** A period in hours, in the unit that reads best. */
+export const formatPeriod = (hours: number) => {
+  if (hours >= 1) return `${Number(hours.toFixed(2))} h`;
+  if (hours * 60 >= 1) return `${Number((hours * 60).toFixed(2))} min`;
+  return `${Number((hours * 3600).toFixed(2))} s`;
+};
+
+/**
+ * What stops a designed train from running as a watch: the structural and
+ * kinematic problems the calibre validator finds, meshes between parts of
+ * different modules and, once the train runs, hands that would not tell the
+ * time.
+ */
+export const checkTrainDesign = (
+  calibre: CalibreDefinition
+): TrainDesignIssue[] => {
+  const invalid = validateCalibre(calibre);
+  if (invalid.length > 0) {
+    return invalid.map((issue) => ({
+      severity: "error",
+      message: `${issue.message[0].toUpperCase()}${issue.message.slice(1)}.`,
+    }));
+  }
+  const issues: TrainDesignIssue[] = [];
+  const toothed = [...calibre.wheels, ...calibre.pinions];
+  calibre.meshes.forEach((mesh) => {
+    const driver = toothed.find((part) => part.id === mesh.driver);
+    const driven = toothed.find((part) => part.id === mesh.driven);
+    if (
+      !driver ||
+      !driven ||
+      Math.abs(driver.module - driven.module) <= MODULE_TOLERANCE
+    ) {
+      return;
+    }
+    issues.push({
+      severity: "error",
+      part: driven.id,
+      message:
+        `${driver.name} and ${driven.name} cannot mesh: their modules ` +
+        `differ (${driver.module} and ${driven.module}).`,
+    });
+  });
+  const { arborSpeeds } = solveCalibreTrain(calibre);
+  calibre.hands.forEach((hand) => {
+    const speed = arborSpeeds[hand.arbor] ?? 0;
+    const wanted = handRevolutionsPerHour[hand.kind];
+    if (speed === 0) return;
+    if (speed < 0) {
+      issues.push({
+        severity: "error",
+        part: hand.id,
+        message: `The ${hand.kind} hand turns backwards.`,
+      });
+    } else if (Math.abs(speed - wanted) > SPEED_TOLERANCE * wanted) {
+      issues.push({
+        severity: "warning",
+        part: hand.id,
+        message: `The ${hand.kind} hand turns once every ${formatPeriod(
+          1 / speed
+        )} instead of ${formatPeriod(1 / wanted)}.`,
+      });
+    }
+  });
+  return issues;
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import referenceJson from "@/calibre/calibres/reference.json";
+import {
+  CalibreValidationError,
+  parseCalibre,
+  parseCalibreJson,
+} from "@/calibre/load";
+import { validateCalibre } from "@/calibre/validate";
+
+const reference = () => structuredClone(referenceJson);
+
+const paths = (input: unknown) =>
+  validateCalibre(input).map((issue) => issue.path);
+
+describe("validateCalibre", () => {
+  it("accepts the reference calibre", () => {
+    expect(validateCalibre(reference())).toEqual([]);
+  });
+
+  it("rejects anything but an object", () => {
+    expect(paths(null)).toEqual(["$"]);
+    expect(paths([])).toEqual(["$"]);
+  });
+
+  it("rejects an unsupported schema version", () => {
+    expect(paths({ ...reference(), schemaVersion: 99 })).toEqual([
+      "$.schemaVersion",
+    ]);
+  });
+
+  it("rejects non-finite vector components", () => {
+    const calibre = reference();
+    calibre.arbors[0].position = [Number.NaN, 0, Number.POSITIVE_INFINITY];
+    expect(paths(calibre)).toEqual(["$.arbors[0].position"]);
+  });
+
+  it("rejects infinite and non-positive sizes", () => {
+    const calibre = reference();
+    calibre.wheels[0].module = Number.POSITIVE_INFINITY;
+    calibre.wheels[1].thickness = 0;
+    calibre.millimetresPerUnit = -1;
+    expect(paths(calibre)).toEqual([
+      "$.millimetresPerUnit",
+      "$.wheels[0].module",
+      "$.wheels[1].thickness",
+    ]);
+  });
+
+  it("requires a whole number of barrels", () => {
+    const calibre = reference();
+    calibre.mainspring.barrels = 1.5;
+    expect(paths(calibre)).toEqual(["$.mainspring.barrels"]);
+  });
+
+  it("rejects layers nobody registered", () => {
+    const calibre = reference();
+    calibre.arbors[0].layer = "rotor";
+    expect(paths(calibre)).toEqual(["$.arbors[0].layer"]);
+  });
+
+  it("reports duplicate ids and dangling references", () => {
+    const calibre = reference();
+    calibre.bridges[0].id = calibre.wheels[0].id;
+    calibre.meshes[1].driven = "nowhere";
+    expect(paths(calibre)).toEqual([
+      "$.meshes[1].driven",
+      "$.bridges[0].id",
+    ]);
+  });
+});
+
+describe("parseCalibreJson", () => {
+  it("parses the reference calibre", () => {
+    expect(parseCalibreJson(JSON.stringify(referenceJson)).id).toBe(
+      referenceJson.id
+    );
+  });
+
+  it("reports malformed JSON as a validation error", () => {
+    expect(() => parseCalibreJson("{")).toThrow(CalibreValidationError);
+  });
+
+  it("carries every issue on the error", () => {
+    const calibre = reference();
+    calibre.wheels[0].teeth = 2;
+    try {
+      parseCalibre(calibre);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(CalibreValidationError);
+      expect((error as CalibreValidationError).issues).toEqual([
+        {
+          path: "$.wheels[0].teeth",
+          message: "expected an integer of at least 3",
+        },
+      ]);
+    }
+  });
+});
@@ -0,0 +1,425 @@
+import { solveCalibreTrain } from "@/calibre/kinematics";
+import { registeredLayerIds } from "@/calibre/layers";
+import { fixturePartIds } from "@/calibre/parts";
+import { CALIBRE_SCHEMA_VERSION, CalibreDefinition } from "@/calibre/schema";
+
+export interface CalibreIssue {
+  path: string;
+  message: string;
+}
+
+/** Shape checks shared by the calibre and tour validators. */
+export type Check = (
+  value: unknown,
+  path: string,
+  issues: CalibreIssue[]
+) => void;
+
+const gearMaterials = ["brass", "steel", "ruby"];
+const handKinds = ["hour", "minute", "seconds"];
+const jewelSettings = ["chaton", "ring"];
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const string: Check = (value, path, issues) => {
+  if (typeof value !== "string" || value.length === 0) {
+    issues.push({ path, message: "expected a non-empty string" });
+  }
+};
+
+const number: Check = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push({ path, message: "expected a finite number" });
+  }
+};
+
+export const positive: Check = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    issues.push({ path, message: "expected a finite positive number" });
+  }
+};
+
+const positiveInteger: Check = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    issues.push({ path, message: "expected a positive integer" });
+  }
+};
+
+const count: Check = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 3) {
+    issues.push({ path, message: "expected an integer of at least 3" });
+  }
+};
+
+export const vec3: Check = (value, path, issues) => {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 3 ||
+    value.some(
+      (component) =>
+        typeof component !== "number" || !Number.isFinite(component)
+    )
+  ) {
+    issues.push({
+      path,
+      message: "expected an [x, y, z] tuple of finite numbers",
+    });
+  }
+};
+
+export const oneOf =
+  (allowed: readonly string[]): Check =>
+  (value, path, issues) => {
+    if (typeof value !== "string" || !allowed.includes(value)) {
+      issues.push({ path, message: `expected one of ${allowed.join(", ")}` });
+    }
+  };
+
+export const optional =
+  (check: Check): Check =>
+  (value, path, issues) => {
+    if (value !== undefined) check(value, path, issues);
+  };
+
+export const object =
+  (shape: Record<string, Check>): Check =>
+  (value, path, issues) => {
+    if (!isRecord(value)) {
+      issues.push({ path, message: "expected an object" });
+      return;
+    }
+    Object.entries(shape).forEach(([key, check]) =>
+      check(value[key], `${path}.${key}`, issues)
+    );
+  };
+
+export const list =
+  (item: Check): Check =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: "expected an array" });
+      return;
+    }
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+  };
+
+const material: Check = (value, path, issues) => {
+  if (typeof value === "string") {
+    oneOf(gearMaterials)(value, path, issues);
+    return;
+  }
+  object({
+    color: string,
+    metalness: number,
+    roughness: number,
+    opacityScale: optional(number),
+    transmission: optional(number),
+  })(value, path, issues);
+};
+
+const bridgeShape: Check = (value, path, issues) => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: "expected an object" });
+    return;
+  }
+  if (value.kind === "bar") {
+    object({ width: positive, length: positive })(value, path, issues);
+  } else if (value.kind === "disc") {
+    object({ radiusTop: positive, radiusBottom: positive })(
+      value,
+      path,
+      issues
+    );
+  } else {
+    issues.push({ path: `${path}.kind`, message: "expected bar or disc" });
+  }
+};
+
+/** A number within `min` and `max`, inclusive; NaN never is. */
+export const between =
+  (min: number, max: number): Check =>
+  (value, path, issues) => {
+    if (typeof value !== "number" || !(value >= min && value <= max)) {
+      issues.push({
+        path,
+        message: `expected a number from ${min} to ${max}`,
+      });
+    }
+  };
+
+const toothProfile: Check = (value, path, issues) => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: "expected an object" });
+    return;
+  }
+  const resolution = optional(between(2, 64));
+  if (value.kind === "involute") {
+    object({
+      pressureAngle: optional(between(10, 35)),
+      profileShift: optional(between(-1, 1)),
+      resolution,
+    })(value, path, issues);
+  } else if (value.kind === "cycloidal") {
+    object({ addendum: optional(between(0.5, 3)), resolution })(
+      value,
+      path,
+      issues
+    );
+  } else {
+    issues.push({
+      path: `${path}.kind`,
+      message: "expected involute or cycloidal",
+    });
+  }
+};
+
+const toothedPart = (countKey: "teeth" | "leaves") =>
+  object({
+    id: string,
+    name: string,
+    arbor: string,
+    [countKey]: count,
+    module: positive,
+    thickness: positive,
+    holeRadius: optional(positive),
+    material: oneOf(gearMaterials),
+    offset: number,
+    profile: optional(toothProfile),
+  });
+
+/** Id of a registered layer, checked against the registry as it stands. */
+export const layer: Check = (value, path, issues) =>
+  oneOf(registeredLayerIds())(value, path, issues);
+
+const calibreShape = object({
+  id: string,
+  name: string,
+  millimetresPerUnit: positive,
+  layers: list(
+    object({
+      id: layer,
+      title: optional(string),
+      description: optional(string),
+      color: optional(string),
+      baseHeight: optional(number),
+      annotations: optional(list(object({ text: string, position: vec3 }))),
+    })
+  ),
+  arbors: list(
+    object({
+      id: string,
+      name: string,
+      layer,
+      position: vec3,
+      staff: optional(
+        object({ radius: positive, length: positive, offset: number })
+      ),
+    })
+  ),
+  wheels: list(toothedPart("teeth")),
+  pinions: list(toothedPart("leaves")),
+  meshes: list(object({ driver: string, driven: string })),
+  bridges: list(
+    object({
+      id: string,
+      name: string,
+      layer,
+      position: vec3,
+      thickness: positive,
+      shape: bridgeShape,
+      material,
+    })
+  ),
+  jewels: list(
+    object({
+      id: string,
+      layer,
+      setting: oneOf(jewelSettings),
+      position: vec3,
+      arbor: optional(string),
+      radius: positive,
+      height: positive,
+    })
+  ),
+  mainspring: object({
+    barrelWheel: string,
+    barrels: positiveInteger,
+    turns: positive,
+    crownTurnsPerBarrelTurn: positive,
+  }),
+  escapement: object({
+    escapeWheel: string,
+    beatsPerHour: positive,
+    liftAngle: positive,
+    forkAngle: positive,
+    palletPosition: vec3,
+  }),
+  balance: object({
+    position: vec3,
+    amplitude: positive,
+    beatOffset: number,
+    rimRadius: positive,
+    hairspringTurns: positive,
+    hairspringRadius: positive,
+    inertia: object({
+      rimMass: positive,
+      rimRadius: positive,
+      screwCount: count,
+      screwMass: positive,
+      screwRadius: positive,
+      screwTravel: positive,
+    }),
+    hairspring: object({
+      youngsModulus: positive,
+      height: positive,
+      thickness: positive,
+      length: positive,
+      regulatorTravel: positive,
+      isochronism: number,
+    }),
+    poise: object({ unbalance: number, angle: number }),
+  }),
+  crown: object({ position: vec3, radius: positive, length: positive }),
+  hands: list(
+    object({
+      id: string,
+      kind: oneOf(handKinds),
+      length: positive,
+      thickness: positive,
+      color: string,
+      elevation: number,
+      arbor: string,
+    })
+  ),
+});
+
+/**
+ * Cross-reference checks that only make sense once the shape is known to be
+ * sound: unique ids, resolvable arbors and meshes, and layers declared once.
+ */
+const checkReferences = (calibre: CalibreDefinition): CalibreIssue[] => {
+  const issues: CalibreIssue[] = [];
+  const seen = new Set<string>();
+  const reserved = new Set<string>(Object.values(fixturePartIds));
+  const claimId = (id: string, path: string) => {
+    if (reserved.has(id)) {
+      issues.push({ path, message: `id "${id}" is reserved for a fixture` });
+    } else if (seen.has(id)) {
+      issues.push({ path, message: `duplicate id "${id}"` });
+    }
+    seen.add(id);
+  };
+
+  calibre.layers.forEach((entry, index) => {
+    if (calibre.layers.findIndex((other) => other.id === entry.id) !== index) {
+      issues.push({
+        path: `layers[${index}].id`,
+        message: `layer "${entry.id}" is declared twice`,
+      });
+    }
+  });
+
+  const arborIds = new Set(calibre.arbors.map((arbor) => arbor.id));
+  calibre.arbors.forEach((arbor, index) =>
+    claimId(arbor.id, `arbors[${index}].id`)
+  );
+
+  const toothed = [
+    ...calibre.wheels.map((part, index) => ({
+      part,
+      path: `wheels[${index}]`,
+    })),
+    ...calibre.pinions.map((part, index) => ({
+      part,
+      path: `pinions[${index}]`,
+    })),
+  ];
+  toothed.forEach(({ part, path }) => {
+    claimId(part.id, `${path}.id`);
+    if (!arborIds.has(part.arbor)) {
+      issues.push({
+        path: `${path}.arbor`,
+        message: `unknown arbor "${part.arbor}"`,
+      });
+    }
+  });
+
+  const toothedIds = new Set(toothed.map(({ part }) => part.id));
+  calibre.meshes.forEach((mesh, index) => {
+    (["driver", "driven"] as const).forEach((end) => {
+      if (!toothedIds.has(mesh[end])) {
+        issues.push({
+          path: `meshes[${index}].${end}`,
+          message: `unknown wheel or pinion "${mesh[end]}"`,
+        });
+      }
+    });
+    if (mesh.driver === mesh.driven) {
+      issues.push({
+        path: `meshes[${index}]`,
+        message: "a part cannot mesh with itself",
+      });
+    }
+  });
+
+  calibre.bridges.forEach((bridge, index) =>
+    claimId(bridge.id, `bridges[${index}].id`)
+  );
+  calibre.jewels.forEach((jewel, index) => {
+    claimId(jewel.id, `jewels[${index}].id`);
+    if (jewel.arbor && !arborIds.has(jewel.arbor)) {
+      issues.push({
+        path: `jewels[${index}].arbor`,
+        message: `unknown arbor "${jewel.arbor}"`,
+      });
+    }
+  });
+  calibre.hands.forEach((hand, index) => {
+    claimId(hand.id, `hands[${index}].id`);
+    if (!arborIds.has(hand.arbor)) {
+      issues.push({
+        path: `hands[${index}].arbor`,
+        message: `unknown arbor "${hand.arbor}"`,
+      });
+    }
+  });
+
+  const wheelReferences = [
+    ["escapement.escapeWheel", calibre.escapement.escapeWheel],
+    ["mainspring.barrelWheel", calibre.mainspring.barrelWheel],
+  ];
+  wheelReferences.forEach(([path, id]) => {
+    if (!calibre.wheels.some((wheel) => wheel.id === id)) {
+      issues.push({ path, message: `unknown wheel "${id}"` });
+    }
+  });
+
+  return issues;
+};
+
+export const validateCalibre = (input: unknown): CalibreIssue[] => {
+  if (!isRecord(input)) {
+    return [{ path: "$", message: "expected a calibre object" }];
+  }
+  if (input.schemaVersion !== CALIBRE_SCHEMA_VERSION) {
+    return [
+      {
+        path: "$.schemaVersion",
+        message: `unsupported schema version ${String(
+          input.schemaVersion
+        )}, expected ${CALIBRE_SCHEMA_VERSION}`,
+      },
+    ];
+  }
+  const issues: CalibreIssue[] = [];
+  calibreShape(input, "$", issues);
+  if (issues.length > 0) return issues;
+  const calibre = input as unknown as CalibreDefinition;
+  const referenceIssues = checkReferences(calibre).map((issue) => ({
+    ...issue,
+    path: `$.${issue.path}`,
+  }));
+  if (referenceIssues.length > 0) return referenceIssues;
+  return solveCalibreTrain(calibre).issues;
+};
@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CalibreIssue,
+  CalibreValidationError,
+  parseCalibreJson,
+  referenceCalibre,
+} from "@/calibre";
+import { useWatchStore } from "@/state/useWatchStore";
+
+export const CalibrePanel = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const setCalibre = useWatchStore((state) => state.setCalibre);
+  const [issues, setIssues] = useState<CalibreIssue[]>([]);
+
+  const loadFile = async (file: File) => {
+    try {
+      setCalibre(parseCalibreJson(await file.text()));
+      setIssues([]);
+    } catch (error) {
+      setIssues(
+        error instanceof CalibreValidationError
+          ? error.issues
+          : [{ path: file.name, message: "could not be read" }]
+      );
+    }
+  };
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Calibre
+        </h3>
+        <span className="truncate text-sm font-semibold text-cyan-200">
+          {calibre.name}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="cursor-pointer rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-center text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500">
+          Load Calibre JSON
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) void loadFile(file);
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          disabled={calibre === referenceCalibre}
+          onClick={() => {
+            setCalibre(referenceCalibre);
+            setIssues([]);
+          }}
+          className="rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500 disabled:opacity-30"
+        >
+          Reference
+        </button>
+      </div>
+      {issues.length > 0 && (
+        <ul className="grid max-h-56 gap-1 overflow-y-auto rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 font-mono text-[10px] text-rose-200">
+          {issues.map((issue, index) => (
+            <li key={index}>
+              {issue.path}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs leading-relaxed text-slate-400">
+        Load a calibre definition to model another movement. It is validated
+        first; if anything is wrong the current calibre stays and the issues
+        are listed here.
+      </p>
+    </section>
+  );
+};
@@ -0,0 +1,306 @@
+"use client";
+
+import { useState } from "react";
+import { cameraPathDuration } from "@/components/watch/cameraPaths";
+import { downloadText } from "@/components/watch/download";
+import {
+  CameraLibraryError,
+  CameraLibraryIssue,
+  mergeCameraLibrary,
+  parseCameraLibraryJson,
+  stringifyCameraLibrary,
+} from "@/state/cameraLibrary";
+import { CameraPath, useWatchStore } from "@/state/useWatchStore";
+
+const CameraPathRow = ({ path }: { path: CameraPath }) => {
+  const playingCameraPath = useWatchStore((state) => state.playingCameraPath);
+  const playCameraPath = useWatchStore((state) => state.playCameraPath);
+  const addCameraKeyframe = useWatchStore((state) => state.addCameraKeyframe);
+  const setCameraKeyframeGap = useWatchStore(
+    (state) => state.setCameraKeyframeGap
+  );
+  const removeCameraKeyframe = useWatchStore(
+    (state) => state.removeCameraKeyframe
+  );
+  const deleteCameraPath = useWatchStore((state) => state.deleteCameraPath);
+  const playing = playingCameraPath === path.id;
+
+  return (
+    <li className="grid gap-2 rounded-xl border border-slate-800/70 bg-slate-900/50 px-3 py-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="min-w-0">
+          <span className="block truncate text-xs font-semibold text-slate-100">
+            {path.name}
+          </span>
+          <span className="text-[10px] uppercase tracking-widest text-slate-500">
+            {path.keyframes.length} Keys ·{" "}
+            {cameraPathDuration(path).toFixed(1)} s
+          </span>
+        </span>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            disabled={path.keyframes.length < 2}
+            onClick={() => playCameraPath(playing ? null : path.id)}
+            className={`rounded-full border px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider transition disabled:opacity-30 ${
+              playing
+                ? "border-cyan-400/60 bg-cyan-500/10 text-cyan-100"
+                : "border-slate-700/60 bg-slate-800/80 text-slate-200 hover:border-slate-500"
+            }`}
+          >
+            {playing ? "Stop" : "Play"}
+          </button>
+          <button
+            type="button"
+            disabled={playing}
+            onClick={() => addCameraKeyframe(path.id)}
+            title="Add the current camera pose as the next keyframe"
+            className="rounded-full border border-slate-700/60 bg-slate-800/80 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500 disabled:opacity-30"
+          >
+            Add Key
+          </button>
+          <button
+            type="button"
+            onClick={() => deleteCameraPath(path.id)}
+            className="rounded-full border border-rose-500/30 bg-rose-500/10 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-rose-200 transition hover:border-rose-400/60"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+      {path.keyframes.length > 0 && (
+        <details className="text-[11px] text-slate-400">
+          <summary className="cursor-pointer font-semibold uppercase tracking-widest">
+            Keyframes
+          </summary>
+          <ol className="mt-2 grid gap-1">
+            {path.keyframes.map((keyframe, index) => (
+              <li
+                key={index}
+                className="flex items-center justify-between gap-2"
+              >
+                <span>
+                  Key {index + 1}
+                  <span className="ml-2 font-mono text-slate-500">
+                    {keyframe.time.toFixed(1)} s
+                  </span>
+                </span>
+                <span className="flex items-center gap-2">
+                  {index > 0 && (
+                    <label className="flex items-center gap-1">
+                      <span className="text-[10px] uppercase tracking-widest">
+                        Gap
+                      </span>
+                      <input
+                        type="number"
+                        min={0.1}
+                        step={0.5}
+                        value={Number(
+                          (
+                            keyframe.time - path.keyframes[index - 1].time
+                          ).toFixed(2)
+                        )}
+                        onChange={(event) =>
+                          setCameraKeyframeGap(
+                            path.id,
+                            index,
+                            Number(event.target.value)
+                          )
+                        }
+                        className="w-14 rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-0.5 text-right text-xs text-slate-100"
+                      />
+                    </label>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removeCameraKeyframe(path.id, index)}
+                    className="text-[10px] uppercase tracking-wider text-slate-400 hover:text-slate-200"
+                  >
+                    Remove
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+    </li>
+  );
+};
+
+export const CameraPathsPanel = () => {
+  const cameraBookmarks = useWatchStore((state) => state.cameraBookmarks);
+  const cameraPaths = useWatchStore((state) => state.cameraPaths);
+  const cameraPathLoop = useWatchStore((state) => state.cameraPathLoop);
+  const addCameraBookmark = useWatchStore((state) => state.addCameraBookmark);
+  const deleteCameraBookmark = useWatchStore(
+    (state) => state.deleteCameraBookmark
+  );
+  const setCameraTarget = useWatchStore((state) => state.setCameraTarget);
+  const addCameraPath = useWatchStore((state) => state.addCameraPath);
+  const setCameraPathLoop = useWatchStore((state) => state.setCameraPathLoop);
+  const setCameraLibrary = useWatchStore((state) => state.setCameraLibrary);
+  const [bookmarkName, setBookmarkName] = useState("");
+  const [pathName, setPathName] = useState("");
+  const [issues, setIssues] = useState<CameraLibraryIssue[]>([]);
+
+  const importLibrary = async (file: File) => {
+    try {
+      const { bookmarks, paths } = mergeCameraLibrary(
+        { bookmarks: cameraBookmarks, paths: cameraPaths },
+        parseCameraLibraryJson(await file.text())
+      );
+      setCameraLibrary(bookmarks, paths);
+      setIssues([]);
+    } catch (error) {
+      setIssues(
+        error instanceof CameraLibraryError
+          ? error.issues
+          : [{ path: file.name, message: "could not be read" }]
+      );
+    }
+  };
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+        Camera Bookmarks
+      </h3>
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          addCameraBookmark(bookmarkName);
+          setBookmarkName("");
+        }}
+      >
+        <input
+          value={bookmarkName}
+          onChange={(event) => setBookmarkName(event.target.value)}
+          placeholder="Name this camera"
+          className="min-w-0 flex-1 rounded-xl border border-slate-700/60 bg-slate-900/80 px-3 py-2 text-xs text-slate-100 placeholder:text-slate-500"
+        />
+        <button
+          type="submit"
+          className="rounded-full border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 text-xs font-semibold text-cyan-200 transition hover:border-cyan-400/60 hover:bg-cyan-400/20"
+        >
+          Bookmark
+        </button>
+      </form>
+      {cameraBookmarks.length > 0 && (
+        <ul className="grid grid-cols-2 gap-2">
+          {cameraBookmarks.map((bookmark) => (
+            <li
+              key={bookmark.id}
+              className="flex items-center justify-between gap-1 rounded-xl border border-slate-800/70 bg-slate-900/50 px-3 py-2"
+            >
+              <button
+                type="button"
+                onClick={() => setCameraTarget(bookmark.target)}
+                className="min-w-0 flex-1 truncate text-left text-xs font-semibold text-slate-100"
+                title="Move the camera here"
+              >
+                {bookmark.name}
+              </button>
+              <button
+                type="button"
+                onClick={() => deleteCameraBookmark(bookmark.id)}
+                className="text-slate-400 transition hover:text-slate-100"
+                aria-label={`Delete ${bookmark.name}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h3 className="mt-2 text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+        Camera Paths
+      </h3>
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          addCameraPath(pathName);
+          setPathName("");
+        }}
+      >
+        <input
+          value={pathName}
+          onChange={(event) => setPathName(event.target.value)}
+          placeholder="Name a new path"
+          className="min-w-0 flex-1 rounded-xl border border-slate-700/60 bg-slate-900/80 px-3 py-2 text-xs text-slate-100 placeholder:text-slate-500"
+        />
+        <button
+          type="submit"
+          className="rounded-full border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 text-xs font-semibold text-cyan-200 transition hover:border-cyan-400/60 hover:bg-cyan-400/20"
+        >
+          New Path
+        </button>
+      </form>
+      {cameraPaths.length > 0 && (
+        <ul className="grid gap-2">
+          {cameraPaths.map((path) => (
+            <CameraPathRow key={path.id} path={path} />
+          ))}
+        </ul>
+      )}
+      <label className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        <span>Loop Playback</span>
+        <input
+          type="checkbox"
+          checked={cameraPathLoop}
+          onChange={(event) => setCameraPathLoop(event.target.checked)}
+          className="size-4 accent-cyan-400"
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          disabled={cameraBookmarks.length === 0 && cameraPaths.length === 0}
+          onClick={() =>
+            downloadText(
+              stringifyCameraLibrary({
+                bookmarks: cameraBookmarks,
+                paths: cameraPaths,
+              }),
+              "camera-paths.json",
+              "application/json"
+            )
+          }
+          className="rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500 disabled:opacity-30"
+        >
+          Export JSON
+        </button>
+        <label className="cursor-pointer rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-center text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500">
+          Import JSON
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) void importLibrary(file);
+            }}
+          />
+        </label>
+      </div>
+      {issues.length > 0 && (
+        <ul className="grid gap-1 rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 font-mono text-[10px] text-rose-200">
+          {issues.map((issue, index) => (
+            <li key={index}>
+              {issue.path}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs leading-relaxed text-slate-400">
+        Frame a shot with the orbit controls, then bookmark it or add it to a
+        path. Paths glide through their keys on a spline; dragging the view
+        stops playback.
+      </p>
+    </section>
+  );
+};
@@ -0,0 +1,210 @@
+"use client";
+
+import { useState } from "react";
+import {
+  DEFAULT_FRAME_RATE,
+  DEFAULT_TURNTABLE_SECONDS,
+} from "@/components/watch/sceneCapture";
+import { useWatchStore } from "@/state/useWatchStore";
+
+const sizePresets = [
+  { title: "HD", width: 1920, height: 1080 },
+  { title: "4K", width: 3840, height: 2160 },
+  { title: "Square", width: 2048, height: 2048 },
+  { title: "Portrait", width: 1080, height: 1920 },
+];
+
+const frameRates = [24, 30, 60];
+
+type VideoKind = "turntable" | "tour";
+
+const pixels = (value: string) =>
+  Math.min(16384, Math.max(16, Math.round(Number(value) || 0)));
+
+/** Menu over the scene for saving stills and recording video. */
+export const CaptureMenu = () => {
+  const capture = useWatchStore((state) => state.capture);
+  const captureError = useWatchStore((state) => state.captureError);
+  const tour = useWatchStore((state) => state.tour);
+  const requestCapture = useWatchStore((state) => state.requestCapture);
+  const endCapture = useWatchStore((state) => state.endCapture);
+  const [open, setOpen] = useState(false);
+  const [width, setWidth] = useState(1920);
+  const [height, setHeight] = useState(1080);
+  const [transparent, setTransparent] = useState(false);
+  const [videoKind, setVideoKind] = useState<VideoKind>("turntable");
+  const [seconds, setSeconds] = useState(DEFAULT_TURNTABLE_SECONDS);
+  const [frameRate, setFrameRate] = useState(DEFAULT_FRAME_RATE);
+  const recording = capture !== null && capture.kind !== "still";
+  const activeVideoKind: VideoKind = tour ? videoKind : "turntable";
+
+  return (
+    <div className="absolute right-6 top-6 grid justify-items-end gap-2">
+      <button
+        type="button"
+        onClick={() => (recording ? endCapture() : setOpen(!open))}
+        className={`rounded-full border px-3 py-1 text-[11px] font-medium uppercase tracking-wider backdrop-blur transition ${
+          recording
+            ? "border-rose-400/60 bg-rose-500/20 text-rose-100"
+            : "border-slate-700/60 bg-slate-900/80 text-slate-200 hover:border-slate-500"
+        }`}
+      >
+        {recording ? "● Stop Recording" : "Capture"}
+      </button>
+      {open && !recording && (
+        <div className="grid w-64 gap-3 rounded-2xl border border-slate-700/60 bg-slate-900/90 p-4 text-slate-100 shadow-xl backdrop-blur">
+          <div className="grid grid-cols-4 gap-1">
+            {sizePresets.map((preset) => (
+              <button
+                type="button"
+                key={preset.title}
+                onClick={() => {
+                  setWidth(preset.width);
+                  setHeight(preset.height);
+                }}
+                className={`rounded-full border px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider transition ${
+                  preset.width === width && preset.height === height
+                    ? "border-cyan-400/60 bg-cyan-500/10 text-cyan-100"
+                    : "border-slate-700/60 bg-slate-800/80 text-slate-200 hover:border-slate-500"
+                }`}
+              >
+                {preset.title}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-2 text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+            <span>Size</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={16}
+                step={2}
+                value={width}
+                onChange={(event) => setWidth(pixels(event.target.value))}
+                aria-label="Width in pixels"
+                className="w-16 rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-right text-xs text-slate-100"
+              />
+              ×
+              <input
+                type="number"
+                min={16}
+                step={2}
+                value={height}
+                onChange={(event) => setHeight(pixels(event.target.value))}
+                aria-label="Height in pixels"
+                className="w-16 rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-right text-xs text-slate-100"
+              />
+            </span>
+          </div>
+
+          <div className="grid gap-2 rounded-xl border border-slate-800/70 bg-slate-900/50 px-3 py-2">
+            <label className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+              <span>Transparent Background</span>
+              <input
+                type="checkbox"
+                checked={transparent}
+                onChange={(event) => setTransparent(event.target.checked)}
+                className="size-4 accent-cyan-400"
+              />
+            </label>
+            <button
+              type="button"
+              disabled={capture !== null}
+              onClick={() =>
+                requestCapture({ kind: "still", width, height, transparent })
+              }
+              className="rounded-full border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 text-xs font-semibold text-cyan-200 transition hover:border-cyan-400/60 hover:bg-cyan-400/20 disabled:opacity-30"
+            >
+              Save PNG
+            </button>
+          </div>
+
+          <div className="grid gap-2 rounded-xl border border-slate-800/70 bg-slate-900/50 px-3 py-2">
+            <div className="grid grid-cols-2 gap-1">
+              {(["turntable", "tour"] as const).map((kind) => (
+                <button
+                  type="button"
+                  key={kind}
+                  disabled={kind === "tour" && !tour}
+                  onClick={() => setVideoKind(kind)}
+                  title={
+                    kind === "tour" && !tour
+                      ? "Open a tour to record it"
+                      : undefined
+                  }
+                  className={`rounded-full border px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider transition disabled:opacity-30 ${
+                    activeVideoKind === kind
+                      ? "border-cyan-400/60 bg-cyan-500/10 text-cyan-100"
+                      : "border-slate-700/60 bg-slate-800/80 text-slate-200 hover:border-slate-500"
+                  }`}
+                >
+                  {kind === "tour" ? "Current Tour" : "Turntable"}
+                </button>
+              ))}
+            </div>
+            {activeVideoKind === "turntable" && (
+              <label className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+                <span>Seconds per Turn</span>
+                <input
+                  type="number"
+                  min={2}
+                  step={1}
+                  value={seconds}
+                  onChange={(event) =>
+                    setSeconds(Math.max(2, Number(event.target.value) || 2))
+                  }
+                  className="w-16 rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-right text-xs text-slate-100"
+                />
+              </label>
+            )}
+            <label className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+              <span>Frame Rate</span>
+              <select
+                value={frameRate}
+                onChange={(event) => setFrameRate(Number(event.target.value))}
+                className="rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-xs text-slate-100"
+              >
+                {frameRates.map((rate) => (
+                  <option key={rate} value={rate}>
+                    {rate} fps
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              disabled={capture !== null}
+              onClick={() =>
+                requestCapture({
+                  kind: activeVideoKind,
+                  width,
+                  height,
+                  frameRate,
+                  seconds,
+                })
+              }
+              className="rounded-full border border-rose-500/40 bg-rose-500/10 px-3 py-1 text-xs font-semibold text-rose-200 transition hover:border-rose-400/60 hover:bg-rose-400/20 disabled:opacity-30"
+            >
+              Record WebM
+            </button>
+          </div>
+          <p className="text-[11px] leading-relaxed text-slate-400">
+            Captures are drawn at their own size, without labels or panels.
+            A turntable makes one turn round the view centre; a tour plays
+            from its first step and stops with it.
+          </p>
+        </div>
+      )}
+      {captureError && (
+        <button
+          type="button"
+          onClick={() => endCapture()}
+          title="Dismiss"
+          className="max-w-64 rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-left font-mono text-[10px] text-rose-200 backdrop-blur"
+        >
+          {captureError}
+        </button>
+      )}
+    </div>
+  );
+};
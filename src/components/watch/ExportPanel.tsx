@@ -0,0 +1,181 @@
+"use client";
+
+import { useState } from "react";
+import {
+  calibreLayers,
+  findCalibrePart,
+  toothedPartInfo,
+} from "@/calibre";
+import {
+  formatMillimetres,
+  millimetresPerUnit,
+} from "@/components/watch/measurement";
+import {
+  SceneExportFormat,
+  WatchLayer,
+  useWatchStore,
+} from "@/state/useWatchStore";
+
+const sceneFormats: { id: SceneExportFormat; title: string }[] = [
+  { id: "glb", title: "GLB" },
+  { id: "gltf", title: "glTF" },
+];
+
+const fabricationFormats: { id: SceneExportFormat; title: string }[] = [
+  { id: "stl", title: "STL" },
+  { id: "obj", title: "OBJ" },
+];
+
+/** What to export: everything, one layer, or the selected part. */
+type ExportScope = "all" | "part" | WatchLayer;
+
+export const ExportPanel = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const hiddenLayers = useWatchStore((state) => state.hiddenLayers);
+  const selectedPart = useWatchStore((state) => state.selectedPart);
+  const measureScale = useWatchStore((state) => state.measureScale);
+  const requestSceneExport = useWatchStore(
+    (state) => state.requestSceneExport
+  );
+  const sceneExportError = useWatchStore((state) => state.sceneExportError);
+  const setSceneExportError = useWatchStore(
+    (state) => state.setSceneExportError
+  );
+  const [scope, setScope] = useState<ExportScope>("all");
+  const [scale, setScale] = useState(1);
+  const [merge, setMerge] = useState(false);
+  const part = selectedPart
+    ? findCalibrePart(calibre, selectedPart)
+    : undefined;
+  const shownLayers = calibreLayers(calibre).filter(
+    (layer) => !hiddenLayers[layer.id]
+  );
+  const partShown = !!part && !hiddenLayers[part.layer];
+  // A scope that has since been hidden falls back to the whole movement.
+  const scopeShown =
+    scope === "all" || (scope === "part" ? partShown : !hiddenLayers[scope]);
+  const activeScope: ExportScope = scopeShown ? scope : "all";
+  const printScale = millimetresPerUnit(calibre, measureScale) * scale;
+  const gear =
+    activeScope === "part" && part
+      ? toothedPartInfo(calibre, part.id)
+      : undefined;
+
+  const exportAs = (format: SceneExportFormat) =>
+    requestSceneExport({
+      format,
+      layer:
+        activeScope === "all" || activeScope === "part"
+          ? undefined
+          : activeScope,
+      part: activeScope === "part" ? part?.id : undefined,
+      scale,
+      merge,
+    });
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+        Export Model
+      </h3>
+      <label className="flex items-center justify-between gap-2 text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        <span>Scope</span>
+        <select
+          value={activeScope}
+          onChange={(event) => setScope(event.target.value as ExportScope)}
+          className="min-w-0 rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-xs normal-case tracking-normal text-slate-100"
+        >
+          <option value="all">Whole Movement</option>
+          {shownLayers.map((layer) => (
+            <option key={layer.id} value={layer.id}>
+              {layer.title}
+            </option>
+          ))}
+          <option value="part" disabled={!partShown}>
+            {part ? part.name : "Selected Part"}
+          </option>
+        </select>
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        {sceneFormats.map((format) => (
+          <button
+            type="button"
+            key={format.id}
+            onClick={() => exportAs(format.id)}
+            className="rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500"
+          >
+            {format.title}
+          </button>
+        ))}
+      </div>
+      <div className="grid gap-2 rounded-xl border border-slate-800/70 bg-slate-900/50 px-3 py-2">
+        <div className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+          <span>Print Scale</span>
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0.1}
+              step={0.5}
+              value={scale}
+              onChange={(event) =>
+                setScale(Math.max(0.1, Number(event.target.value) || 1))
+              }
+              className="w-16 rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-right text-xs text-slate-100"
+            />
+            ×
+          </span>
+        </div>
+        {gear && (
+          <div className="flex items-center justify-between text-[11px] uppercase tracking-widest text-slate-500">
+            <span>
+              Module {formatMillimetres(gear.module * printScale)}
+            </span>
+            <span>
+              Pitch ⌀ {formatMillimetres(gear.pitchDiameter * printScale)}
+            </span>
+          </div>
+        )}
+        <label className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+          <span>Merge Into One Mesh</span>
+          <input
+            type="checkbox"
+            checked={merge}
+            onChange={(event) => setMerge(event.target.checked)}
+            className="size-4 accent-cyan-400"
+          />
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          {fabricationFormats.map((format) => (
+            <button
+              type="button"
+              key={format.id}
+              onClick={() => exportAs(format.id)}
+              className="rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500"
+            >
+              {format.title}
+            </button>
+          ))}
+        </div>
+      </div>
+      {sceneExportError && (
+        <button
+          type="button"
+          onClick={() => setSceneExportError(null)}
+          title="Dismiss"
+          className="rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-left font-mono text-[10px] text-rose-200"
+        >
+          {sceneExportError}
+        </button>
+      )}
+      <p className="text-xs leading-relaxed text-slate-400">
+        glTF keeps the layers on show, lifted and spread as they are now, with
+        a node per layer and part and PBR materials for Blender and other
+        tools. STL and OBJ are in millimetres at the measuring scale of{" "}
+        {millimetresPerUnit(calibre, measureScale)} mm per unit times the
+        print scale; STL is turned z-up for slicers. Modules are given in
+        scene units like every other length, so the module of a printed wheel is
+        its module times both. Cross-sections are not applied.
+      </p>
+    </section>
+  );
+};
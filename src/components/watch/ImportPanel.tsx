@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { calibreLayers } from "@/calibre";
+import {
+  importModelFile,
+  suggestLayers,
+} from "@/components/watch/importedModel";
+import { WatchLayer, useWatchStore } from "@/state/useWatchStore";
+
+export const ImportPanel = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const importedModel = useWatchStore((state) => state.importedModel);
+  const importedLayers = useWatchStore((state) => state.importedLayers);
+  const setImportedModel = useWatchStore((state) => state.setImportedModel);
+  const setImportedLayer = useWatchStore((state) => state.setImportedLayer);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const nodeNames = [
+    ...new Set(importedModel?.nodes.map((node) => node.name) ?? []),
+  ];
+
+  const importFile = async (file: File) => {
+    setLoading(true);
+    try {
+      await importModelFile(file);
+      setError(null);
+    } catch (reason) {
+      setError(
+        `${file.name}: ${
+          reason instanceof Error ? reason.message : "could not be read"
+        }`
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+        Import Model
+      </h3>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="cursor-pointer rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-center text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500">
+          {loading ? "Loading…" : "Open GLB"}
+          <input
+            type="file"
+            accept=".glb,.gltf,model/gltf-binary,model/gltf+json"
+            className="hidden"
+            disabled={loading}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) void importFile(file);
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          disabled={!importedModel}
+          onClick={() => setImportedModel(null)}
+          className="rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500 disabled:opacity-30"
+        >
+          Back to Calibre
+        </button>
+      </div>
+      {error && (
+        <p className="rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 font-mono text-[10px] text-rose-200">
+          {error}
+        </p>
+      )}
+      {importedModel && (
+        <div className="grid gap-2 rounded-xl border border-slate-800/70 bg-slate-900/50 px-3 py-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="min-w-0">
+              <span className="block truncate text-xs font-semibold text-slate-100">
+                {importedModel.fileName}
+              </span>
+              <span className="text-[10px] uppercase tracking-widest text-slate-500">
+                {nodeNames.length} Nodes
+              </span>
+            </span>
+            <button
+              type="button"
+              onClick={() =>
+                setImportedModel(
+                  importedModel,
+                  suggestLayers(importedModel, calibre)
+                )
+              }
+              title="Map every node by its name again"
+              className="rounded-full border border-slate-700/60 bg-slate-800/80 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500"
+            >
+              Match Names
+            </button>
+          </div>
+          <ul className="grid max-h-64 gap-1 overflow-y-auto">
+            {nodeNames.map((name) => (
+              <li
+                key={name}
+                className="flex items-center justify-between gap-2 text-[11px] text-slate-300"
+              >
+                <span className="min-w-0 truncate" title={name}>
+                  {name}
+                </span>
+                <select
+                  value={importedLayers[name] ?? ""}
+                  onChange={(event) =>
+                    setImportedLayer(
+                      name,
+                      (event.target.value || null) as WatchLayer | null
+                    )
+                  }
+                  className="w-32 shrink-0 rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-xs text-slate-100"
+                >
+                  <option value="">Fixed</option>
+                  {calibreLayers(calibre).map((layer) => (
+                    <option key={layer.id} value={layer.id}>
+                      {layer.title}
+                    </option>
+                  ))}
+                </select>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <p className="text-xs leading-relaxed text-slate-400">
+        Open or drop a GLB, or a glTF with its data embedded, to show it in
+        place of the calibre. Each top-level node follows the layer it is
+        mapped to, for visibility, opacity, highlighting and explode; nodes
+        named after a layer, such as <code>gear_train_centre</code> or{" "}
+        <code>Balance Assembly</code>, are mapped on import. Fixed nodes stay
+        in place.
+      </p>
+    </section>
+  );
+};
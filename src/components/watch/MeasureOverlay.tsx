@@ -0,0 +1,202 @@
+"use client";
+
+import { RefObject, useMemo, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { Html, Line } from "@react-three/drei";
+import { Line2 } from "three-stdlib";
+import * as THREE from "three";
+import {
+  MeasureAnchor,
+  measurementReadout,
+  millimetresPerUnit,
+} from "@/components/watch/measurement";
+import { MeasurePick, WatchLayer, useWatchStore } from "@/state/useWatchStore";
+
+/**
+ * Dimension lines and labels for the measurement tool. Picks are stored in
+ * their layers' frames, so the graphics are re-placed every frame and ride
+ * along as the layers lift.
+ */
+
+const DIMENSION_COLOR = "#facc15";
+
+type LayerFrames = RefObject<Map<WatchLayer, THREE.Object3D>>;
+
+const scratch = new THREE.Vector3();
+
+/** World position of an anchor, or false until its layer is in the scene. */
+const placeAnchor = (
+  frames: LayerFrames,
+  anchor: MeasureAnchor,
+  target: THREE.Vector3
+) => {
+  const frame = frames.current.get(anchor.layer);
+  if (!frame) return false;
+  frame.localToWorld(target.set(...anchor.point));
+  return true;
+};
+
+const placeLabel = (
+  frames: LayerFrames,
+  anchors: MeasureAnchor[],
+  group: THREE.Object3D
+) => {
+  group.position.set(0, 0, 0);
+  group.visible = anchors.every((anchor) => {
+    if (!placeAnchor(frames, anchor, scratch)) return false;
+    group.position.addScaledVector(scratch, 1 / anchors.length);
+    return true;
+  });
+};
+
+const DimensionLine = ({
+  frames,
+  path,
+}: {
+  frames: LayerFrames;
+  path: MeasureAnchor[];
+}) => {
+  const lineRef = useRef<Line2>(null);
+  const bufferRef = useRef<Float32Array | null>(null);
+  const points = useMemo(() => path.map((anchor) => anchor.point), [path]);
+
+  useFrame(() => {
+    const line = lineRef.current;
+    if (!line) return;
+    if (bufferRef.current?.length !== path.length * 3) {
+      bufferRef.current = new Float32Array(path.length * 3);
+    }
+    const buffer = bufferRef.current;
+    line.visible = path.every((anchor, index) => {
+      if (!placeAnchor(frames, anchor, scratch)) return false;
+      buffer.set([scratch.x, scratch.y, scratch.z], index * 3);
+      return true;
+    });
+    if (line.visible) line.geometry.setPositions(buffer);
+  });
+
+  return (
+    <Line
+      ref={lineRef}
+      points={points}
+      color={DIMENSION_COLOR}
+      lineWidth={1.5}
+      depthTest={false}
+      renderOrder={10}
+      toneMapped={false}
+    />
+  );
+};
+
+const MeasurementGraphic = ({
+  frames,
+  path,
+  label,
+  children,
+}: {
+  frames: LayerFrames;
+  path: MeasureAnchor[];
+  label: MeasureAnchor[];
+  children: React.ReactNode;
+}) => {
+  const labelRef = useRef<THREE.Group>(null);
+  useFrame(() => {
+    if (labelRef.current) placeLabel(frames, label, labelRef.current);
+  });
+  return (
+    <>
+      <DimensionLine frames={frames} path={path} />
+      <group ref={labelRef}>
+        <Html center>{children}</Html>
+      </group>
+    </>
+  );
+};
+
+const PickMarker = ({
+  frames,
+  pick,
+}: {
+  frames: LayerFrames;
+  pick: MeasurePick;
+}) => {
+  const markerRef = useRef<THREE.Mesh>(null);
+  useFrame(() => {
+    if (markerRef.current) placeLabel(frames, [pick], markerRef.current);
+  });
+  return (
+    <mesh ref={markerRef} renderOrder={10} raycast={() => null}>
+      <sphereGeometry args={[0.03, 16, 16]} />
+      <meshBasicMaterial color={DIMENSION_COLOR} depthTest={false} />
+    </mesh>
+  );
+};
+
+export const MeasureOverlay = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const measurements = useWatchStore((state) => state.measurements);
+  const measurePicks = useWatchStore((state) => state.measurePicks);
+  const measureScale = useWatchStore((state) => state.measureScale);
+  const hiddenLayers = useWatchStore((state) => state.hiddenLayers);
+  const removeMeasurement = useWatchStore((state) => state.removeMeasurement);
+  const frames = useRef(new Map<WatchLayer, THREE.Object3D>());
+  const scale = millimetresPerUnit(calibre, measureScale);
+
+  // Ahead of the graphics, find where each layer currently sits.
+  useFrame(({ scene }) => {
+    frames.current.clear();
+    scene.traverse((object) => {
+      const layer = object.userData.layer as WatchLayer | undefined;
+      if (layer && !frames.current.has(layer)) {
+        frames.current.set(layer, object);
+      }
+    });
+  }, -1);
+
+  return (
+    <>
+      {/* Labels are DOM overlays, so hidden layers are left out here. */}
+      {measurements
+        .filter((measurement) =>
+          measurement.picks.every((pick) => !hiddenLayers[pick.layer])
+        )
+        .map((measurement) => {
+          const readout = measurementReadout(calibre, measurement, scale);
+          return (
+            <MeasurementGraphic
+              key={measurement.id}
+              frames={frames}
+              path={readout.path}
+              label={readout.label}
+            >
+              <div className="flex items-center gap-2 whitespace-nowrap rounded-md border border-yellow-300/40 bg-slate-900/85 px-2 py-1 text-xs text-slate-100 backdrop-blur">
+                <span>
+                  <span className="font-mono font-semibold text-yellow-200">
+                    {readout.value}
+                  </span>
+                  {readout.detail && (
+                    <span className="block text-[10px] text-slate-400">
+                      {readout.detail}
+                    </span>
+                  )}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeMeasurement(measurement.id)}
+                  className="text-slate-400 transition hover:text-slate-100"
+                  aria-label={`Remove ${readout.title.toLowerCase()}`}
+                >
+                  ×
+                </button>
+              </div>
+            </MeasurementGraphic>
+          );
+        })}
+      {measurePicks
+        .filter((pick) => !hiddenLayers[pick.layer])
+        .map((pick, index) => (
+          <PickMarker key={index} frames={frames} pick={pick} />
+        ))}
+    </>
+  );
+};
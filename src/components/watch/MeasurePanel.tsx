@@ -0,0 +1,142 @@
+"use client";
+
+import {
+  measurementReadout,
+  millimetresPerUnit,
+} from "@/components/watch/measurement";
+import {
+  MeasureKind,
+  measurePickCount,
+  useWatchStore,
+} from "@/state/useWatchStore";
+
+const measureTools: { id: MeasureKind; title: string; prompt: string }[] = [
+  { id: "distance", title: "Distance", prompt: "Pick two points" },
+  { id: "centres", title: "Centres", prompt: "Pick two arbor-mounted parts" },
+  { id: "pitch", title: "Pitch Ø", prompt: "Pick a wheel or pinion" },
+  {
+    id: "angle",
+    title: "Angle",
+    prompt: "Pick a point, the vertex, then a point",
+  },
+];
+
+export const MeasurePanel = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const measureKind = useWatchStore((state) => state.measureKind);
+  const measurePicks = useWatchStore((state) => state.measurePicks);
+  const measurements = useWatchStore((state) => state.measurements);
+  const measureScale = useWatchStore((state) => state.measureScale);
+  const setMeasureKind = useWatchStore((state) => state.setMeasureKind);
+  const removeMeasurement = useWatchStore((state) => state.removeMeasurement);
+  const clearMeasurements = useWatchStore((state) => state.clearMeasurements);
+  const setMeasureScale = useWatchStore((state) => state.setMeasureScale);
+  const scale = millimetresPerUnit(calibre, measureScale);
+  const tool = measureTools.find((entry) => entry.id === measureKind);
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Measure
+        </h3>
+        <span
+          className={`text-[11px] font-semibold uppercase tracking-widest ${
+            tool ? "text-yellow-200" : "text-slate-500"
+          }`}
+        >
+          {tool
+            ? `${measurePicks.length} / ${measurePickCount[tool.id]} Picked`
+            : "Off"}
+        </span>
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {measureTools.map((entry) => (
+          <button
+            type="button"
+            key={entry.id}
+            onClick={() =>
+              setMeasureKind(measureKind === entry.id ? null : entry.id)
+            }
+            className={`rounded-full border px-2 py-1 text-[11px] font-medium uppercase tracking-wider transition ${
+              measureKind === entry.id
+                ? "border-yellow-300/60 bg-yellow-400/10 text-yellow-100"
+                : "border-slate-700/60 bg-slate-800/80 text-slate-200 hover:border-slate-500"
+            }`}
+          >
+            {entry.title}
+          </button>
+        ))}
+      </div>
+      {tool && (
+        <p className="text-xs text-yellow-100/80">
+          {tool.prompt} in the scene.
+        </p>
+      )}
+      {measurements.length > 0 && (
+        <ul className="grid gap-2">
+          {measurements.map((measurement) => {
+            const readout = measurementReadout(calibre, measurement, scale);
+            return (
+              <li
+                key={measurement.id}
+                className="flex items-center justify-between gap-2 rounded-xl border border-slate-800/70 bg-slate-900/50 px-3 py-2"
+              >
+                <span className="min-w-0">
+                  <span className="block text-[10px] uppercase tracking-widest text-slate-500">
+                    {readout.title}
+                  </span>
+                  <span className="font-mono text-sm font-semibold text-slate-100">
+                    {readout.value}
+                  </span>
+                  {readout.detail && (
+                    <span className="block truncate text-[10px] text-slate-400">
+                      {readout.detail}
+                    </span>
+                  )}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeMeasurement(measurement.id)}
+                  className="rounded-full border border-rose-500/30 bg-rose-500/10 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-rose-200 transition hover:border-rose-400/60"
+                >
+                  Remove
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        <span>mm per Unit</span>
+        <span className="flex items-center gap-2">
+          <input
+            type="number"
+            min={0.01}
+            step={0.05}
+            value={measureScale ?? ""}
+            placeholder={calibre.millimetresPerUnit.toString()}
+            onChange={(event) =>
+              setMeasureScale(
+                event.target.value === "" ? null : Number(event.target.value)
+              )
+            }
+            className="w-20 rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-right text-xs text-slate-100 placeholder:text-slate-500"
+          />
+          <button
+            type="button"
+            disabled={measurements.length === 0 && measurePicks.length === 0}
+            onClick={clearMeasurements}
+            className="text-[10px] uppercase tracking-wider text-slate-400 hover:text-slate-200 disabled:opacity-30"
+          >
+            Clear All
+          </button>
+        </span>
+      </div>
+      <p className="text-xs leading-relaxed text-slate-400">
+        Dimensions are taken on the assembled movement, so lift and spread
+        don&apos;t change them. The scale defaults to the calibre&apos;s own.
+      </p>
+    </section>
+  );
+};
@@ -0,0 +1,115 @@
+"use client";
+
+import {
+  MeshingIssue,
+  checkCalibreMeshing,
+  findCalibrePart,
+} from "@/calibre";
+import { useWatchStore } from "@/state/useWatchStore";
+
+const worstSeverity = (issues: MeshingIssue[]) => {
+  if (issues.some((issue) => issue.severity === "error")) return "error";
+  return issues.length > 0 ? "warning" : "clear";
+};
+
+export const MeshingPanel = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const meshingOverlay = useWatchStore((state) => state.meshingOverlay);
+  const setMeshingOverlay = useWatchStore((state) => state.setMeshingOverlay);
+  const selectPart = useWatchStore((state) => state.selectPart);
+  const report = checkCalibreMeshing(calibre);
+  const errors = report.issues.filter((issue) => issue.severity === "error");
+  const warnings = report.issues.length - errors.length;
+  const status = worstSeverity(report.issues);
+  const partName = (id: string) => findCalibrePart(calibre, id)?.name ?? id;
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Meshing Check
+        </h3>
+        <span
+          className={`text-sm font-semibold ${
+            {
+              error: "text-rose-300",
+              warning: "text-amber-300",
+              clear: "text-emerald-300",
+            }[status]
+          }`}
+        >
+          {status === "clear"
+            ? "All Clear"
+            : `${errors.length} Errors · ${warnings} Warnings`}
+        </span>
+      </div>
+      <ul className="grid gap-1">
+        {report.meshes.map((mesh) => {
+          const worst = worstSeverity(mesh.issues);
+          return (
+            <li
+              key={`${mesh.driver}-${mesh.driven}`}
+              className="flex items-center justify-between gap-2 text-[11px] text-slate-300"
+            >
+              <span className="flex min-w-0 items-center gap-2">
+                <span
+                  className={`size-2 shrink-0 rounded-full ${
+                    {
+                      error: "bg-rose-400",
+                      warning: "bg-amber-400",
+                      clear: "bg-emerald-400",
+                    }[worst]
+                  }`}
+                />
+                <span className="truncate">
+                  {partName(mesh.driver)} → {partName(mesh.driven)}
+                </span>
+              </span>
+              <span
+                className="shrink-0 font-mono text-slate-400"
+                title="Centre distance against the pitch circles"
+              >
+                {mesh.centreDistance.toFixed(2)} /{" "}
+                {mesh.idealDistance.toFixed(2)}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {report.issues.length > 0 && (
+        <ul className="grid max-h-56 gap-1 overflow-y-auto">
+          {report.issues.map((issue, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                onClick={() => selectPart(issue.parts[0])}
+                className={`w-full rounded-xl border px-3 py-2 text-left text-[11px] leading-relaxed transition ${
+                  issue.severity === "error"
+                    ? "border-rose-500/30 bg-rose-500/10 text-rose-200 hover:border-rose-400/60"
+                    : "border-amber-500/30 bg-amber-500/10 text-amber-200 hover:border-amber-400/60"
+                }`}
+              >
+                {issue.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <label className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        <span>Outline Faults in Scene</span>
+        <input
+          type="checkbox"
+          checked={meshingOverlay}
+          onChange={(event) => setMeshingOverlay(event.target.checked)}
+          className="size-4 accent-cyan-400"
+        />
+      </label>
+      <p className="text-xs leading-relaxed text-slate-400">
+        Each declared mesh is checked for a shared module, centre distance
+        against its pitch circles and height overlap. Wheels are also checked
+        against parts they do not mesh with and against bridges and plates,
+        all with the movement assembled.
+      </p>
+    </section>
+  );
+};
@@ -0,0 +1,248 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CalibreDefinition,
+  CalibrePart,
+  DEFAULT_PRESSURE_ANGLE,
+  ToothProfile,
+  calibreLayer,
+  calibreParts,
+  findCalibrePart,
+  partMeshing,
+  solveCalibreTrain,
+  toothedPartInfo,
+} from "@/calibre";
+import { useWatchStore } from "@/state/useWatchStore";
+
+const kindLabels: Record<CalibrePart["kind"], string> = {
+  wheel: "Wheel",
+  pinion: "Pinion",
+  bridge: "Bridge / plate",
+  jewel: "Jewel",
+  hand: "Hand",
+  balance: "Balance",
+  palletFork: "Pallet fork",
+  crown: "Crown",
+};
+
+const materialLabel = (calibre: CalibreDefinition, part: CalibrePart) => {
+  const toothed = toothedPartInfo(calibre, part.id);
+  if (toothed) return toothed.material;
+  switch (part.kind) {
+    case "bridge": {
+      const { material } = calibre.bridges.find(
+        (bridge) => bridge.id === part.id
+      )!;
+      return typeof material === "string"
+        ? material
+        : `custom ${material.color}${material.transmission ? " (glass)" : ""}`;
+    }
+    case "jewel":
+      return "ruby";
+    case "balance":
+      return "brass";
+    default:
+      return "steel";
+  }
+};
+
+const profileLabel = (profile: ToothProfile) => {
+  if (profile.kind === "cycloidal") return "cycloidal";
+  const angle = profile.pressureAngle ?? DEFAULT_PRESSURE_ANGLE;
+  const shift = profile.profileShift ? ` x ${profile.profileShift}` : "";
+  return `involute ${angle}°${shift}`;
+};
+
+/** Arbor the part turns with, if it is carried by the train. */
+const partArbor = (calibre: CalibreDefinition, part: CalibrePart) =>
+  toothedPartInfo(calibre, part.id)?.arbor ??
+  calibre.hands.find((hand) => hand.id === part.id)?.arbor ??
+  calibre.jewels.find((jewel) => jewel.id === part.id)?.arbor;
+
+const formatSpeed = (revolutionsPerHour: number) => {
+  const rpm = Math.abs(revolutionsPerHour) / 60;
+  return rpm >= 1 ? rpm.toFixed(2) : rpm.toPrecision(3);
+};
+
+const PartDetails = ({ part }: { part: CalibrePart }) => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const focusPart = useWatchStore((state) => state.focusPart);
+  const selectPart = useWatchStore((state) => state.selectPart);
+  const layer = calibreLayer(calibre, part.layer)!;
+  const toothed = toothedPartInfo(calibre, part.id);
+  const arbor = partArbor(calibre, part);
+  const speed =
+    arbor !== undefined
+      ? solveCalibreTrain(calibre).arborSpeeds[arbor]
+      : undefined;
+  const meshing = partMeshing(calibre, part.id);
+  // Jewels hold an arbor but do not turn with it.
+  const turns = speed !== undefined && part.kind !== "jewel";
+
+  const rows = [
+    { label: "Type", value: kindLabels[part.kind] },
+    { label: "Material", value: materialLabel(calibre, part) },
+    ...(toothed
+      ? [
+          {
+            label: part.kind === "pinion" ? "Leaves" : "Teeth",
+            value: `${toothed.count}`,
+          },
+          { label: "Module", value: toothed.module.toFixed(3) },
+          {
+            label: "Pitch Ø",
+            value: toothed.pitchDiameter.toFixed(2),
+          },
+          { label: "Thickness", value: toothed.thickness.toFixed(2) },
+          { label: "Profile", value: profileLabel(toothed.profile) },
+        ]
+      : []),
+    ...(turns
+      ? [
+          {
+            label: "Speed",
+            value: `${formatSpeed(speed)} rpm ${speed >= 0 ? "↻" : "↺"}`,
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <div className="grid gap-3 rounded-xl border border-orange-400/30 bg-slate-900/50 p-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h4 className="text-sm font-semibold text-slate-100">{part.name}</h4>
+          <p className="mt-1 flex items-center gap-2 text-xs text-slate-400">
+            <span
+              className="size-2 rounded-full"
+              style={{ backgroundColor: layer.color }}
+            />
+            {layer.title}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => focusPart(part.id)}
+            className="rounded-full border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 text-[11px] font-semibold text-cyan-200 transition hover:border-cyan-400/60 hover:bg-cyan-400/20"
+          >
+            Frame
+          </button>
+          <button
+            type="button"
+            onClick={() => selectPart(null)}
+            className="rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-[11px] font-medium text-slate-100 transition hover:border-slate-500 hover:bg-slate-700/70"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        {rows.map((row) => (
+          <div key={row.label} className="contents">
+            <dt className="text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+              {row.label}
+            </dt>
+            <dd className="text-right font-mono text-slate-100">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+      {meshing.length > 0 && (
+        <div>
+          <p className="text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+            Meshes With
+          </p>
+          <ul className="mt-1 grid gap-1">
+            {meshing.map(({ part: partner, role }) => (
+              <li key={`${role}-${partner.id}`}>
+                <button
+                  type="button"
+                  onClick={() => selectPart(partner.id)}
+                  className="text-xs text-cyan-200 underline-offset-2 hover:underline"
+                >
+                  <span className="text-slate-400">{role}</span>{" "}
+                  {partner.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <p className="text-xs leading-relaxed text-slate-400">
+        {layer.description}
+      </p>
+    </div>
+  );
+};
+
+export const PartInspectorPanel = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const selectedPart = useWatchStore((state) => state.selectedPart);
+  const selectPart = useWatchStore((state) => state.selectPart);
+  const setHoveredPart = useWatchStore((state) => state.setHoveredPart);
+  const hiddenLayers = useWatchStore((state) => state.hiddenLayers);
+  const [query, setQuery] = useState("");
+  const selected = selectedPart
+    ? findCalibrePart(calibre, selectedPart)
+    : undefined;
+
+  const needle = query.trim().toLowerCase();
+  const parts = calibreParts(calibre).filter(
+    (part) =>
+      needle.length === 0 ||
+      part.name.toLowerCase().includes(needle) ||
+      part.id.toLowerCase().includes(needle) ||
+      kindLabels[part.kind].toLowerCase().includes(needle)
+  );
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Part Inspector
+        </h3>
+        <span className="text-[11px] uppercase tracking-widest text-slate-500">
+          {parts.length} parts
+        </span>
+      </div>
+      <input
+        type="search"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder="Search wheels, jewels, bridges…"
+        className="rounded-xl border border-slate-700/60 bg-slate-900/80 px-3 py-2 text-xs text-slate-100 placeholder:text-slate-500"
+      />
+      <ul className="grid max-h-48 gap-1 overflow-y-auto pr-1">
+        {parts.map((part) => (
+          <li key={part.id}>
+            <button
+              type="button"
+              onClick={() => selectPart(part.id)}
+              onMouseEnter={() => setHoveredPart(part.id)}
+              onMouseLeave={() => setHoveredPart(null)}
+              className={`flex w-full items-center justify-between rounded-lg px-2 py-1 text-left text-xs transition ${
+                part.id === selectedPart
+                  ? "bg-orange-500/10 text-orange-100"
+                  : "text-slate-300 hover:bg-slate-800/70"
+              } ${hiddenLayers[part.layer] ? "opacity-50" : ""}`}
+            >
+              <span>{part.name}</span>
+              <span className="text-[10px] uppercase tracking-widest text-slate-500">
+                {kindLabels[part.kind]}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      {selected ? (
+        <PartDetails part={selected} />
+      ) : (
+        <p className="text-xs leading-relaxed text-slate-400">
+          Pick a part from the list or click it in the scene; double-click
+          frames it.
+        </p>
+      )}
+    </section>
+  );
+};
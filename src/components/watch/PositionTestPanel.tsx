@@ -0,0 +1,136 @@
+"use client";
+
+import { downloadText } from "@/components/watch/download";
+import { balanceAmplitude } from "@/simulation/mainspring";
+import {
+  SixPositionResults,
+  sixPositionResults,
+  watchPositions,
+} from "@/simulation/positions";
+import { useWatchStore } from "@/state/useWatchStore";
+
+const formatRate = (rate: number) =>
+  `${rate >= 0 ? "+" : "−"}${Math.abs(rate).toFixed(1)}`;
+
+const resultsToCsv = (results: SixPositionResults) =>
+  [
+    "position,abbreviation,amplitude_deg,rate_s_per_day",
+    ...results.rows.map((row) =>
+      [
+        row.position.title,
+        row.position.abbreviation,
+        row.amplitude.toFixed(1),
+        row.rate.toFixed(2),
+      ].join(",")
+    ),
+    `Mean,,,${results.meanRate.toFixed(2)}`,
+    `Delta,,,${results.delta.toFixed(2)}`,
+    `Flat - vertical,,,${results.flatToVertical.toFixed(2)}`,
+  ].join("\n");
+
+export const PositionTestPanel = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const regulation = useWatchStore((state) => state.regulation);
+  const windFraction = useWatchStore((state) => state.windFraction);
+  const watchPosition = useWatchStore((state) => state.watchPosition);
+  const setWatchPosition = useWatchStore((state) => state.setWatchPosition);
+  const results = sixPositionResults(
+    calibre,
+    regulation,
+    balanceAmplitude(calibre, windFraction)
+  );
+  const running = windFraction > 0;
+
+  const summary = [
+    { label: "Mean", value: `${formatRate(results.meanRate)} s/d` },
+    { label: "Delta", value: `${results.delta.toFixed(1)} s/d` },
+    { label: "Flat − Vert", value: `${formatRate(results.flatToVertical)} s/d` },
+  ];
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Six-Position Test
+        </h3>
+        <button
+          type="button"
+          disabled={!running}
+          onClick={() =>
+            downloadText(
+              resultsToCsv(results),
+              `${calibre.id}-six-position.csv`,
+              "text/csv"
+            )
+          }
+          className="rounded-full border border-slate-700/60 bg-slate-800/70 px-3 py-1 text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500 hover:bg-slate-700/80 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Export CSV
+        </button>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {watchPositions.map((position) => (
+          <button
+            type="button"
+            key={position.id}
+            onClick={() => setWatchPosition(position.id)}
+            className={`rounded-2xl border px-3 py-2 text-xs font-semibold tracking-wide transition ${
+              watchPosition === position.id
+                ? "border-cyan-400/60 bg-cyan-500/10 text-cyan-100 shadow-lg shadow-cyan-500/10"
+                : "border-slate-800/70 bg-slate-900/60 text-slate-300 hover:border-slate-700/70 hover:bg-slate-800/60"
+            }`}
+          >
+            {position.title}
+          </button>
+        ))}
+      </div>
+      <table className="w-full text-left text-xs">
+        <thead className="text-[11px] uppercase tracking-widest text-slate-400">
+          <tr>
+            <th className="py-1 font-semibold">Position</th>
+            <th className="py-1 text-right font-semibold">Amplitude</th>
+            <th className="py-1 text-right font-semibold">Rate s/d</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono text-slate-200">
+          {results.rows.map((row) => (
+            <tr
+              key={row.position.id}
+              className={`border-t border-slate-800/70 ${
+                row.position.id === watchPosition ? "text-cyan-200" : ""
+              }`}
+            >
+              <td className="py-1">{row.position.abbreviation}</td>
+              <td className="py-1 text-right">
+                {running ? `${Math.round(row.amplitude)}°` : "—"}
+              </td>
+              <td className="py-1 text-right">
+                {running ? formatRate(row.rate) : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <dl className="grid grid-cols-3 gap-2">
+        {summary.map((item) => (
+          <div
+            key={item.label}
+            className="rounded-xl border border-slate-800/70 bg-slate-900/50 p-2"
+          >
+            <dt className="text-[10px] font-semibold uppercase tracking-widest text-slate-400">
+              {item.label}
+            </dt>
+            <dd className="font-mono text-sm font-semibold text-slate-100">
+              {running ? item.value : "—"}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      <p className="text-xs leading-relaxed text-slate-400">
+        Rates come from the regulation, the balance&apos;s poise and the
+        hairspring&apos;s isochronism at the present state of wind. Turning
+        the movement puts the timing machine in that position.
+      </p>
+    </section>
+  );
+};
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { SavedView, useWatchStore } from "@/state/useWatchStore";
+
+const SavedViewRow = ({ view }: { view: SavedView }) => {
+  const restoreView = useWatchStore((state) => state.restoreView);
+  const renameView = useWatchStore((state) => state.renameView);
+  const deleteView = useWatchStore((state) => state.deleteView);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commitRename = () => {
+    if (draft !== null) renameView(view.id, draft);
+    setDraft(null);
+  };
+
+  return (
+    <li className="flex items-center justify-between gap-2 rounded-xl border border-slate-800/70 bg-slate-900/50 px-3 py-2">
+      {draft === null ? (
+        <button
+          type="button"
+          onClick={() => restoreView(view.id)}
+          className="min-w-0 flex-1 text-left"
+          title="Restore this view"
+        >
+          <span className="block truncate text-xs font-semibold text-slate-100">
+            {view.name}
+          </span>
+          <span className="text-[10px] uppercase tracking-widest text-slate-500">
+            {new Date(view.savedAt).toLocaleString()}
+          </span>
+        </button>
+      ) : (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") commitRename();
+            if (event.key === "Escape") setDraft(null);
+          }}
+          className="min-w-0 flex-1 rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-xs text-slate-100"
+        />
+      )}
+      <div className="flex gap-1">
+        <button
+          type="button"
+          onClick={() => setDraft(view.name)}
+          className="rounded-full border border-slate-700/60 bg-slate-800/80 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500"
+        >
+          Rename
+        </button>
+        <button
+          type="button"
+          onClick={() => deleteView(view.id)}
+          className="rounded-full border border-rose-500/30 bg-rose-500/10 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-rose-200 transition hover:border-rose-400/60"
+        >
+          Delete
+        </button>
+      </div>
+    </li>
+  );
+};
+
+export const SavedViewsPanel = () => {
+  const savedViews = useWatchStore((state) => state.savedViews);
+  const saveView = useWatchStore((state) => state.saveView);
+  const [name, setName] = useState("");
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+        Saved Views
+      </h3>
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          saveView(name);
+          setName("");
+        }}
+      >
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Name this view"
+          className="min-w-0 flex-1 rounded-xl border border-slate-700/60 bg-slate-900/80 px-3 py-2 text-xs text-slate-100 placeholder:text-slate-500"
+        />
+        <button
+          type="submit"
+          className="rounded-full border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 text-xs font-semibold text-cyan-200 transition hover:border-cyan-400/60 hover:bg-cyan-400/20"
+        >
+          Save
+        </button>
+      </form>
+      {savedViews.length > 0 ? (
+        <ul className="grid gap-2">
+          {savedViews.map((view) => (
+            <SavedViewRow key={view.id} view={view} />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs leading-relaxed text-slate-400">
+          Saved views capture layers, opacity, lift and the camera. The last
+          session is restored automatically.
+        </p>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,198 @@
+"use client";
+
+import { calibreLayers } from "@/calibre";
+import {
+  MAX_SECTION_PLANES,
+  SECTION_RANGE,
+  SectionAxis,
+  SectionPlane,
+  useWatchStore,
+} from "@/state/useWatchStore";
+
+const sectionAxes: { id: SectionAxis; title: string }[] = [
+  { id: "x", title: "X" },
+  { id: "y", title: "Y" },
+  { id: "z", title: "Z" },
+  { id: "free", title: "Free" },
+];
+
+const SectionPlaneRow = ({
+  plane,
+  index,
+}: {
+  plane: SectionPlane;
+  index: number;
+}) => {
+  const updateSectionPlane = useWatchStore(
+    (state) => state.updateSectionPlane
+  );
+  const flipSectionPlane = useWatchStore((state) => state.flipSectionPlane);
+  const removeSectionPlane = useWatchStore(
+    (state) => state.removeSectionPlane
+  );
+
+  return (
+    <li className="grid gap-2 rounded-xl border border-slate-800/70 bg-slate-900/50 px-3 py-2">
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-xs font-semibold text-slate-100">
+          <input
+            type="checkbox"
+            checked={plane.enabled}
+            onChange={(event) =>
+              updateSectionPlane(plane.id, { enabled: event.target.checked })
+            }
+            className="size-4 accent-rose-400"
+          />
+          Plane {index + 1}
+        </label>
+        <select
+          value={plane.axis}
+          onChange={(event) =>
+            updateSectionPlane(plane.id, {
+              axis: event.target.value as SectionAxis,
+            })
+          }
+          className="rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-xs text-slate-100"
+        >
+          {sectionAxes.map((axis) => (
+            <option key={axis.id} value={axis.id}>
+              {axis.title}
+            </option>
+          ))}
+        </select>
+      </div>
+      <label className="grid gap-2 text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        <span className="flex items-center justify-between">
+          <span>Offset</span>
+          <span>{plane.offset.toFixed(2)}</span>
+        </span>
+        <input
+          type="range"
+          min={-SECTION_RANGE}
+          max={SECTION_RANGE}
+          step={0.01}
+          value={plane.offset}
+          onChange={(event) =>
+            updateSectionPlane(plane.id, {
+              offset: Number(event.target.value),
+            })
+          }
+          className="h-1 w-full cursor-pointer appearance-none rounded-full bg-slate-800 accent-rose-400"
+        />
+      </label>
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono text-[10px] text-slate-500">
+          n = (
+          {plane.normal.map((component) => component.toFixed(2)).join(", ")})
+        </span>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={() => flipSectionPlane(plane.id)}
+            className="rounded-full border border-slate-700/60 bg-slate-800/80 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500"
+          >
+            Flip
+          </button>
+          <button
+            type="button"
+            onClick={() => removeSectionPlane(plane.id)}
+            className="rounded-full border border-rose-500/30 bg-rose-500/10 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-rose-200 transition hover:border-rose-400/60"
+          >
+            Remove
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+export const SectionPanel = () => {
+  const layers = useWatchStore((state) => calibreLayers(state.calibre));
+  const sectionPlanes = useWatchStore((state) => state.sectionPlanes);
+  const sectionLayers = useWatchStore((state) => state.sectionLayers);
+  const sectionGizmos = useWatchStore((state) => state.sectionGizmos);
+  const addSectionPlane = useWatchStore((state) => state.addSectionPlane);
+  const setSectionLayer = useWatchStore((state) => state.setSectionLayer);
+  const setSectionGizmos = useWatchStore((state) => state.setSectionGizmos);
+  const full = sectionPlanes.length >= MAX_SECTION_PLANES;
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Cross Section
+        </h3>
+        <span
+          className={`text-sm font-semibold ${
+            sectionPlanes.some((plane) => plane.enabled)
+              ? "text-rose-200"
+              : "text-slate-400"
+          }`}
+        >
+          {sectionPlanes.filter((plane) => plane.enabled).length} /{" "}
+          {MAX_SECTION_PLANES}
+        </span>
+      </div>
+      <div className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        <span>Add Plane</span>
+        <div className="flex gap-2">
+          {sectionAxes.map((axis) => (
+            <button
+              type="button"
+              key={axis.id}
+              disabled={full}
+              onClick={() => addSectionPlane(axis.id)}
+              className="rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-rose-400/60 disabled:opacity-30"
+            >
+              {axis.title}
+            </button>
+          ))}
+        </div>
+      </div>
+      {sectionPlanes.length > 0 && (
+        <ul className="grid gap-2">
+          {sectionPlanes.map((plane, index) => (
+            <SectionPlaneRow key={plane.id} plane={plane} index={index} />
+          ))}
+        </ul>
+      )}
+      <label className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        <span>Drag Handles</span>
+        <input
+          type="checkbox"
+          checked={sectionGizmos}
+          onChange={(event) => setSectionGizmos(event.target.checked)}
+          className="size-4 accent-rose-400"
+        />
+      </label>
+      <details className="text-[11px] text-slate-400">
+        <summary className="cursor-pointer font-semibold uppercase tracking-widest">
+          Cut Layers
+        </summary>
+        <div className="mt-2 grid gap-2">
+          {layers.map((layer) => (
+            <label
+              key={layer.id}
+              className="flex items-center justify-between gap-2"
+            >
+              <span className="truncate">{layer.title}</span>
+              <input
+                type="checkbox"
+                checked={sectionLayers[layer.id]}
+                onChange={(event) =>
+                  setSectionLayer(layer.id, event.target.checked)
+                }
+                className="size-4 accent-rose-400"
+              />
+            </label>
+          ))}
+        </div>
+      </details>
+      <p className="text-xs leading-relaxed text-slate-400">
+        Cut faces are hatched. Cut only the case and plates to see each
+        arbor run down into the main plate; cut the gear train as well to
+        open up the train bridge.
+      </p>
+    </section>
+  );
+};
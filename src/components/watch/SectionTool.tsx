@@ -0,0 +1,306 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useFrame } from "@react-three/fiber";
+import { Line, PivotControls } from "@react-three/drei";
+import * as THREE from "three";
+import {
+  dragSectionPlane,
+  placeSectionGizmo,
+  sectionClipping,
+  sectionGizmoMatrix,
+  syncSectionPlanes,
+} from "@/components/watch/sectionPlanes";
+import { SectionPlane, WatchLayer, useWatchStore } from "@/state/useWatchStore";
+
+/**
+ * Section tool: clipping planes through the layers being sectioned, with the
+ * cut faces filled in. Caps use the stencil technique from the three.js
+ * clipping examples — every cut solid draws its back faces as +1 and front
+ * faces as -1 behind the plane, which leaves a non-zero stencil exactly where
+ * the plane passes through material.
+ */
+
+const HATCH_COLOR = "#fb7185";
+const HATCH_BACKGROUND = "#4c0519";
+/** Scene units covered by one hatch tile. */
+const HATCH_TILE = 0.16;
+/** Width of the cap quads; anything wider than the movement will do. */
+const CAP_SIZE = 40;
+/** Width of the translucent square that shows where a plane sits. */
+const PLANE_MARKER_SIZE = 6;
+
+const createHatchTexture = () => {
+  const size = 64;
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext("2d")!;
+  context.fillStyle = HATCH_BACKGROUND;
+  context.fillRect(0, 0, size, size);
+  context.strokeStyle = HATCH_COLOR;
+  context.lineWidth = 12;
+  // Neighbouring copies of the diagonal close the seams when tiled.
+  [-size, 0, size].forEach((shift) => {
+    context.beginPath();
+    context.moveTo(shift, size);
+    context.lineTo(shift + size, 0);
+    context.stroke();
+  });
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.repeat.setScalar(CAP_SIZE / HATCH_TILE);
+  return texture;
+};
+
+const stencilMaterial = (side: THREE.Side, operation: THREE.StencilOp) =>
+  new THREE.MeshBasicMaterial({
+    side,
+    colorWrite: false,
+    depthWrite: false,
+    depthTest: false,
+    stencilWrite: true,
+    stencilFunc: THREE.AlwaysStencilFunc,
+    stencilFail: operation,
+    stencilZFail: operation,
+    stencilZPass: operation,
+  });
+
+/** Back- and front-face stencil passes for each live plane. */
+const stencilPasses = new WeakMap<
+  THREE.Plane,
+  { back: THREE.MeshBasicMaterial; front: THREE.MeshBasicMaterial }
+>();
+
+const stencilPassesFor = (plane: THREE.Plane) => {
+  let passes = stencilPasses.get(plane);
+  if (!passes) {
+    passes = {
+      back: stencilMaterial(THREE.BackSide, THREE.IncrementWrapStencilOp),
+      front: stencilMaterial(THREE.FrontSide, THREE.DecrementWrapStencilOp),
+    };
+    passes.back.clippingPlanes = [plane];
+    passes.front.clippingPlanes = [plane];
+    stencilPasses.set(plane, passes);
+  }
+  return passes;
+};
+
+const skipRaycast = () => {};
+
+/** Stencil copies of `mesh`, one pair per plane, riding along as a child. */
+const createStencilGroup = (mesh: THREE.Mesh, planes: THREE.Plane[]) => {
+  const group = new THREE.Group();
+  group.userData = { sectionHelper: true, planes };
+  planes.forEach((plane, index) => {
+    const passes = stencilPassesFor(plane);
+    [passes.back, passes.front].forEach((material) => {
+      const copy = new THREE.Mesh(mesh.geometry, material);
+      copy.renderOrder = index + 1;
+      copy.raycast = skipRaycast;
+      group.add(copy);
+    });
+  });
+  return group;
+};
+
+const clipMaterial = (
+  material: THREE.Material,
+  planes: THREE.Plane[] | null
+) => {
+  if (material.clippingPlanes === planes) return;
+  material.clippingPlanes = planes;
+  // Shader materials only honour clipping planes when asked to.
+  if (material instanceof THREE.ShaderMaterial) material.clipping = !!planes;
+};
+
+const updateStencilGroup = (mesh: THREE.Mesh, planes: THREE.Plane[] | null) => {
+  const existing = mesh.children.find((child) => child.userData.sectionHelper);
+  if (existing && existing.userData.planes === planes) {
+    existing.children.forEach((copy) => {
+      (copy as THREE.Mesh).geometry = mesh.geometry;
+    });
+    return;
+  }
+  if (existing) mesh.remove(existing);
+  if (planes) mesh.add(createStencilGroup(mesh, planes));
+};
+
+/**
+ * Hands the live planes to every material in a sectioned layer and keeps the
+ * stencil copies of its solids up to date. Parts mount and unmount as layers
+ * and selections change, so this runs every frame rather than on store
+ * changes.
+ */
+const SectionClipper = () => {
+  const sectionLayers = useWatchStore((state) => state.sectionLayers);
+
+  useFrame(({ scene }) => {
+    const planes =
+      sectionClipping.planes.length > 0 ? sectionClipping.planes : null;
+    const solids: [THREE.Mesh, THREE.Plane[] | null][] = [];
+    const visit = (object: THREE.Object3D, layer?: WatchLayer) => {
+      if (object.userData.sectionHelper) return;
+      const ownLayer: WatchLayer | undefined = object.userData.layer ?? layer;
+      if (ownLayer && object instanceof THREE.Mesh) {
+        const cut = sectionLayers[ownLayer] ? planes : null;
+        const materials: THREE.Material[] = Array.isArray(object.material)
+          ? object.material
+          : [object.material];
+        materials.forEach((material) => clipMaterial(material, cut));
+        // Only closed, lit solids are capped; lines and outlines are not.
+        if (materials[0] instanceof THREE.MeshStandardMaterial) {
+          solids.push([object, cut]);
+        }
+      }
+      object.children.forEach((child) => visit(child, ownLayer));
+    };
+    visit(scene);
+    solids.forEach(([mesh, cut]) => updateStencilGroup(mesh, cut));
+  });
+
+  return null;
+};
+
+const FORWARD = new THREE.Vector3(0, 0, 1);
+
+/** Hatched fill drawn wherever plane `index` passes through a cut solid. */
+const SectionCap = ({
+  index,
+  texture,
+}: {
+  index: number;
+  texture: THREE.Texture;
+}) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    const plane = sectionClipping.planes[index];
+    if (!mesh) return;
+    mesh.visible = !!plane;
+    if (!plane) return;
+    plane.coplanarPoint(mesh.position);
+    mesh.quaternion.setFromUnitVectors(FORWARD, plane.normal);
+    // A cap is trimmed by the other planes so crossing cuts stay open.
+    const material = mesh.material as THREE.MeshBasicMaterial;
+    if (material.userData.planes !== sectionClipping.planes) {
+      material.userData.planes = sectionClipping.planes;
+      material.clippingPlanes = sectionClipping.planes.filter(
+        (other) => other !== plane
+      );
+    }
+  });
+
+  return (
+    <mesh
+      ref={meshRef}
+      renderOrder={index + 1.1}
+      raycast={skipRaycast}
+      onAfterRender={(renderer) => renderer.clearStencil()}
+    >
+      <planeGeometry args={[CAP_SIZE, CAP_SIZE]} />
+      <meshBasicMaterial
+        map={texture}
+        side={THREE.DoubleSide}
+        stencilWrite
+        stencilRef={0}
+        stencilFunc={THREE.NotEqualStencilFunc}
+        stencilFail={THREE.ReplaceStencilOp}
+        stencilZFail={THREE.ReplaceStencilOp}
+        stencilZPass={THREE.ReplaceStencilOp}
+      />
+    </mesh>
+  );
+};
+
+const markerHalf = PLANE_MARKER_SIZE / 2;
+const markerOutline: [number, number, number][] = [
+  [-markerHalf, -markerHalf, 0],
+  [markerHalf, -markerHalf, 0],
+  [markerHalf, markerHalf, 0],
+  [-markerHalf, markerHalf, 0],
+  [-markerHalf, -markerHalf, 0],
+];
+
+/**
+ * Drag handle for a plane. Axis planes only slide along their normal; free
+ * planes can also be turned.
+ */
+const SectionGizmo = ({ plane }: { plane: SectionPlane }) => {
+  const updateSectionPlane = useWatchStore(
+    (state) => state.updateSectionPlane
+  );
+  const free = plane.axis === "free";
+
+  useEffect(() => {
+    placeSectionGizmo(plane);
+  }, [plane]);
+
+  return (
+    <PivotControls
+      matrix={sectionGizmoMatrix(plane.id)}
+      fixed
+      scale={72}
+      depthTest={false}
+      activeAxes={free ? [true, true, true] : [false, false, true]}
+      disableSliders
+      disableScaling
+      disableRotations={!free}
+      onDrag={(local) => dragSectionPlane(plane.id, local)}
+      onDragEnd={() => {
+        const live = sectionClipping.byId.get(plane.id);
+        if (!live) return;
+        updateSectionPlane(plane.id, {
+          normal: live.normal.toArray(),
+          offset: -live.constant,
+        });
+      }}
+    >
+      <mesh raycast={skipRaycast}>
+        <planeGeometry args={[PLANE_MARKER_SIZE, PLANE_MARKER_SIZE]} />
+        <meshBasicMaterial
+          color={HATCH_COLOR}
+          transparent
+          opacity={0.08}
+          side={THREE.DoubleSide}
+          depthWrite={false}
+        />
+      </mesh>
+      <Line
+        points={markerOutline}
+        color={HATCH_COLOR}
+        lineWidth={1}
+        transparent
+        opacity={0.6}
+        raycast={skipRaycast}
+      />
+    </PivotControls>
+  );
+};
+
+export const SectionTool = () => {
+  const sectionPlanes = useWatchStore((state) => state.sectionPlanes);
+  const sectionGizmos = useWatchStore((state) => state.sectionGizmos);
+  const [texture] = useState(createHatchTexture);
+  const enabled = sectionPlanes.filter((plane) => plane.enabled);
+
+  useEffect(() => {
+    syncSectionPlanes(sectionPlanes);
+  }, [sectionPlanes]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  return (
+    <>
+      <SectionClipper />
+      {enabled.map((plane, index) => (
+        <SectionCap key={plane.id} index={index} texture={texture} />
+      ))}
+      {sectionGizmos &&
+        enabled.map((plane) => <SectionGizmo key={plane.id} plane={plane} />)}
+    </>
+  );
+};
@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { movementClock } from "@/simulation/movement";
+import { TimegrapherReading, analyseBeats } from "@/simulation/timegrapher";
+import { useWatchStore } from "@/state/useWatchStore";
+
+/** Simulated seconds of beats the machine integrates over. */
+const MEASUREMENT_WINDOW = 10;
+const REFRESH_INTERVAL_MS = 200;
+
+const PLOT_WIDTH = 320;
+const PLOT_HEIGHT = 120;
+
+const useTimegrapherReading = (beatsPerHour: number, liftAngle: number) => {
+  const [reading, setReading] = useState<TimegrapherReading | null>(null);
+
+  useEffect(() => {
+    const id = window.setInterval(() => {
+      const { beats } = movementClock;
+      const latest = beats[beats.length - 1];
+      const recent = latest
+        ? beats.filter((beat) => beat.time >= latest.time - MEASUREMENT_WINDOW)
+        : [];
+      setReading(analyseBeats(recent, beatsPerHour, liftAngle));
+    }, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, [beatsPerHour, liftAngle]);
+
+  return reading;
+};
+
+const TracePlot = ({ reading }: { reading: TimegrapherReading | null }) => {
+  const points = reading?.trace ?? [];
+  const duration = Math.max(
+    MEASUREMENT_WINDOW,
+    points[points.length - 1]?.time ?? 0
+  );
+  const centre =
+    points.length > 0
+      ? points.reduce((sum, point) => sum + point.deviation, 0) / points.length
+      : 0;
+  const span = Math.max(
+    2,
+    ...points.map((point) => Math.abs(point.deviation - centre) * 1.25)
+  );
+  const toX = (time: number) => (time / duration) * PLOT_WIDTH;
+  const toY = (deviation: number) =>
+    PLOT_HEIGHT / 2 - ((deviation - centre) / span) * (PLOT_HEIGHT / 2);
+
+  return (
+    <svg
+      viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`}
+      className="h-32 w-full rounded-xl border border-slate-800/70 bg-slate-950/80"
+      role="img"
+      aria-label="Simulated beat trace"
+    >
+      {[0.25, 0.5, 0.75].map((fraction) => (
+        <line
+          key={fraction}
+          x1={0}
+          x2={PLOT_WIDTH}
+          y1={PLOT_HEIGHT * fraction}
+          y2={PLOT_HEIGHT * fraction}
+          stroke="#1e293b"
+          strokeWidth={fraction === 0.5 ? 1 : 0.5}
+        />
+      ))}
+      {points.map((point, index) => (
+        <circle
+          key={index}
+          cx={toX(point.time)}
+          cy={toY(point.deviation)}
+          r={1.4}
+          fill={point.tick ? "#22d3ee" : "#fb923c"}
+        />
+      ))}
+      <text x={6} y={12} fill="#64748b" fontSize={8}>
+        ±{span.toFixed(1)} ms
+      </text>
+    </svg>
+  );
+};
+
+export const TimegrapherPanel = () => {
+  const calibreId = useWatchStore((state) => state.calibre.id);
+  const escapement = useWatchStore((state) => state.calibre.escapement);
+  const running = useWatchStore((state) => state.windFraction > 0);
+  // The dialled-in lift angle only holds for the calibre it was set on;
+  // loading another calibre goes back to that calibre's own lift angle.
+  const [override, setOverride] = useState<{
+    calibreId: string;
+    liftAngle: number;
+  } | null>(null);
+  const liftAngle =
+    override?.calibreId === calibreId
+      ? override.liftAngle
+      : escapement.liftAngle;
+  const reading = useTimegrapherReading(escapement.beatsPerHour, liftAngle);
+  const signal = running ? reading : null;
+
+  const readouts = [
+    {
+      label: "Rate",
+      value: signal
+        ? `${signal.rate >= 0 ? "+" : ""}${signal.rate.toFixed(1)} s/d`
+        : "—",
+    },
+    {
+      label: "Amplitude",
+      value: signal ? `${Math.round(signal.amplitude)}°` : "—",
+    },
+    {
+      label: "Beat Error",
+      value: signal ? `${signal.beatError.toFixed(1)} ms` : "—",
+    },
+    {
+      label: "Beat Rate",
+      value: `${escapement.beatsPerHour.toLocaleString("en-US")}`,
+    },
+  ];
+
+  return (
+    <section className="rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Timing Machine
+        </h2>
+        <span
+          className={`text-[11px] font-semibold uppercase tracking-widest ${
+            signal ? "text-cyan-200" : "text-slate-500"
+          }`}
+        >
+          {signal ? "Measuring" : "No Signal"}
+        </span>
+      </div>
+      <div className="mt-3">
+        <TracePlot reading={signal} />
+      </div>
+      <dl className="mt-3 grid grid-cols-2 gap-2">
+        {readouts.map((readout) => (
+          <div
+            key={readout.label}
+            className="rounded-xl border border-slate-800/70 bg-slate-900/50 p-3"
+          >
+            <dt className="text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+              {readout.label}
+            </dt>
+            <dd className="font-mono text-lg font-semibold text-slate-100">
+              {readout.value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      <label className="mt-3 flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        <span>Lift Angle</span>
+        <span className="flex items-center gap-2">
+          <input
+            type="number"
+            min={30}
+            max={70}
+            step={1}
+            value={liftAngle}
+            onChange={(event) => {
+              const value = Number(event.target.value);
+              if (value > 0) setOverride({ calibreId, liftAngle: value });
+            }}
+            className="w-16 rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-right text-xs text-slate-100"
+          />
+          °
+        </span>
+      </label>
+      <p className="mt-2 text-xs leading-relaxed text-slate-400">
+        Ticks in cyan, tocks in orange. A sloping trace shows rate; the gap
+        between the two lines is beat error. Amplitude is inferred from the
+        lift angle set here, so a wrong setting misreads it.
+      </p>
+    </section>
+  );
+};
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { startTour, stopTour } from "@/state/tourPlayback";
+import { useWatchStore } from "@/state/useWatchStore";
+import {
+  TourDefinition,
+  TourIssue,
+  TourValidationError,
+  builtInTours,
+  parseTourJson,
+} from "@/tours";
+
+export const TourPanel = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const tour = useWatchStore((state) => state.tour);
+  const [loaded, setLoaded] = useState<TourDefinition[]>([]);
+  const [issues, setIssues] = useState<TourIssue[]>([]);
+  // Tours written for another calibre are left out rather than half-working.
+  const tours = [...builtInTours, ...loaded].filter(
+    (entry) => !entry.calibre || entry.calibre === calibre.id
+  );
+
+  const loadFile = async (file: File) => {
+    try {
+      const next = parseTourJson(await file.text(), calibre);
+      setLoaded((current) => [
+        ...current.filter((entry) => entry.id !== next.id),
+        next,
+      ]);
+      setIssues([]);
+      startTour(next);
+    } catch (error) {
+      setIssues(
+        error instanceof TourValidationError
+          ? error.issues
+          : [{ path: file.name, message: "could not be read" }]
+      );
+    }
+  };
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+        Guided Tours
+      </h3>
+      <ul className="grid gap-2">
+        {tours.map((entry) => (
+          <li
+            key={entry.id}
+            className="flex items-center justify-between gap-2 rounded-xl border border-slate-800/70 bg-slate-900/50 px-3 py-2"
+          >
+            <span className="min-w-0">
+              <span className="block truncate text-xs font-semibold text-slate-100">
+                {entry.title}
+              </span>
+              <span className="text-[10px] uppercase tracking-widest text-slate-500">
+                {entry.steps.length} Steps
+              </span>
+            </span>
+            <button
+              type="button"
+              onClick={() =>
+                tour?.id === entry.id ? stopTour() : startTour(entry)
+              }
+              className={`rounded-full border px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider transition ${
+                tour?.id === entry.id
+                  ? "border-cyan-400/60 bg-cyan-500/10 text-cyan-100"
+                  : "border-slate-700/60 bg-slate-800/80 text-slate-200 hover:border-slate-500"
+              }`}
+            >
+              {tour?.id === entry.id ? "Exit" : "Start"}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <label className="cursor-pointer rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-center text-[11px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500">
+        Load Tour JSON
+        <input
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) void loadFile(file);
+          }}
+        />
+      </label>
+      {issues.length > 0 && (
+        <ul className="grid gap-1 rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 font-mono text-[10px] text-rose-200">
+          {issues.map((issue, index) => (
+            <li key={index}>
+              {issue.path}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs leading-relaxed text-slate-400">
+        Tours step through camera moves, layers and narration. Use the arrow
+        keys to step and Escape to leave; the view is put back afterwards.
+      </p>
+    </section>
+  );
+};
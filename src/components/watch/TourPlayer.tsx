@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect } from "react";
+import { showTourStep, stopTour, useTourAutoplay } from "@/state/tourPlayback";
+import { useWatchStore } from "@/state/useWatchStore";
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName));
+
+/** Narration card and transport controls shown over the scene on a tour. */
+export const TourPlayer = () => {
+  const tour = useWatchStore((state) => state.tour);
+  const tourStep = useWatchStore((state) => state.tourStep);
+  const tourPlaying = useWatchStore((state) => state.tourPlaying);
+  const setTourPlaying = useWatchStore((state) => state.setTourPlaying);
+  useTourAutoplay();
+
+  useEffect(() => {
+    if (!tour) return;
+    const handleKey = (event: KeyboardEvent) => {
+      if (isTyping(event.target)) return;
+      if (event.key === "ArrowRight") showTourStep(tourStep + 1);
+      else if (event.key === "ArrowLeft") showTourStep(tourStep - 1);
+      else if (event.key === "Escape") stopTour();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [tour, tourStep]);
+
+  if (!tour) return null;
+  const step = tour.steps[tourStep];
+  const last = tourStep === tour.steps.length - 1;
+
+  return (
+    <div className="absolute left-1/2 top-6 w-[min(36rem,calc(100%-3rem))] -translate-x-1/2 rounded-2xl border border-cyan-400/40 bg-slate-900/85 p-4 text-slate-100 shadow-xl backdrop-blur">
+      <div className="flex items-center justify-between gap-3">
+        <p className="truncate text-[11px] font-semibold uppercase tracking-widest text-cyan-200">
+          {tour.title}
+        </p>
+        <span className="text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+          {tourStep + 1} / {tour.steps.length}
+        </span>
+      </div>
+      <h3 className="mt-1 text-sm font-semibold">{step.title}</h3>
+      <p className="mt-2 text-xs leading-relaxed text-slate-300">
+        {step.narration}
+      </p>
+      <div className="mt-3 flex gap-1">
+        {tour.steps.map((entry, index) => (
+          <button
+            type="button"
+            key={index}
+            onClick={() => showTourStep(index)}
+            title={entry.title}
+            aria-label={`Go to step ${index + 1}`}
+            className={`h-1 flex-1 rounded-full transition ${
+              index <= tourStep ? "bg-cyan-400" : "bg-slate-700"
+            }`}
+          />
+        ))}
+      </div>
+      <div className="mt-3 flex items-center justify-between gap-2">
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={tourStep === 0}
+            onClick={() => showTourStep(tourStep - 1)}
+            className="rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-xs font-medium text-slate-100 transition hover:border-slate-500 hover:bg-slate-700/70 disabled:opacity-30"
+          >
+            Previous
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              // Playing from the last step starts the tour over.
+              if (!tourPlaying && last) showTourStep(0);
+              setTourPlaying(!tourPlaying);
+            }}
+            className="rounded-full border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 text-xs font-semibold text-cyan-200 transition hover:border-cyan-400/60 hover:bg-cyan-400/20"
+          >
+            {tourPlaying ? "Pause" : "Play"}
+          </button>
+          <button
+            type="button"
+            disabled={last}
+            onClick={() => showTourStep(tourStep + 1)}
+            className="rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-xs font-medium text-slate-100 transition hover:border-slate-500 hover:bg-slate-700/70 disabled:opacity-30"
+          >
+            Next
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={stopTour}
+          className="rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-xs font-medium text-slate-100 transition hover:border-slate-500 hover:bg-slate-700/70 disabled:opacity-30"
+        >
+          Exit
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,445 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CalibreDefinition,
+  PinionDefinition,
+  ToothRole,
+  WheelDefinition,
+  addTrainPart,
+  checkCalibreMeshing,
+  checkTrainDesign,
+  formatPeriod,
+  isFixedTrainPart,
+  moveTrainPart,
+  placeTrainArbors,
+  referenceCalibre,
+  removeTrainPart,
+  setTrainPartDrives,
+  solveCalibreTrain,
+  trainRatio,
+  updateTrainPart,
+} from "@/calibre";
+import { powerReserveHours } from "@/simulation/mainspring";
+import { useWatchStore } from "@/state/useWatchStore";
+
+const handTitles = {
+  hour: "Hour Hand",
+  minute: "Minute Hand",
+  seconds: "Seconds Hand",
+};
+
+const NEW_ARBOR = "";
+
+/**
+ * A number field that is edited as text and only changes the part on blur
+ * or Enter, and then only if the text reads as a number `accepts`.
+ */
+const PartNumberInput = ({
+  value,
+  min,
+  step,
+  accepts,
+  onCommit,
+}: {
+  value: number;
+  min?: number;
+  step: number;
+  accepts: (value: number) => boolean;
+  onCommit: (value: number) => void;
+}) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const next = Number(draft);
+    if (draft.trim() !== "" && accepts(next) && next !== value) {
+      onCommit(next);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="number"
+      min={min}
+      step={step}
+      value={draft ?? value}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") commit();
+        if (event.key === "Escape") setDraft(null);
+      }}
+      className="w-full rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-right text-xs text-slate-100"
+    />
+  );
+};
+
+const TrainPartRow = ({
+  part,
+  role,
+  first,
+  last,
+  onEdit,
+}: {
+  part: WheelDefinition | PinionDefinition;
+  role: ToothRole;
+  first: boolean;
+  last: boolean;
+  onEdit: (edit: (calibre: CalibreDefinition) => CalibreDefinition) => void;
+}) => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const count = "teeth" in part ? part.teeth : part.leaves;
+  const toothed = [...calibre.wheels, ...calibre.pinions];
+  const drives = calibre.meshes
+    .filter((mesh) => mesh.driver === part.id)
+    .map((mesh) => mesh.driven);
+  // Each part has one driver, so only parts nothing drives can be added.
+  const driven = new Set(calibre.meshes.map((mesh) => mesh.driven));
+  const drivable = toothed.filter(
+    (other) => other.arbor !== part.arbor && !driven.has(other.id)
+  );
+  const setDrives = (next: string[]) =>
+    onEdit((edited) => setTrainPartDrives(edited, part.id, next));
+  const drivenBy = calibre.meshes
+    .filter((mesh) => mesh.driven === part.id)
+    .map((mesh) => toothed.find((other) => other.id === mesh.driver)?.name)
+    .filter(Boolean);
+
+  return (
+    <li className="grid gap-2 rounded-xl border border-slate-800/70 bg-slate-900/50 px-3 py-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="min-w-0">
+          <span className="block truncate text-xs font-semibold text-slate-100">
+            {part.name}
+          </span>
+          <span className="block truncate text-[10px] uppercase tracking-widest text-slate-500">
+            {drivenBy.length > 0
+              ? `Driven by ${drivenBy.join(", ")}`
+              : "Not driven"}
+          </span>
+        </span>
+        <span className="flex shrink-0 gap-1">
+          <button
+            type="button"
+            disabled={first}
+            onClick={() => onEdit((next) => moveTrainPart(next, part.id, -1))}
+            aria-label={`Move ${part.name} up`}
+            className="rounded-full border border-slate-700/60 bg-slate-800/80 px-2 py-0.5 text-[10px] text-slate-200 transition hover:border-slate-500 disabled:opacity-30"
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            disabled={last}
+            onClick={() => onEdit((next) => moveTrainPart(next, part.id, 1))}
+            aria-label={`Move ${part.name} down`}
+            className="rounded-full border border-slate-700/60 bg-slate-800/80 px-2 py-0.5 text-[10px] text-slate-200 transition hover:border-slate-500 disabled:opacity-30"
+          >
+            ↓
+          </button>
+          <button
+            type="button"
+            disabled={isFixedTrainPart(calibre, part.id)}
+            onClick={() => onEdit((next) => removeTrainPart(next, part.id))}
+            aria-label={`Remove ${part.name}`}
+            title={
+              isFixedTrainPart(calibre, part.id)
+                ? "The barrel and escape wheels cannot be removed"
+                : undefined
+            }
+            className="rounded-full border border-rose-500/40 bg-rose-500/10 px-2 py-0.5 text-[10px] text-rose-200 transition hover:border-rose-400/60 disabled:opacity-30"
+          >
+            ✕
+          </button>
+        </span>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="grid gap-1 text-[10px] font-semibold uppercase tracking-widest text-slate-500">
+          <span>{role === "wheel" ? "Teeth" : "Leaves"}</span>
+          <PartNumberInput
+            value={count}
+            min={3}
+            step={1}
+            accepts={(value) => Number.isInteger(value) && value >= 3}
+            onCommit={(value) =>
+              onEdit((next) => updateTrainPart(next, part.id, { count: value }))
+            }
+          />
+        </label>
+        <label className="grid gap-1 text-[10px] font-semibold uppercase tracking-widest text-slate-500">
+          <span>Module</span>
+          <PartNumberInput
+            value={part.module}
+            min={0.001}
+            step={0.001}
+            accepts={(value) => Number.isFinite(value) && value > 0}
+            onCommit={(value) =>
+              onEdit((next) =>
+                updateTrainPart(next, part.id, { module: value })
+              )
+            }
+          />
+        </label>
+        <label className="grid gap-1 text-[10px] font-semibold uppercase tracking-widest text-slate-500">
+          <span>Height</span>
+          <PartNumberInput
+            value={part.offset}
+            step={0.01}
+            accepts={Number.isFinite}
+            onCommit={(value) =>
+              onEdit((next) =>
+                updateTrainPart(next, part.id, { offset: value })
+              )
+            }
+          />
+        </label>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="grid gap-1 text-[10px] font-semibold uppercase tracking-widest text-slate-500">
+          <span>Arbor</span>
+          <select
+            value={part.arbor}
+            onChange={(event) =>
+              onEdit((next) =>
+                updateTrainPart(next, part.id, {
+                  arbor:
+                    event.target.value === NEW_ARBOR
+                      ? null
+                      : event.target.value,
+                })
+              )
+            }
+            className="w-full rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-xs text-slate-100"
+          >
+            {calibre.arbors.map((arbor) => (
+              <option key={arbor.id} value={arbor.id}>
+                {arbor.name}
+              </option>
+            ))}
+            <option value={NEW_ARBOR}>New arbor</option>
+          </select>
+        </label>
+        <label className="grid gap-1 text-[10px] font-semibold uppercase tracking-widest text-slate-500">
+          <span>Drives</span>
+          <select
+            value=""
+            disabled={drivable.length === 0}
+            onChange={(event) => {
+              if (event.target.value) {
+                setDrives([...drives, event.target.value]);
+              }
+            }}
+            className="w-full rounded-lg border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-xs text-slate-100 disabled:opacity-30"
+          >
+            <option value="">Add part…</option>
+            {drivable.map((other) => (
+              <option key={other.id} value={other.id}>
+                {other.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {drives.length > 0 && (
+        <ul className="flex flex-wrap gap-1">
+          {drives.map((id) => {
+            const name = toothed.find((other) => other.id === id)?.name ?? id;
+            return (
+              <li key={id}>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setDrives(drives.filter((other) => other !== id))
+                  }
+                  aria-label={`Stop ${part.name} driving ${name}`}
+                  className="rounded-full border border-slate-700/60 bg-slate-800/80 px-2 py-0.5 text-[10px] text-slate-200 transition hover:border-rose-400/60"
+                >
+                  {name} ✕
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/** Speeds and ratios the train gives, or a dash where it does not run. */
+const useTrainSummary = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const solution = solveCalibreTrain(calibre);
+  const arborOf = (wheelId: string) =>
+    calibre.wheels.find((wheel) => wheel.id === wheelId)!.arbor;
+  const ratio = trainRatio(
+    solution,
+    arborOf(calibre.mainspring.barrelWheel),
+    arborOf(calibre.escapement.escapeWheel)
+  );
+  const reserve = powerReserveHours(calibre);
+  const shown = (value: number, format: (value: number) => string) =>
+    Number.isFinite(value) && value > 0 ? format(value) : "—";
+
+  return [
+    {
+      label: "Train Ratio",
+      value: shown(
+        ratio,
+        (value) => `1 : ${Math.round(value).toLocaleString("en-US")}`
+      ),
+    },
+    {
+      label: "Beat",
+      value: `${calibre.escapement.beatsPerHour.toLocaleString("en-US")} vph`,
+    },
+    ...calibre.hands.map((hand) => ({
+      label: handTitles[hand.kind],
+      value: shown(
+        1 / Math.abs(solution.arborSpeeds[hand.arbor] ?? 0),
+        (hours) => `1 turn / ${formatPeriod(hours)}`
+      ),
+    })),
+    {
+      label: "Power Reserve",
+      value: shown(reserve, (hours) => `${Math.round(hours)} h`),
+    },
+  ];
+};
+
+export const TrainDesignerPanel = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const setCalibre = useWatchStore((state) => state.setCalibre);
+  const updateCalibreTrain = useWatchStore(
+    (state) => state.updateCalibreTrain
+  );
+  const selectPart = useWatchStore((state) => state.selectPart);
+  const [autoPlace, setAutoPlace] = useState(true);
+  const summary = useTrainSummary();
+  const issues = checkTrainDesign(calibre);
+  const meshingErrors = checkCalibreMeshing(calibre).issues.filter(
+    (issue) => issue.severity === "error"
+  ).length;
+
+  const edit = (change: (calibre: CalibreDefinition) => CalibreDefinition) => {
+    const next = change(calibre);
+    updateCalibreTrain(autoPlace ? placeTrainArbors(next) : next);
+  };
+
+  const partList = (
+    role: ToothRole,
+    parts: (WheelDefinition | PinionDefinition)[]
+  ) => (
+    <ul className="grid gap-2">
+      {parts.map((part, index) => (
+        <TrainPartRow
+          key={part.id}
+          part={part}
+          role={role}
+          first={index === 0}
+          last={index === parts.length - 1}
+          onEdit={edit}
+        />
+      ))}
+    </ul>
+  );
+
+  return (
+    <section className="grid gap-3 rounded-2xl border border-slate-800/70 bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Train Designer
+        </h3>
+        <button
+          type="button"
+          disabled={calibre === referenceCalibre}
+          onClick={() => setCalibre(referenceCalibre)}
+          className="rounded-full border border-slate-700/60 bg-slate-800/80 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-slate-200 transition hover:border-slate-500 disabled:opacity-30"
+        >
+          Reset
+        </button>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        {summary.map((row) => (
+          <div key={row.label} className="contents">
+            <dt className="text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+              {row.label}
+            </dt>
+            <dd className="text-right font-mono text-slate-100">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+      {(issues.length > 0 || meshingErrors > 0) && (
+        <ul className="grid gap-1">
+          {issues.map((issue, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                disabled={!issue.part}
+                onClick={() => issue.part && selectPart(issue.part)}
+                className={`w-full rounded-xl border px-3 py-2 text-left text-[11px] leading-relaxed transition ${
+                  issue.severity === "error"
+                    ? "border-rose-500/30 bg-rose-500/10 text-rose-200 hover:border-rose-400/60"
+                    : "border-amber-500/30 bg-amber-500/10 text-amber-200 hover:border-amber-400/60"
+                }`}
+              >
+                {issue.message}
+              </button>
+            </li>
+          ))}
+          {meshingErrors > 0 && (
+            <li className="rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-[11px] leading-relaxed text-rose-200">
+              {meshingErrors} meshing{" "}
+              {meshingErrors === 1 ? "fault stops" : "faults stop"} the train
+              from running; see the meshing check.
+            </li>
+          )}
+        </ul>
+      )}
+
+      <h4 className="text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        Wheels
+      </h4>
+      {partList("wheel", calibre.wheels)}
+      <h4 className="text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        Pinions
+      </h4>
+      {partList("pinion", calibre.pinions)}
+
+      <div className="grid grid-cols-2 gap-2">
+        {(["wheel", "pinion"] as const).map((role) => (
+          <button
+            type="button"
+            key={role}
+            onClick={() => edit((next) => addTrainPart(next, role))}
+            className="rounded-full border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 text-xs font-semibold text-cyan-200 transition hover:border-cyan-400/60 hover:bg-cyan-400/20"
+          >
+            {role === "wheel" ? "Add Wheel" : "Add Pinion"}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center justify-between text-[11px] font-semibold uppercase tracking-widest text-slate-400">
+        <span>Auto-place Arbors</span>
+        <input
+          type="checkbox"
+          checked={autoPlace}
+          onChange={(event) => {
+            setAutoPlace(event.target.checked);
+            if (event.target.checked) {
+              updateCalibreTrain(placeTrainArbors(calibre));
+            }
+          }}
+          className="size-4 accent-cyan-400"
+        />
+      </label>
+      <p className="text-xs leading-relaxed text-slate-400">
+        Changes apply to the movement as they are made. With auto-placing on,
+        every arbor the train can move is set at the centre distance of the
+        parts it meshes with, working out from the hour and minute arbors on
+        the dial centre and the escape arbor beside the pallets. Train speeds
+        follow from the beat, which the balance sets.
+      </p>
+    </section>
+  );
+};
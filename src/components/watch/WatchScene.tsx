@@ -1,131 +1,114 @@
 "use client";
 
-import { Suspense, useEffect, useMemo, useRef } from "react";
-import { Canvas, ThreeElements, useFrame, useThree } from "@react-three/fiber";
+import {
+  Suspense,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { Canvas, ThreeEvent, useFrame, useThree } from "@react-three/fiber";
 import {
   Html,
   Line,
   OrbitControls as DreiOrbitControls,
+  Outlines,
   PerspectiveCamera,
 } from "@react-three/drei";
-import { OrbitControls as OrbitControlsImpl } from "three-stdlib";
+import { Line2, OrbitControls as OrbitControlsImpl } from "three-stdlib";
 import * as THREE from "three";
-import { Group, Vector2, Vector3 } from "three";
-import { CameraView, WatchLayer, useWatchStore } from "@/state/useWatchStore";
-
-type GearMaterial = "brass" | "steel" | "ruby";
+import { Group, Vector3 } from "three";
+import {
+  ArborDefinition,
+  BridgeDefinition,
+  CalibreMaterial,
+  GearMaterial,
+  HandDefinition,
+  JewelDefinition,
+  MeshingSeverity,
+  ToothProfile,
+  ToothRole,
+  calibreLayer,
+  calibreLayers,
+  checkCalibreMeshing,
+  findCalibrePart,
+  fixturePartIds,
+  solveCalibreTrain,
+} from "@/calibre";
+import {
+  LAYER_SPACING,
+  advanceExplode,
+  layerLift,
+  radialScale,
+} from "@/components/watch/explodeAnimation";
+import { CaptureMenu } from "@/components/watch/CaptureMenu";
+import { MeasureOverlay } from "@/components/watch/MeasureOverlay";
+import { SectionTool } from "@/components/watch/SectionTool";
+import { TourPlayer } from "@/components/watch/TourPlayer";
+import {
+  cameraPathDuration,
+  sampleCameraPath,
+} from "@/components/watch/cameraPaths";
+import { createGearGeometry } from "@/components/watch/gearGeometry";
+import { materialPalette } from "@/components/watch/materials";
+import {
+  measurePickAt,
+  millimetresPerUnit,
+} from "@/components/watch/measurement";
+import {
+  disposeImportedModel,
+  importModelFile,
+  styleImportedNodes,
+} from "@/components/watch/importedModel";
+import {
+  DEFAULT_TURNTABLE_SECONDS,
+  Recording,
+  captureStill,
+  startRecording,
+} from "@/components/watch/sceneCapture";
+import { exportScene } from "@/components/watch/sceneExport";
+import { isSectionedAway } from "@/components/watch/sectionPlanes";
+import { EscapementPhase } from "@/simulation/escapement";
+import { advanceMovement, movementClock } from "@/simulation/movement";
+import { watchPositionMeta } from "@/simulation/positions";
+import { quantizeToBeats, wallClockHours } from "@/simulation/wallClock";
+import { startTour } from "@/state/tourPlayback";
+import {
+  CameraView,
+  ImportedModel,
+  WatchLayer,
+  useWatchStore,
+} from "@/state/useWatchStore";
 
-interface GearProps extends Omit<ThreeElements["mesh"], "args"> {
+interface GearProps {
+  partId: string;
+  role: ToothRole;
   teeth: number;
   module: number;
+  profile?: ToothProfile;
   thickness: number;
   holeRadius?: number;
   color: GearMaterial;
-  rotationFactor?: number;
   layer: WatchLayer;
   position?: [number, number, number];
 }
 
-interface LayerMeta {
-  title: string;
-  description: string;
-  color: string;
-}
-
-const layerMeta: Record<WatchLayer, LayerMeta> = {
-  case: {
-    title: "Case & Crystal",
-    description:
-      "Protective architecture defining the exterior envelope and sapphire crystal.",
-    color: "#d6e2f0",
-  },
-  basePlate: {
-    title: "Main Plate & Bridges",
-    description:
-      "Structural brass base plate, pillars, and bridges supporting the train.",
-    color: "#7f8ea3",
-  },
-  gearTrain: {
-    title: "Gear Train",
-    description:
-      "Mainspring barrel drives the center, third, and fourth wheels to transmit power.",
-    color: "#f7d27b",
-  },
-  escapement: {
-    title: "Escapement",
-    description:
-      "Swiss lever escapement with escape wheel and pallets regulating impulse.",
-    color: "#ff9171",
-  },
-  balance: {
-    title: "Balance Assembly",
-    description:
-      "Balance wheel, hairspring, and shock protection oscillating at 4 Hz.",
-    color: "#a2f2ff",
-  },
-  hands: {
-    title: "Time Display",
-    description:
-      "Hand stack for hours, minutes, and seconds mounted above the motion works.",
-    color: "#e0f5d0",
-  },
-};
-
-const layerOrder: WatchLayer[] = [
-  "case",
-  "basePlate",
-  "gearTrain",
-  "escapement",
-  "balance",
-  "hands",
-];
-
-const baseLayerHeights: Record<WatchLayer, number> = {
-  case: -0.6,
-  basePlate: -0.1,
-  gearTrain: 0.45,
-  escapement: 1.05,
-  balance: 1.7,
-  hands: 2.35,
-};
-
-const materialPalette: Record<
-  GearMaterial,
-  THREE.MeshPhysicalMaterialParameters
-> =
-  {
-    brass: {
-      color: new THREE.Color("#f3c86b"),
-      metalness: 0.9,
-      roughness: 0.25,
-    },
-    steel: {
-      color: new THREE.Color("#d8d8dd"),
-      metalness: 1,
-      roughness: 0.18,
-    },
-    ruby: {
-      color: new THREE.Color("#d14b64"),
-      metalness: 0,
-      roughness: 0.1,
-      transmission: 0.8,
-      opacity: 0.8,
-      transparent: true,
-      emissive: new THREE.Color("#821a2e"),
-      emissiveIntensity: 0.4,
-    },
-  };
-
 const materialCache = new Map<
   string,
   THREE.MeshPhysicalMaterial | THREE.MeshStandardMaterial
 >();
 
+/**
+ * Shared gear materials. They are cached per layer because the section tool
+ * sets clipping planes on whole layers at a time.
+ */
 function getMaterial(
   paletteKey: GearMaterial,
+  layer: WatchLayer,
   overrides?: Partial<THREE.MeshPhysicalMaterialParameters>
 ) {
-  const key = `${paletteKey}-${JSON.stringify(overrides ?? {})}`;
+  const key = `${paletteKey}-${layer}-${JSON.stringify(overrides ?? {})}`;
   if (!materialCache.has(key)) {
     const params = {
       ...materialPalette[paletteKey],
@@ -143,132 +126,191 @@ function getMaterial(
   return materialCache.get(key)!;
 }
 
-function createGearGeometry(
-  teeth: number,
-  module: number,
-  thickness: number,
-  holeRadius: number = module * teeth * 0.12
-): THREE.BufferGeometry {
-  const toothAngle = (Math.PI * 2) / teeth;
-  const baseRadius = (module * teeth) / 2;
-  const addendum = module * 0.95;
-  const dedendum = module * 1.25;
-  const addendumRadius = baseRadius + addendum;
-  const dedendumRadius = Math.max(baseRadius - dedendum, holeRadius * 1.2);
-
-  const shape = new THREE.Shape();
-  const firstAngle = -toothAngle / 2;
-  const firstPoint = new Vector2(
-    Math.cos(firstAngle) * dedendumRadius,
-    Math.sin(firstAngle) * dedendumRadius
-  );
-  shape.moveTo(firstPoint.x, firstPoint.y);
-
-  for (let i = 0; i < teeth; i += 1) {
-    const angle = i * toothAngle;
-    const flankA = angle - toothAngle * 0.35;
-    const tipA = angle - toothAngle * 0.12;
-    const tipB = angle + toothAngle * 0.12;
-    const flankB = angle + toothAngle * 0.35;
-
-    shape.lineTo(
-      Math.cos(flankA) * dedendumRadius,
-      Math.sin(flankA) * dedendumRadius
-    );
-    shape.lineTo(
-      Math.cos(tipA) * addendumRadius,
-      Math.sin(tipA) * addendumRadius
-    );
-    shape.lineTo(
-      Math.cos(tipB) * addendumRadius,
-      Math.sin(tipB) * addendumRadius
-    );
-    shape.lineTo(
-      Math.cos(flankB) * dedendumRadius,
-      Math.sin(flankB) * dedendumRadius
-    );
-  }
+const useArborSpeed = (arbor: string) =>
+  useWatchStore(
+    (state) => solveCalibreTrain(state.calibre).arborSpeeds[arbor] ?? 0
+  );
 
-  if (holeRadius > 0) {
-    const holePath = new THREE.Path();
-    holePath.absarc(0, 0, holeRadius, 0, Math.PI * 2, true);
-    shape.holes.push(holePath);
-  }
+/**
+ * Angle of an arbor turning at `revolutionsPerHour`, as a scene rotation
+ * about y. The train only moves when the escapement lets it, so the angle
+ * follows the displayed time rather than the frame clock.
+ */
+const trainRotation = (revolutionsPerHour: number) =>
+  -Math.PI * 2 * revolutionsPerHour * movementClock.displayHours;
 
-  const extrudeSettings: THREE.ExtrudeGeometryOptions = {
-    depth: thickness,
-    steps: 1,
-    bevelEnabled: false,
-  };
+const useLayerMeta = (layer: WatchLayer) =>
+  useWatchStore((state) => calibreLayer(state.calibre, layer)!);
 
-  const geometry = new THREE.ExtrudeGeometry(shape, extrudeSettings);
-  geometry.translate(0, 0, -thickness / 2);
-  geometry.rotateX(Math.PI / 2);
-  geometry.center();
+const useLayerAttributes = (layer: WatchLayer) => {
+  const hidden = useWatchStore((state) => state.hiddenLayers[layer]);
+  const highlighted = useWatchStore((state) => state.highlightedLayer === layer);
+  const opacity = useWatchStore((state) => state.layerOpacity[layer]);
+  return { hidden, highlighted, opacity };
+};
 
-  return geometry;
-}
+/** Height gained by a layer at full explode. */
+const useLayerSeparation = (layer: WatchLayer) =>
+  useWatchStore(
+    (state) =>
+      state.layerOffsets[layer] ??
+      calibreLayers(state.calibre).findIndex((entry) => entry.id === layer) *
+        LAYER_SPACING
+  );
 
-const layerIndices = layerOrder.reduce<Record<WatchLayer, number>>(
-  (acc, layer, index) => {
-    acc[layer] = index;
-    return acc;
-  },
-  {} as Record<WatchLayer, number>
-);
+/**
+ * Group that rides at its layer's height as the assembly explodes.
+ * `baseHeight` replaces the layer's own resting height.
+ */
+const LayerLift = ({
+  layer,
+  baseHeight: restingHeight,
+  children,
+}: {
+  layer: WatchLayer;
+  baseHeight?: number;
+  children: React.ReactNode;
+}) => {
+  const layerHeight = useLayerMeta(layer).baseHeight;
+  const baseHeight = restingHeight ?? layerHeight;
+  const separation = useLayerSeparation(layer);
+  const groupRef = useRef<Group>(null);
+  useFrame(() => {
+    if (!groupRef.current) return;
+    groupRef.current.position.y = baseHeight + separation * layerLift(layer);
+  });
+  return (
+    <group ref={groupRef} position={[0, baseHeight, 0]} userData={{ layer }}>
+      {children}
+    </group>
+  );
+};
+
+/** Pointer travel, in pixels, beyond which a press counts as a drag. */
+const CLICK_TOLERANCE = 4;
+
+/**
+ * Pointer handlers that make a mesh or group pickable as `partId`: hovering
+ * outlines it, a click selects it — or picks a point on it while measuring —
+ * and a double click frames it.
+ */
+const usePartPicking = (partId: string) => {
+  const layer = useWatchStore(
+    (state) => findCalibrePart(state.calibre, partId)?.layer
+  );
+  const hovered = useWatchStore((state) => state.hoveredPart === partId);
+  const selected = useWatchStore((state) => state.selectedPart === partId);
+  const flagged = useWatchStore((state) =>
+    state.meshingOverlay
+      ? checkCalibreMeshing(state.calibre).flagged[partId] ?? null
+      : null
+  );
+  const setHoveredPart = useWatchStore((state) => state.setHoveredPart);
+  const selectPart = useWatchStore((state) => state.selectPart);
+  const focusPart = useWatchStore((state) => state.focusPart);
+  const measuring = useWatchStore((state) => state.measureKind !== null);
+  const addMeasurePick = useWatchStore((state) => state.addMeasurePick);
+
+  // Hits on a part's sectioned-away half fall through to what is behind it.
+  const cutAway = (event: ThreeEvent<PointerEvent | MouseEvent>) =>
+    !!layer && isSectionedAway(event.point, layer);
+
+  const handlers = {
+    userData: { partId },
+    onPointerOver: (event: ThreeEvent<PointerEvent>) => {
+      if (cutAway(event)) return;
+      event.stopPropagation();
+      setHoveredPart(partId);
+    },
+    onPointerOut: () => {
+      if (useWatchStore.getState().hoveredPart === partId) {
+        setHoveredPart(null);
+      }
+    },
+    onClick: (event: ThreeEvent<MouseEvent>) => {
+      if (cutAway(event)) return;
+      event.stopPropagation();
+      if (event.delta > CLICK_TOLERANCE) return;
+      if (measuring) {
+        const pick = measurePickAt(event.object, event.point, partId);
+        if (pick) addMeasurePick(pick);
+      } else {
+        selectPart(partId);
+      }
+    },
+    onDoubleClick: (event: ThreeEvent<MouseEvent>) => {
+      if (cutAway(event)) return;
+      event.stopPropagation();
+      focusPart(partId);
+    },
+  };
+  return { hovered, selected, flagged, handlers };
+};
 
-const rotationDirections: Record<WatchLayer, 1 | -1> = {
-  case: 1,
-  basePlate: 1,
-  gearTrain: 1,
-  escapement: -1,
-  balance: 1,
-  hands: 1,
+const flagColors: Record<MeshingSeverity, string> = {
+  error: "#f43f5e",
+  warning: "#f59e0b",
 };
 
-const useLayerAttributes = (layer: WatchLayer) => {
-  const hidden = useWatchStore((state) => state.hiddenLayers[layer]);
-  const highlighted = useWatchStore((state) => state.highlightedLayer === layer);
-  const opacity = useWatchStore((state) => state.layerOpacity[layer]);
-  const exploded = useWatchStore((state) => state.exploded);
-  const index = layerIndices[layer];
-  const baseHeight = baseLayerHeights[layer];
-  const y = baseHeight + (exploded ? index * 0.8 : 0);
-  const factor = highlighted ? 1.2 : 1;
-  return { hidden, highlighted, opacity, y, factor };
+/** Hover and selection outline; parts failing the meshing check show theirs. */
+const PartOutline = ({
+  hovered,
+  selected,
+  flagged = null,
+}: {
+  hovered: boolean;
+  selected: boolean;
+  flagged?: MeshingSeverity | null;
+}) => {
+  if (hovered || selected) {
+    return (
+      <Outlines
+        thickness={selected ? 3 : 2}
+        color={selected ? "#fb923c" : "#22d3ee"}
+      />
+    );
+  }
+  return flagged ? (
+    <Outlines thickness={2} color={flagColors[flagged]} />
+  ) : null;
 };
 
 const Gear = ({
+  partId,
+  role,
   teeth,
   module,
+  profile,
   thickness,
   holeRadius,
   color,
-  rotationFactor = 1,
   layer,
   position = [0, 0, 0],
-  ...props
 }: GearProps) => {
-  const { hidden, highlighted, opacity, factor } = useLayerAttributes(layer);
-  const rotationSpeed = useWatchStore((state) => state.rotationSpeed);
-  const meshRef = useRef<THREE.Mesh>(null);
+  const { highlighted, opacity } = useLayerAttributes(layer);
+  const layerColor = useLayerMeta(layer).color;
   const material = useMemo(
     () =>
-      getMaterial(color, {
+      getMaterial(color, layer, {
         opacity,
         transparent: opacity < 1,
         emissive:
           highlighted && color !== "ruby"
-            ? new THREE.Color(layerMeta[layer].color)
+            ? new THREE.Color(layerColor)
             : undefined,
         emissiveIntensity: highlighted ? 0.35 : 0,
       }),
-    [color, opacity, highlighted, layer]
+    [color, layer, opacity, highlighted, layerColor]
   );
 
   const geometry = useMemo(
-    () => createGearGeometry(teeth, module, thickness, holeRadius),
-    [teeth, module, thickness, holeRadius]
+    () =>
+      createGearGeometry(
+        { role, count: teeth, module, profile },
+        thickness,
+        holeRadius
+      ),
+    [role, teeth, module, profile, thickness, holeRadius]
   );
 
   useEffect(
@@ -278,489 +320,757 @@ const Gear = ({
     [geometry]
   );
 
-  useFrame((_, delta) => {
-    if (!meshRef.current || hidden) return;
-    const direction = rotationDirections[layer];
-    meshRef.current.rotation.y +=
-      delta * rotationSpeed * rotationFactor * direction * factor;
+  const { hovered, selected, flagged, handlers } = usePartPicking(partId);
+
+  return (
+    <mesh geometry={geometry} position={position} {...handlers}>
+      <primitive object={material} attach="material" />
+      <PartOutline hovered={hovered} selected={selected} flagged={flagged} />
+    </mesh>
+  );
+};
+
+const Arbor = ({ arbor }: { arbor: ArborDefinition }) => {
+  const { hidden, opacity } = useLayerAttributes(arbor.layer);
+  const speed = useArborSpeed(arbor.id);
+  const wheels = useWatchStore((state) => state.calibre.wheels);
+  const pinions = useWatchStore((state) => state.calibre.pinions);
+  const groupRef = useRef<Group>(null);
+
+  useFrame(() => {
+    if (!groupRef.current || hidden) return;
+    groupRef.current.rotation.y = trainRotation(speed);
+    const spread = radialScale();
+    groupRef.current.position.x = arbor.position[0] * spread;
+    groupRef.current.position.z = arbor.position[2] * spread;
   });
 
+  return (
+    <group
+      ref={groupRef}
+      name={`${arbor.id} arbor`}
+      position={arbor.position}
+      userData={{ spreadOrigin: arbor.position }}
+    >
+      {wheels
+        .filter((wheel) => wheel.arbor === arbor.id)
+        .map((wheel) => (
+          <Gear
+            key={wheel.id}
+            partId={wheel.id}
+            layer={arbor.layer}
+            role="wheel"
+            teeth={wheel.teeth}
+            module={wheel.module}
+            profile={wheel.profile}
+            thickness={wheel.thickness}
+            holeRadius={wheel.holeRadius}
+            color={wheel.material}
+            position={[0, wheel.offset, 0]}
+          />
+        ))}
+      {pinions
+        .filter((pinion) => pinion.arbor === arbor.id)
+        .map((pinion) => (
+          <Gear
+            key={pinion.id}
+            partId={pinion.id}
+            layer={arbor.layer}
+            role="pinion"
+            teeth={pinion.leaves}
+            module={pinion.module}
+            profile={pinion.profile}
+            thickness={pinion.thickness}
+            holeRadius={pinion.holeRadius}
+            color={pinion.material}
+            position={[0, pinion.offset, 0]}
+          />
+        ))}
+      {arbor.staff && (
+        <mesh
+          position={[0, arbor.staff.offset, 0]}
+          rotation={[Math.PI / 2, 0, 0]}
+        >
+          <cylinderGeometry
+            args={[arbor.staff.radius, arbor.staff.radius, arbor.staff.length, 24]}
+          />
+          <meshPhysicalMaterial
+            {...materialPalette.steel}
+            opacity={opacity}
+            transparent={opacity < 1}
+          />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+const BridgeMaterial = ({
+  material,
+  layer,
+}: {
+  material: CalibreMaterial;
+  layer: WatchLayer;
+}) => {
+  const { highlighted, opacity } = useLayerAttributes(layer);
+  const layerColor = useLayerMeta(layer).color;
+
+  if (typeof material === "string") {
+    return (
+      <meshPhysicalMaterial
+        {...materialPalette[material]}
+        opacity={opacity}
+        transparent={opacity < 1}
+        emissiveIntensity={highlighted ? 0.25 : 0}
+        emissive={highlighted ? new THREE.Color(layerColor) : undefined}
+      />
+    );
+  }
+
+  const scaledOpacity = opacity * (material.opacityScale ?? 1);
+  return (
+    <meshPhysicalMaterial
+      color={highlighted && !material.transmission ? layerColor : material.color}
+      metalness={material.metalness}
+      roughness={material.roughness}
+      opacity={scaledOpacity}
+      transparent={scaledOpacity < 1}
+      transmission={material.transmission ?? 0}
+      clearcoat={material.transmission ? 1 : 0}
+      clearcoatRoughness={0.05}
+    />
+  );
+};
+
+const Bridge = ({ bridge }: { bridge: BridgeDefinition }) => {
+  const { shape } = bridge;
+  const { hovered, selected, flagged, handlers } = usePartPicking(bridge.id);
+  // Glass is left out of picking so the parts behind it stay clickable.
+  const glass =
+    typeof bridge.material !== "string" && !!bridge.material.transmission;
   return (
     <mesh
-      ref={meshRef}
-      geometry={geometry}
-      visible={!hidden}
-      position={position}
-      {...props}
+      position={bridge.position}
+      {...handlers}
+      raycast={glass ? () => null : THREE.Mesh.prototype.raycast}
     >
-      <primitive object={material} attach="material" />
+      {shape.kind === "bar" ? (
+        <boxGeometry args={[shape.width, bridge.thickness, shape.length]} />
+      ) : (
+        <cylinderGeometry
+          args={[shape.radiusTop, shape.radiusBottom, bridge.thickness, 128]}
+        />
+      )}
+      <BridgeMaterial material={bridge.material} layer={bridge.layer} />
+      <PartOutline hovered={hovered} selected={selected} flagged={flagged} />
     </mesh>
   );
 };
 
+const SPRING_STEPS = 480;
+
+/**
+ * Hairspring with its outer coil held at `anchorAngle` by the curb pins and
+ * its inner end turning with the balance, so the coils breathe as it swings.
+ */
 const BalanceSpring = ({
   turns = 6,
   radius = 0.7,
+  anchorAngle = 0,
+  position,
   layer,
 }: {
   turns?: number;
   radius?: number;
+  anchorAngle?: number;
+  position: [number, number, number];
   layer: WatchLayer;
 }) => {
-  const { hidden, highlighted, opacity, y } = useLayerAttributes(layer);
-  const points = useMemo(() => {
-    const pts: Vector3[] = [];
-    const steps = 480;
-    for (let i = 0; i < steps; i += 1) {
-      const t = i / (steps - 1);
-      const angle = turns * Math.PI * 2 * t;
+  const { hidden, highlighted, opacity } = useLayerAttributes(layer);
+  const layerColor = useLayerMeta(layer).color;
+  const lineRef = useRef<Line2>(null);
+  const bufferRef = useRef<Float32Array | null>(null);
+
+  const coil = useCallback(
+    (t: number, balanceAngle: number): [number, number, number] => {
+      const angle = anchorAngle + (turns * Math.PI * 2 + balanceAngle) * t;
       const r = radius * (1 - t * 0.85);
-      pts.push(new Vector3(Math.cos(angle) * r, 0.001, Math.sin(angle) * r));
+      return [Math.cos(angle) * r, 0.001, Math.sin(angle) * r];
+    },
+    [anchorAngle, turns, radius]
+  );
+  const points = useMemo(
+    () =>
+      Array.from({ length: SPRING_STEPS }, (_, i) =>
+        coil(i / (SPRING_STEPS - 1), 0)
+      ),
+    [coil]
+  );
+
+  useFrame(() => {
+    if (!lineRef.current || hidden) return;
+    bufferRef.current ??= new Float32Array(SPRING_STEPS * 3);
+    const buffer = bufferRef.current;
+    for (let i = 0; i < SPRING_STEPS; i += 1) {
+      buffer.set(
+        coil(i / (SPRING_STEPS - 1), movementClock.pose.balanceAngle),
+        i * 3
+      );
     }
-    return pts;
-  }, [turns, radius]);
+    lineRef.current.geometry.setPositions(buffer);
+  });
 
   return (
     <Line
+      ref={lineRef}
       visible={!hidden}
       points={points}
-      color={highlighted ? layerMeta[layer].color : "#c0f0ff"}
+      color={highlighted ? layerColor : "#c0f0ff"}
       lineWidth={1.5}
       transparent={opacity < 1}
       opacity={opacity}
-      position={[0, y + 0.02, 0]}
+      position={[position[0], position[1] + 0.02, position[2]]}
       toneMapped={false}
     />
   );
 };
 
-const BalanceWheel = () => {
-  const { hidden, highlighted, opacity, y, factor } =
-    useLayerAttributes("balance");
-  const rotationSpeed = useWatchStore((state) => state.rotationSpeed);
-  const groupRef = useRef<Group>(null);
-  useFrame((_, delta) => {
-    if (!groupRef.current || hidden) return;
-    groupRef.current.rotation.y += delta * rotationSpeed * 1.5 * factor;
-    groupRef.current.rotation.z = Math.sin(Date.now() * 0.005) * 0.2;
-  });
+/** Screw travel is a fraction of a millimetre; scale it up so it shows. */
+const SCREW_TRAVEL_EXAGGERATION = 4;
+/** Regulator arm swing either side of centre at full index. */
+const REGULATOR_SWEEP = Math.PI / 7;
+
+const BalanceScrews = () => {
+  const { opacity } = useLayerAttributes("balance");
+  const balance = useWatchStore((state) => state.calibre.balance);
+  const screwOffsets = useWatchStore((state) => state.regulation.screwOffsets);
+  const sceneUnitsPerMm = balance.rimRadius / balance.inertia.rimRadius;
 
   return (
-    <group visible={!hidden} ref={groupRef} position={[0, y, 0]}>
-      <mesh rotation={[Math.PI / 2, 0, 0]}>
-        <torusGeometry args={[0.95, 0.07, 32, 128]} />
-        <meshPhysicalMaterial
-          {...materialPalette.brass}
-          opacity={opacity}
-          transparent={opacity < 1}
-          emissiveIntensity={highlighted ? 0.4 : 0}
-          emissive={highlighted ? new THREE.Color("#ffd180") : undefined}
-        />
-      </mesh>
-      <mesh rotation={[Math.PI / 2, 0, 0]}>
-        <cylinderGeometry args={[0.12, 0.12, 0.7, 32]} />
+    <>
+      {screwOffsets.map((offset, index) => {
+        const angle = (index / screwOffsets.length) * Math.PI * 2;
+        const radius =
+          (balance.inertia.screwRadius +
+            offset * SCREW_TRAVEL_EXAGGERATION) *
+          sceneUnitsPerMm;
+        return (
+          <mesh
+            key={index}
+            position={[Math.cos(angle) * radius, 0, Math.sin(angle) * radius]}
+            rotation={[0, -angle, Math.PI / 2]}
+          >
+            <cylinderGeometry args={[0.05, 0.05, 0.14, 16]} />
+            <meshPhysicalMaterial
+              {...materialPalette.brass}
+              color="#f2c65a"
+              opacity={opacity}
+              transparent={opacity < 1}
+            />
+          </mesh>
+        );
+      })}
+    </>
+  );
+};
+
+/** Index arm and curb pins, fixed to the cock rather than the balance. */
+const RegulatorIndex = () => {
+  const { opacity } = useLayerAttributes("balance");
+  const balance = useWatchStore((state) => state.calibre.balance);
+  const regulatorIndex = useWatchStore(
+    (state) => state.regulation.regulatorIndex
+  );
+  const reach = balance.hairspringRadius;
+
+  return (
+    <group
+      position={[
+        balance.position[0],
+        balance.position[1] + 0.12,
+        balance.position[2],
+      ]}
+      rotation={[0, -regulatorIndex * REGULATOR_SWEEP, 0]}
+    >
+      <mesh position={[-reach / 2, 0, 0]}>
+        <boxGeometry args={[reach * 1.6, 0.025, 0.06]} />
         <meshPhysicalMaterial
           {...materialPalette.steel}
           opacity={opacity}
           transparent={opacity < 1}
         />
       </mesh>
-      <mesh rotation={[Math.PI / 2, 0, 0]}>
-        <torusGeometry args={[0.12, 0.035, 16, 64]} />
-        <meshPhysicalMaterial
-          color="#d14b64"
-          emissive="#5c1425"
-          emissiveIntensity={0.6}
-          opacity={opacity}
-          transparent={opacity < 1}
-        />
-      </mesh>
-      <BalanceSpring layer="balance" />
+      {[-0.04, 0.04].map((z) => (
+        <mesh key={z} position={[-reach, -0.06, z]}>
+          <cylinderGeometry args={[0.012, 0.012, 0.12, 8]} />
+          <meshPhysicalMaterial
+            {...materialPalette.steel}
+            opacity={opacity}
+            transparent={opacity < 1}
+          />
+        </mesh>
+      ))}
     </group>
   );
 };
 
-const JewelSetting = ({
-  position,
-  layer,
-}: {
-  position: [number, number, number];
-  layer: WatchLayer;
-}) => {
-  const { hidden, opacity } = useLayerAttributes(layer);
-  if (hidden) return null;
+/** The balance layer's fixture: wheel, hairspring and regulator. */
+export const BalanceWheel = () => {
+  const { hidden, highlighted, opacity } = useLayerAttributes("balance");
+  const balance = useWatchStore((state) => state.calibre.balance);
+  const regulatorIndex = useWatchStore(
+    (state) => state.regulation.regulatorIndex
+  );
+  const groupRef = useRef<Group>(null);
+  const { hovered, selected, flagged, handlers } = usePartPicking(
+    fixturePartIds.balance
+  );
+  useFrame(() => {
+    if (!groupRef.current || hidden) return;
+    groupRef.current.rotation.y = -movementClock.pose.balanceAngle;
+  });
+
   return (
-    <mesh position={position}>
-      <cylinderGeometry args={[0.08, 0.08, 0.18, 32]} />
-      <meshPhysicalMaterial
-        {...materialPalette.steel}
-        opacity={opacity}
-        transparent={opacity < 1}
+    <>
+      <group ref={groupRef} position={balance.position} {...handlers}>
+        <mesh rotation={[Math.PI / 2, 0, 0]}>
+          <torusGeometry args={[balance.rimRadius, 0.07, 32, 128]} />
+          <meshPhysicalMaterial
+            {...materialPalette.brass}
+            opacity={opacity}
+            transparent={opacity < 1}
+            emissiveIntensity={highlighted ? 0.4 : 0}
+            emissive={highlighted ? new THREE.Color("#ffd180") : undefined}
+          />
+          <PartOutline
+            hovered={hovered}
+            selected={selected}
+            flagged={flagged}
+          />
+        </mesh>
+        <mesh rotation={[Math.PI / 2, 0, 0]}>
+          <cylinderGeometry args={[0.12, 0.12, 0.7, 32]} />
+          <meshPhysicalMaterial
+            {...materialPalette.steel}
+            opacity={opacity}
+            transparent={opacity < 1}
+          />
+        </mesh>
+        <mesh rotation={[Math.PI / 2, 0, 0]}>
+          <torusGeometry args={[0.12, 0.035, 16, 64]} />
+          <meshPhysicalMaterial
+            color="#d14b64"
+            emissive="#5c1425"
+            emissiveIntensity={0.6}
+            opacity={opacity}
+            transparent={opacity < 1}
+          />
+        </mesh>
+        <BalanceScrews />
+      </group>
+      <BalanceSpring
+        layer="balance"
+        turns={balance.hairspringTurns}
+        radius={balance.hairspringRadius}
+        anchorAngle={Math.PI + regulatorIndex * REGULATOR_SWEEP}
+        position={balance.position}
       />
-    </mesh>
+      <RegulatorIndex />
+    </>
   );
 };
 
-const PalletFork = () => {
-  const { hidden, highlighted, opacity, y } = useLayerAttributes("escapement");
-
-  if (hidden) return null;
+/** Moves a jewel out with the arbor it carries when parts spread radially. */
+const RadialSpread = ({
+  position,
+  children,
+}: {
+  position: [number, number, number];
+  children: React.ReactNode;
+}) => {
+  const groupRef = useRef<Group>(null);
+  useFrame(() => {
+    if (!groupRef.current) return;
+    const spread = radialScale();
+    groupRef.current.position.set(
+      position[0] * spread,
+      position[1],
+      position[2] * spread
+    );
+  });
   return (
-    <group position={[0.35, y + 0.14, 0]}>
-      <mesh>
-        <boxGeometry args={[0.28, 0.02, 0.03]} />
-        <meshPhysicalMaterial
-          {...materialPalette.steel}
-          opacity={opacity}
-          transparent={opacity < 1}
-          emissiveIntensity={highlighted ? 0.3 : 0}
-          emissive={highlighted ? new THREE.Color(layerMeta.escapement.color) : undefined}
-        />
-      </mesh>
-      <mesh position={[0.14, 0.01, 0.05]}>
-        <boxGeometry args={[0.06, 0.01, 0.02]} />
-        <meshPhysicalMaterial
-          {...materialPalette.ruby}
-          opacity={opacity}
-          transparent
-        />
-      </mesh>
-      <mesh position={[0.14, 0.01, -0.05]}>
-        <boxGeometry args={[0.06, 0.01, 0.02]} />
-        <meshPhysicalMaterial
-          {...materialPalette.ruby}
-          opacity={opacity}
-          transparent
-        />
-      </mesh>
+    <group
+      ref={groupRef}
+      position={position}
+      userData={{ spreadOrigin: position }}
+    >
+      {children}
     </group>
   );
 };
 
-const Escapement = () => {
-  const { hidden, opacity, highlighted, y } =
-    useLayerAttributes("escapement");
-  if (hidden) return null;
+const JewelSetting = ({ jewel }: { jewel: JewelDefinition }) => (
+  <RadialSpread position={jewel.position}>
+    <JewelMesh jewel={jewel} />
+  </RadialSpread>
+);
 
-  return (
-    <group position={[0.65, y, 0]}>
-      <Gear
-        layer="escapement"
-        teeth={15}
-        module={0.42}
-        thickness={0.28}
-        color="steel"
-        rotationFactor={6}
-        position={[0, 0, 0]}
-      />
-      <mesh position={[0, 0.16, 0]} rotation={[Math.PI / 2, 0, 0]}>
-        <cylinderGeometry args={[0.06, 0.06, 0.5, 24]} />
-        <meshPhysicalMaterial
-          {...materialPalette.steel}
-          opacity={opacity}
-          transparent={opacity < 1}
-        />
-      </mesh>
-      <JewelSetting layer="escapement" position={[0, 0.24, 0]} />
-      <PalletFork />
-      <Html position={[0.1, 0.5, 0]}>
-        <div className="rounded-md bg-slate-900/80 px-3 py-2 text-xs text-slate-100 backdrop-blur">
-          Swiss lever escapement
-        </div>
-      </Html>
-      <mesh position={[0, 0.32, 0]}>
-        <torusGeometry args={[0.14, 0.015, 18, 48]} />
+const JewelMesh = ({ jewel }: { jewel: JewelDefinition }) => {
+  const { highlighted, opacity } = useLayerAttributes(jewel.layer);
+  const layerColor = useLayerMeta(jewel.layer).color;
+  const { hovered, selected, flagged, handlers } = usePartPicking(jewel.id);
+
+  if (jewel.setting === "ring") {
+    return (
+      <mesh {...handlers}>
+        <torusGeometry args={[jewel.radius, jewel.height, 18, 48]} />
         <meshPhysicalMaterial
-          color={highlighted ? layerMeta.escapement.color : "#9ca3af"}
+          color={highlighted ? layerColor : "#9ca3af"}
           metalness={0.25}
           roughness={0.3}
           opacity={opacity}
           transparent={opacity < 1}
         />
+        <PartOutline hovered={hovered} selected={selected} flagged={flagged} />
       </mesh>
-    </group>
-  );
-};
-
-const TrainBridge = ({
-  layer,
-  width,
-  length,
-  thickness,
-  position,
-}: {
-  layer: WatchLayer;
-  width: number;
-  length: number;
-  thickness: number;
-  position: [number, number, number];
-}) => {
-  const { hidden, opacity, highlighted } = useLayerAttributes(layer);
-  if (hidden) return null;
+    );
+  }
 
   return (
-    <mesh position={position}>
-      <boxGeometry args={[width, thickness, length]} />
+    <mesh {...handlers}>
+      <cylinderGeometry args={[jewel.radius, jewel.radius, jewel.height, 32]} />
       <meshPhysicalMaterial
-        {...materialPalette.brass}
+        {...materialPalette.steel}
         opacity={opacity}
         transparent={opacity < 1}
-        emissiveIntensity={highlighted ? 0.25 : 0}
-        emissive={highlighted ? new THREE.Color(layerMeta[layer].color) : undefined}
       />
+      <PartOutline hovered={hovered} selected={selected} flagged={flagged} />
     </mesh>
   );
 };
 
-const GearTrain = () => {
-  const { hidden, opacity, highlighted, y } =
-    useLayerAttributes("gearTrain");
-  if (hidden) return null;
+const phaseLabels: Record<EscapementPhase, string> = {
+  lock: "Locked · supplementary arc",
+  unlock: "Unlocking",
+  impulse: "Impulse",
+  drop: "Drop",
+};
+
+/** The escapement layer's fixture, swinging with the escapement pose. */
+export const PalletFork = () => {
+  const { hidden, highlighted, opacity } = useLayerAttributes("escapement");
+  const layerColor = useLayerMeta("escapement").color;
+  const { palletPosition, forkAngle } = useWatchStore(
+    (state) => state.calibre.escapement
+  );
+  const forkRef = useRef<Group>(null);
+  const phaseRef = useRef<HTMLSpanElement>(null);
+  const { hovered, selected, flagged, handlers } = usePartPicking(
+    fixturePartIds.palletFork
+  );
+
+  useFrame(() => {
+    if (!forkRef.current || hidden) return;
+    const { pose } = movementClock;
+    forkRef.current.rotation.y = pose.forkAngle;
+    if (phaseRef.current) {
+      phaseRef.current.textContent = phaseLabels[pose.phase];
+    }
+  });
+
+  // Banking pins sit just outside the tail's travel on either side.
+  const halfFork = (forkAngle * Math.PI) / 360;
+  const bankingZ = 0.14 * Math.sin(halfFork) + 0.025;
 
   return (
-    <group position={[0, y, 0]}>
-      <Gear
-        layer="gearTrain"
-        teeth={72}
-        module={0.45}
-        thickness={0.55}
-        color="brass"
-        rotationFactor={0.2}
-      />
-      <Gear
-        layer="gearTrain"
-        teeth={64}
-        module={0.3}
-        thickness={0.45}
-        position={[0, 0.55, 0]}
-        rotationFactor={0.5}
-        color="brass"
-      />
-      <Gear
-        layer="gearTrain"
-        teeth={56}
-        module={0.26}
-        thickness={0.4}
-        position={[0.8, 0.45, -0.6]}
-        rotationFactor={1.2}
-        color="brass"
-      />
-      <Gear
-        layer="gearTrain"
-        teeth={48}
-        module={0.22}
-        thickness={0.35}
-        position={[1.35, 0.4, 0.3]}
-        rotationFactor={2.5}
-        color="brass"
-      />
-      <Gear
-        layer="gearTrain"
-        teeth={36}
-        module={0.18}
-        thickness={0.3}
-        position={[0.65, 0.35, 0.65]}
-        rotationFactor={4.4}
-        color="steel"
-      />
-      <TrainBridge
-        layer="gearTrain"
-        width={2.6}
-        length={1.6}
-        thickness={0.14}
-        position={[0.5, 0.72, 0.1]}
-      />
-      <JewelSetting layer="gearTrain" position={[0, 0.7, 0]} />
-      <JewelSetting layer="gearTrain" position={[0.8, 0.68, -0.6]} />
-      <JewelSetting layer="gearTrain" position={[1.35, 0.66, 0.3]} />
-      <JewelSetting layer="gearTrain" position={[0.65, 0.64, 0.65]} />
-      <Html position={[0, 1.2, -0.2]}>
-        <div className="rounded-md bg-slate-900/80 px-3 py-2 text-xs text-slate-100 backdrop-blur">
-          Barrel → center → third → fourth wheel with jeweled pivots
+    <group position={palletPosition}>
+      <group ref={forkRef} {...handlers}>
+        <mesh>
+          <boxGeometry args={[0.28, 0.02, 0.03]} />
+          <meshPhysicalMaterial
+            {...materialPalette.steel}
+            opacity={opacity}
+            transparent={opacity < 1}
+            emissiveIntensity={highlighted ? 0.3 : 0}
+            emissive={highlighted ? new THREE.Color(layerColor) : undefined}
+          />
+          <PartOutline
+            hovered={hovered}
+            selected={selected}
+            flagged={flagged}
+          />
+        </mesh>
+        <mesh position={[0.14, 0.01, 0.05]}>
+          <boxGeometry args={[0.06, 0.01, 0.02]} />
+          <meshPhysicalMaterial
+            {...materialPalette.ruby}
+            opacity={opacity}
+            transparent
+          />
+        </mesh>
+        <mesh position={[0.14, 0.01, -0.05]}>
+          <boxGeometry args={[0.06, 0.01, 0.02]} />
+          <meshPhysicalMaterial
+            {...materialPalette.ruby}
+            opacity={opacity}
+            transparent
+          />
+        </mesh>
+      </group>
+      {[bankingZ, -bankingZ].map((z) => (
+        <mesh key={z} position={[-0.14, 0, z]}>
+          <cylinderGeometry args={[0.012, 0.012, 0.08, 12]} />
+          <meshPhysicalMaterial
+            {...materialPalette.brass}
+            opacity={opacity}
+            transparent={opacity < 1}
+          />
+        </mesh>
+      ))}
+      <Html position={[0, 0.3, 0]}>
+        <div className="rounded-md bg-slate-900/80 px-3 py-2 text-[11px] uppercase tracking-widest text-orange-200 backdrop-blur">
+          <span ref={phaseRef}>{phaseLabels.lock}</span>
         </div>
       </Html>
-      <mesh position={[0, 0.25, 0]}>
-        <cylinderGeometry args={[1.45, 1.45, 0.12, 64]} />
-        <meshPhysicalMaterial
-          color={highlighted ? layerMeta.gearTrain.color : "#efddae"}
-          metalness={0.6}
-          roughness={0.35}
-          opacity={opacity * 0.8}
-          transparent={true}
-        />
-      </mesh>
     </group>
   );
 };
 
-const MainPlate = () => {
-  const { hidden, highlighted, opacity, y } =
-    useLayerAttributes("basePlate");
-  if (hidden) return null;
+/** Change in the state of wind that is worth re-rendering the panels for. */
+const WIND_PUBLISH_STEP = 0.01;
+
+/**
+ * Steps the shared movement clock before anything else reads it. In live
+ * mode the balance runs in real time and the display follows the wall clock,
+ * until the mainspring runs down and the hands stop where they are.
+ */
+const MovementDriver = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const rotationSpeed = useWatchStore((state) => state.rotationSpeed);
+  const displayMode = useWatchStore((state) => state.displayMode);
+  const timeZone = useWatchStore((state) => state.timeZone);
+  const secondsMotion = useWatchStore((state) => state.secondsMotion);
+  const regulation = useWatchStore((state) => state.regulation);
+  const watchPosition = useWatchStore((state) => state.watchPosition);
+  useFrame((_, delta) => {
+    const { windFraction, setWindFraction } = useWatchStore.getState();
+    // Winding and letting down arrive through the store.
+    if (windFraction !== movementClock.publishedWind) {
+      movementClock.wind = windFraction;
+      movementClock.publishedWind = windFraction;
+    }
+    const seconds = displayMode === "demonstration" ? delta * rotationSpeed : delta;
+    const wind = advanceMovement(
+      calibre,
+      seconds,
+      movementClock.wind,
+      regulation,
+      watchPosition
+    );
+    movementClock.wind = wind;
+    if (
+      Math.abs(windFraction - wind) >= WIND_PUBLISH_STEP ||
+      (wind <= 0 && windFraction > 0)
+    ) {
+      movementClock.publishedWind = wind;
+      setWindFraction(wind);
+    }
+    if (displayMode === "demonstration" || wind <= 0) return;
+
+    const hours = wallClockHours(new Date(), timeZone);
+    movementClock.displayHours =
+      secondsMotion === "beat"
+        ? quantizeToBeats(hours, calibre.escapement.beatsPerHour)
+        : hours;
+  }, -1);
+  return null;
+};
+
+/** Eases the assembly towards the explode settings in the store. */
+const ExplodeDriver = () => {
+  const layers = useLayerList();
+  const explodeAmount = useWatchStore((state) => state.explodeAmount);
+  const explodeStaged = useWatchStore((state) => state.explodeStaged);
+  const radialExplode = useWatchStore((state) => state.radialExplode);
+  const layerIds = useMemo(() => layers.map((layer) => layer.id), [layers]);
+  useFrame((_, delta) => {
+    advanceExplode(delta, layerIds, explodeAmount, explodeStaged, radialExplode);
+  }, -1);
+  return null;
+};
+
+/** Pixels of drag that turn the crown through one full revolution. */
+const CROWN_DRAG_PER_TURN = 60;
+
+/** The case layer's fixture, turned by dragging to wind the mainspring. */
+export const Crown = () => {
+  const { opacity, highlighted } = useLayerAttributes("case");
+  const layerColor = useLayerMeta("case").color;
+  const crown = useWatchStore((state) => state.calibre.crown);
+  const windCrown = useWatchStore((state) => state.windCrown);
+  const getThree = useThree((state) => state.get);
+  const spinRef = useRef<THREE.Mesh>(null);
+  const lastPointer = useRef<{ x: number; y: number } | null>(null);
+  const { hovered, selected, flagged, handlers } = usePartPicking(
+    fixturePartIds.crown
+  );
+
+  // Dragging up or to the right winds; the other way the click just ratchets.
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    if (!lastPointer.current || !spinRef.current) return;
+    const travel =
+      event.clientX - lastPointer.current.x -
+      (event.clientY - lastPointer.current.y);
+    lastPointer.current = { x: event.clientX, y: event.clientY };
+    const turns = travel / CROWN_DRAG_PER_TURN;
+    spinRef.current.rotation.y += turns * Math.PI * 2;
+    windCrown(turns);
+  };
+
+  const setOrbitEnabled = (enabled: boolean) => {
+    const controls = getThree().controls as OrbitControlsImpl | null;
+    if (controls) controls.enabled = enabled;
+  };
+
+  const endDrag = (event: ThreeEvent<PointerEvent>) => {
+    if (!lastPointer.current) return;
+    lastPointer.current = null;
+    (event.target as Element).releasePointerCapture(event.pointerId);
+    setOrbitEnabled(true);
+    document.body.style.cursor = "";
+  };
+
   return (
-    <group position={[0, y, 0]}>
-      <mesh>
-        <cylinderGeometry args={[2.4, 2.4, 0.45, 128]} />
-        <meshPhysicalMaterial
-          color={highlighted ? layerMeta.basePlate.color : "#d5d9e2"}
-          metalness={0.25}
-          roughness={0.7}
-          opacity={opacity}
-          transparent={opacity < 1}
-        />
-      </mesh>
-      <mesh position={[0, 0.35, 0]}>
-        <cylinderGeometry args={[2.2, 2.2, 0.1, 64]} />
+    <group position={crown.position} rotation={[0, 0, Math.PI / 2]}>
+      <mesh
+        ref={spinRef}
+        {...handlers}
+        onPointerDown={(event) => {
+          event.stopPropagation();
+          lastPointer.current = { x: event.clientX, y: event.clientY };
+          (event.target as Element).setPointerCapture(event.pointerId);
+          setOrbitEnabled(false);
+          document.body.style.cursor = "grabbing";
+        }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onPointerOver={(event) => {
+          handlers.onPointerOver(event);
+          if (!lastPointer.current) document.body.style.cursor = "grab";
+        }}
+        onPointerOut={() => {
+          handlers.onPointerOut();
+          if (!lastPointer.current) document.body.style.cursor = "";
+        }}
+      >
+        <cylinderGeometry args={[crown.radius, crown.radius, crown.length, 32]} />
         <meshPhysicalMaterial
           {...materialPalette.steel}
           opacity={opacity}
           transparent={opacity < 1}
+          emissiveIntensity={highlighted ? 0.3 : 0}
+          emissive={highlighted ? new THREE.Color(layerColor) : undefined}
         />
+        <PartOutline hovered={hovered} selected={selected} flagged={flagged} />
       </mesh>
-      <mesh position={[0, -0.32, 0]}>
-        <cylinderGeometry args={[2.15, 2.25, 0.12, 64]} />
-        <meshPhysicalMaterial
-          {...materialPalette.brass}
-          opacity={opacity}
-          transparent={opacity < 1}
-        />
-      </mesh>
-      <Html position={[1.4, 0.6, 0]}>
-        <div className="rounded-md bg-slate-900/80 px-3 py-2 text-xs text-slate-100 backdrop-blur">
-          Côtes de Genève finishing on bridges
-        </div>
-      </Html>
     </group>
   );
 };
 
-const WatchCase = () => {
-  const { hidden, highlighted, opacity, y } = useLayerAttributes("case");
-  if (hidden) return null;
+const Hand = ({ hand }: { hand: HandDefinition }) => {
+  const { hidden, opacity } = useLayerAttributes("hands");
+  const speed = useArborSpeed(hand.arbor);
+  const groupRef = useRef<Group>(null);
+  const { hovered, selected, flagged, handlers } = usePartPicking(hand.id);
+  useFrame(() => {
+    if (!groupRef.current || hidden) return;
+    groupRef.current.rotation.y = trainRotation(speed);
+  });
+
+  // The hand points towards 12 o'clock (-z) with a short counterpoise tail.
+  const tail = hand.length * 0.15;
   return (
-    <group position={[0, y, 0]}>
-      <mesh>
-        <cylinderGeometry args={[2.8, 2.8, 0.4, 128]} />
-        <meshPhysicalMaterial
-          color={highlighted ? layerMeta.case.color : "#9aa4b6"}
-          metalness={0.9}
-          roughness={0.2}
-          opacity={opacity}
-          transparent={opacity < 1}
-        />
-      </mesh>
-      <mesh position={[0, 0.3, 0]}>
-        <cylinderGeometry args={[2.7, 2.4, 0.16, 128]} />
-        <meshPhysicalMaterial
-          color="#97a1bf"
-          metalness={0.85}
-          roughness={0.15}
-          opacity={opacity}
-          transparent={opacity < 1}
-        />
-      </mesh>
-      <mesh position={[0, 0.8, 0]}>
-        <cylinderGeometry args={[2.45, 2.4, 0.05, 128]} />
-        <meshPhysicalMaterial
-          color="#d7ebff"
-          transparent
-          opacity={opacity * 0.45}
-          transmission={0.92}
-          roughness={0.05}
-          metalness={0}
-          clearcoat={1}
-          clearcoatRoughness={0.05}
-        />
-      </mesh>
-      <mesh position={[2.6, 0.52, 0]}>
-        <cylinderGeometry args={[0.24, 0.24, 0.6, 32]} />
+    <group ref={groupRef} position={[0, hand.elevation, 0]}>
+      <mesh
+        position={[0, 0, -hand.length / 2 + tail]}
+        rotation={[Math.PI / 2, 0, 0]}
+        {...handlers}
+      >
+        <boxGeometry args={[hand.thickness, hand.length, 0.04]} />
         <meshPhysicalMaterial
-          {...materialPalette.steel}
+          color={hand.color}
+          metalness={0.8}
+          roughness={0.25}
           opacity={opacity}
           transparent={opacity < 1}
         />
+        <PartOutline hovered={hovered} selected={selected} flagged={flagged} />
       </mesh>
     </group>
   );
 };
 
-const Hand = ({
-  length,
-  thickness,
-  color,
-  elevation,
-  rotationFactor,
-}: {
-  length: number;
-  thickness: number;
-  color: string;
-  elevation: number;
-  rotationFactor: number;
-}) => {
-  const { hidden, opacity } = useLayerAttributes("hands");
-  const rotationSpeed = useWatchStore((state) => state.rotationSpeed);
-  const meshRef = useRef<THREE.Mesh>(null);
-  useFrame((_, delta) => {
-    if (!meshRef.current || hidden) return;
-    meshRef.current.rotation.y += delta * rotationSpeed * rotationFactor;
-  });
-
+/** The hands layer's fixture, drawing the calibre's hands. */
+export const WatchHands = () => {
+  const { highlighted, opacity } = useLayerAttributes("hands");
+  const layerColor = useLayerMeta("hands").color;
+  const hands = useWatchStore((state) => state.calibre.hands);
   return (
-    <mesh
-      ref={meshRef}
-      visible={!hidden}
-      position={[0, elevation, 0]}
-      rotation={[Math.PI / 2, 0, 0]}
-    >
-      <boxGeometry args={[thickness, length, 0.04]} />
-      <meshPhysicalMaterial
-        color={color}
-        metalness={0.8}
-        roughness={0.25}
-        opacity={opacity}
-        transparent={opacity < 1}
-      />
-    </mesh>
-  );
-};
-
-const WatchHands = () => {
-  const { hidden, highlighted, opacity, y } = useLayerAttributes("hands");
-  if (hidden) return null;
-  return (
-    <group position={[0, y, 0]}>
-      <Hand
-        length={2.1}
-        thickness={0.1}
-        color="#f5f5f5"
-        elevation={0.06}
-        rotationFactor={0.2}
-      />
-      <Hand
-        length={1.7}
-        thickness={0.15}
-        color="#d9e6ff"
-        elevation={0.12}
-        rotationFactor={0.0166}
-      />
-      <Hand
-        length={2.4}
-        thickness={0.05}
-        color="#ff8b5b"
-        elevation={0.2}
-        rotationFactor={6}
-      />
+    <>
+      {hands.map((hand) => (
+        <Hand key={hand.id} hand={hand} />
+      ))}
       <mesh rotation={[Math.PI / 2, 0, 0]}>
         <cylinderGeometry args={[0.1, 0.1, 0.28, 32]} />
         <meshPhysicalMaterial
-          color={highlighted ? layerMeta.hands.color : "#d4d9ec"}
+          color={highlighted ? layerColor : "#d4d9ec"}
           metalness={0.8}
           roughness={0.2}
           opacity={opacity}
           transparent={opacity < 1}
         />
       </mesh>
-    </group>
+    </>
+  );
+};
+
+const CalibreLayer = ({ layer }: { layer: WatchLayer }) => {
+  const { hidden } = useLayerAttributes(layer);
+  const calibre = useWatchStore((state) => state.calibre);
+  const { annotations, Fixture } = useLayerMeta(layer);
+  if (hidden) return null;
+
+  return (
+    <LayerLift layer={layer}>
+      {calibre.bridges
+        .filter((bridge) => bridge.layer === layer)
+        .map((bridge) => (
+          <Bridge key={bridge.id} bridge={bridge} />
+        ))}
+      {calibre.arbors
+        .filter((arbor) => arbor.layer === layer)
+        .map((arbor) => (
+          <Arbor key={arbor.id} arbor={arbor} />
+        ))}
+      {calibre.jewels
+        .filter((jewel) => jewel.layer === layer)
+        .map((jewel) => (
+          <JewelSetting key={jewel.id} jewel={jewel} />
+        ))}
+      {Fixture && (
+        <Suspense fallback={null}>
+          <Fixture />
+        </Suspense>
+      )}
+      {annotations.map((annotation) => (
+        <Html key={annotation.text} position={annotation.position}>
+          <div className="rounded-md bg-slate-900/80 px-3 py-2 text-xs text-slate-100 backdrop-blur">
+            {annotation.text}
+          </div>
+        </Html>
+      ))}
+    </LayerLift>
   );
 };
 
@@ -784,13 +1094,31 @@ const LightingRig = () => (
   </>
 );
 
+/** How long the orbit must rest before its pose is written to the store. */
+const ORBIT_SETTLE_MS = 250;
+
+/**
+ * Glides the camera to each new store target, then hands it back to the
+ * orbit controls. Where the user leaves the orbit is written back as a free
+ * camera pose so it can be shared. While a recorded path plays, the camera
+ * follows that instead until it ends or the user takes over.
+ */
 const CameraRig = () => {
-  const { camera } = useThree();
   const target = useWatchStore((state) => state.cameraTarget);
-  const currentPosition = useRef(new Vector3(...target.position));
-  const currentTarget = useRef(new Vector3(...target.lookAt));
+  const setCameraTarget = useWatchStore((state) => state.setCameraTarget);
+  const path = useWatchStore(
+    (state) =>
+      state.cameraPaths.find((entry) => entry.id === state.playingCameraPath) ??
+      null
+  );
+  const loop = useWatchStore((state) => state.cameraPathLoop);
+  const playCameraPath = useWatchStore((state) => state.playCameraPath);
+  const pathClock = useRef(0);
   const desiredPosition = useRef(new Vector3(...target.position));
   const desiredTarget = useRef(new Vector3(...target.lookAt));
+  const transitioning = useRef(true);
+  const settleTimer = useRef<number | undefined>(undefined);
+  const [initialPosition] = useState(() => target.position);
 
   const [tx, ty, tz] = target.position;
   const [lx, ly, lz] = target.lookAt;
@@ -798,48 +1126,442 @@ const CameraRig = () => {
   useEffect(() => {
     desiredPosition.current.set(tx, ty, tz);
     desiredTarget.current.set(lx, ly, lz);
-  }, [tx, ty, tz, lx, ly, lz]);
+    transitioning.current = true;
+    // Any other camera move takes over from a playing path.
+    if (useWatchStore.getState().playingCameraPath) playCameraPath(null);
+  }, [tx, ty, tz, lx, ly, lz, playCameraPath]);
+
+  useEffect(() => {
+    pathClock.current = 0;
+  }, [path]);
+
+  useEffect(() => () => window.clearTimeout(settleTimer.current), []);
 
   useFrame((state, delta) => {
-    const easing = 1 - Math.pow(0.001, delta);
     const controls = state.controls as OrbitControlsImpl | undefined;
-    currentPosition.current.lerp(desiredPosition.current, easing);
-    currentTarget.current.lerp(desiredTarget.current, easing);
-    camera.position.copy(currentPosition.current);
+    if (path && path.keyframes.length > 0) {
+      const duration = cameraPathDuration(path);
+      pathClock.current += delta;
+      const finished = !loop && pathClock.current >= duration;
+      const time =
+        loop && duration > 0
+          ? pathClock.current % duration
+          : Math.min(pathClock.current, duration);
+      sampleCameraPath(
+        path,
+        time,
+        state.camera.position,
+        desiredTarget.current
+      );
+      if (controls) {
+        controls.target.copy(desiredTarget.current);
+        controls.update();
+      } else {
+        state.camera.lookAt(desiredTarget.current);
+      }
+      if (finished) {
+        playCameraPath(null);
+        transitioning.current = false;
+        const round = (value: number) => Math.round(value * 100) / 100;
+        setCameraTarget({
+          position: state.camera.position.toArray().map(round) as [
+            number,
+            number,
+            number,
+          ],
+          lookAt: desiredTarget.current.toArray().map(round) as [
+            number,
+            number,
+            number,
+          ],
+        });
+      }
+      return;
+    }
+    if (!transitioning.current) return;
+    const easing = 1 - Math.pow(0.001, delta);
+    state.camera.position.lerp(desiredPosition.current, easing);
     if (controls) {
-      controls.target.lerp(currentTarget.current, easing);
+      controls.target.lerp(desiredTarget.current, easing);
       controls.update();
+    } else {
+      state.camera.lookAt(desiredTarget.current);
     }
-    camera.lookAt(currentTarget.current);
+    const arrived =
+      state.camera.position.distanceTo(desiredPosition.current) < 1e-3 &&
+      (!controls || controls.target.distanceTo(desiredTarget.current) < 1e-3);
+    if (arrived) transitioning.current = false;
   });
 
+  const handleOrbitChange = (event?: { target: OrbitControlsImpl }) => {
+    if (transitioning.current || path || !event) return;
+    const controls = event.target;
+    window.clearTimeout(settleTimer.current);
+    settleTimer.current = window.setTimeout(() => {
+      const round = (value: number) => Math.round(value * 100) / 100;
+      const position = controls.object.position.toArray().map(round);
+      const lookAt = controls.target.toArray().map(round);
+      setCameraTarget({
+        position: position as [number, number, number],
+        lookAt: lookAt as [number, number, number],
+      });
+    }, ORBIT_SETTLE_MS);
+  };
+
   return (
     <>
-      <PerspectiveCamera makeDefault position={[8, 6, 8]} fov={40} />
+      <PerspectiveCamera makeDefault position={initialPosition} fov={40} />
       <DreiOrbitControls
+        makeDefault
         enableDamping
         dampingFactor={0.08}
         minDistance={3}
         maxDistance={18}
         maxPolarAngle={Math.PI * 0.92}
+        onStart={() => {
+          transitioning.current = false;
+          if (path) playCameraPath(null);
+        }}
+        onChange={handleOrbitChange}
       />
     </>
   );
 };
 
+/** Distance kept between the framed part's bounds and the view edges. */
+const FRAMING_MARGIN = 1.4;
+
+/**
+ * Frames the part the store asks for: the camera keeps its current bearing
+ * and backs off until the part's bounding sphere fills the view.
+ */
+const PartFramer = () => {
+  const cameraFocus = useWatchStore((state) => state.cameraFocus);
+  const clearCameraFocus = useWatchStore((state) => state.clearCameraFocus);
+  const setCameraTarget = useWatchStore((state) => state.setCameraTarget);
+  const getThree = useThree((state) => state.get);
+
+  useEffect(() => {
+    if (!cameraFocus) return;
+    clearCameraFocus();
+    const { scene, camera, controls } = getThree();
+    const bounds = new THREE.Box3();
+    scene.updateMatrixWorld();
+    scene.traverse((object) => {
+      if (object.userData.partId === cameraFocus) bounds.expandByObject(object);
+    });
+    if (bounds.isEmpty()) return;
+
+    const sphere = bounds.getBoundingSphere(new THREE.Sphere());
+    const pivot = (controls as OrbitControlsImpl | null)?.target ?? sphere.center;
+    const bearing = camera.position.clone().sub(pivot).normalize();
+    const fov = (camera as THREE.PerspectiveCamera).fov ?? 40;
+    const distance = THREE.MathUtils.clamp(
+      (sphere.radius * FRAMING_MARGIN) / Math.sin((fov * Math.PI) / 360),
+      3,
+      18
+    );
+    const position = sphere.center.clone().addScaledVector(bearing, distance);
+    setCameraTarget({
+      position: position.toArray(),
+      lookAt: sphere.center.toArray(),
+    });
+  }, [cameraFocus, clearCameraFocus, getThree, setCameraTarget]);
+
+  return null;
+};
+
+/** Runs the export the store asks for against the live scene. */
+const SceneExporter = () => {
+  const sceneExport = useWatchStore((state) => state.sceneExport);
+  const clearSceneExport = useWatchStore((state) => state.clearSceneExport);
+  const getThree = useThree((state) => state.get);
+
+  useEffect(() => {
+    if (!sceneExport) return;
+    clearSceneExport();
+    const { calibre, measureScale, setSceneExportError } =
+      useWatchStore.getState();
+    exportScene(
+      getThree().scene,
+      calibre,
+      sceneExport,
+      millimetresPerUnit(calibre, measureScale)
+    ).catch((error) =>
+      setSceneExportError(
+        error instanceof Error ? error.message : "Export failed."
+      )
+    );
+  }, [sceneExport, clearSceneExport, getThree]);
+
+  return null;
+};
+
+interface Turntable {
+  elapsed: number;
+  seconds: number;
+  /** Camera offset from the orbit centre when the turn began. */
+  start: Vector3;
+}
+
+/**
+ * Takes the still or video the store asks for. A turntable swings the
+ * camera once round the orbit centre; a tour recording plays the open tour
+ * from its first step and ends with it.
+ */
+const SceneCapturer = () => {
+  const capture = useWatchStore((state) => state.capture);
+  const endCapture = useWatchStore((state) => state.endCapture);
+  const getThree = useThree((state) => state.get);
+  const turntable = useRef<Turntable | null>(null);
+
+  useEffect(() => {
+    if (!capture) return;
+    const three = getThree();
+    const { calibre, tour } = useWatchStore.getState();
+    const failed = (error: unknown) =>
+      endCapture(error instanceof Error ? error.message : "Capture failed.");
+
+    if (capture.kind === "still") {
+      captureStill(
+        three,
+        capture,
+        `${calibre.id}-${capture.width}x${capture.height}.png`
+      ).then(() => endCapture(), failed);
+      return;
+    }
+
+    let recording: Recording;
+    try {
+      recording = startRecording(
+        three,
+        capture,
+        `${capture.kind === "tour" && tour ? tour.id : calibre.id}-${
+          capture.kind
+        }.webm`
+      );
+    } catch (error) {
+      failed(error);
+      return;
+    }
+
+    let unsubscribe = () => {};
+    if (capture.kind === "tour" && tour) {
+      startTour(tour);
+      useWatchStore.getState().setTourPlaying(true);
+      unsubscribe = useWatchStore.subscribe((state) => {
+        if (!state.tourPlaying) endCapture();
+      });
+    } else {
+      const controls = three.controls as OrbitControlsImpl | null;
+      const centre = controls?.target ?? new Vector3();
+      turntable.current = {
+        elapsed: 0,
+        seconds: capture.seconds ?? DEFAULT_TURNTABLE_SECONDS,
+        start: three.camera.position.clone().sub(centre),
+      };
+    }
+
+    return () => {
+      unsubscribe();
+      turntable.current = null;
+      if (capture.kind === "tour") {
+        useWatchStore.getState().setTourPlaying(false);
+      }
+      recording.stop();
+    };
+  }, [capture, endCapture, getThree]);
+
+  useFrame((state, delta) => {
+    const spin = turntable.current;
+    if (!spin) return;
+    spin.elapsed = Math.min(spin.elapsed + delta, spin.seconds);
+    const controls = state.controls as OrbitControlsImpl | undefined;
+    const centre = controls?.target ?? new Vector3();
+    state.camera.position
+      .copy(spin.start)
+      .applyAxisAngle(
+        THREE.Object3D.DEFAULT_UP,
+        (Math.PI * 2 * spin.elapsed) / spin.seconds
+      )
+      .add(centre);
+    state.camera.lookAt(centre);
+    if (spin.elapsed >= spin.seconds) {
+      turntable.current = null;
+      endCapture();
+    }
+  });
+
+  return null;
+};
+
+const SelectionCard = () => {
+  const calibre = useWatchStore((state) => state.calibre);
+  const selectedPart = useWatchStore((state) => state.selectedPart);
+  const selectPart = useWatchStore((state) => state.selectPart);
+  const focusPart = useWatchStore((state) => state.focusPart);
+  const part = selectedPart ? findCalibrePart(calibre, selectedPart) : undefined;
+  const layerTitle = part
+    ? calibreLayer(calibre, part.layer)?.title
+    : undefined;
+  if (!part) return null;
+
+  return (
+    <div className="absolute bottom-6 right-6 max-w-xs rounded-2xl border border-orange-400/40 bg-slate-900/85 p-4 text-slate-100 shadow-xl backdrop-blur">
+      <p className="text-[11px] font-semibold uppercase tracking-widest text-orange-200">
+        Selected
+      </p>
+      <h3 className="mt-1 text-sm font-semibold">{part.name}</h3>
+      <p className="text-xs text-slate-400">{layerTitle}</p>
+      <div className="mt-3 flex gap-2">
+        <button
+          type="button"
+          onClick={() => focusPart(part.id)}
+          className="rounded-full border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 text-xs font-semibold text-cyan-200 transition hover:border-cyan-400/60 hover:bg-cyan-400/20"
+        >
+          Frame
+        </button>
+        <button
+          type="button"
+          onClick={() => selectPart(null)}
+          className="rounded-full border border-slate-700/60 bg-slate-800/80 px-3 py-1 text-xs font-medium text-slate-100 transition hover:border-slate-500 hover:bg-slate-700/70"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
 const LayerLabel = ({ layer }: { layer: WatchLayer }) => {
-  const { hidden, highlighted, y } = useLayerAttributes(layer);
+  const { hidden, highlighted } = useLayerAttributes(layer);
+  const { title } = useLayerMeta(layer);
   if (hidden) return null;
   return (
-    <Html center position={[0, y + 0.35, -2.4]}>
-      <div
-        className={`rounded-full border border-white/30 bg-slate-900/70 px-4 py-1 text-xs font-medium text-slate-100 shadow-lg backdrop-blur ${
-          highlighted ? "border-white/70 text-white" : ""
-        }`}
-      >
-        {layerMeta[layer].title}
-      </div>
-    </Html>
+    <LayerLift layer={layer}>
+      <Html center position={[0, 0.35, -2.4]}>
+        <div
+          className={`rounded-full border border-white/30 bg-slate-900/70 px-4 py-1 text-xs font-medium text-slate-100 shadow-lg backdrop-blur ${
+            highlighted ? "border-white/70 text-white" : ""
+          }`}
+        >
+          {title}
+        </div>
+      </Html>
+    </LayerLift>
+  );
+};
+
+const noNodes: THREE.Object3D[] = [];
+
+/** Imported nodes of one layer, or the unmapped ones, in the model's frame. */
+const ImportedNodes = ({
+  model,
+  nodes,
+  opacity = 1,
+  highlight = null,
+}: {
+  model: ImportedModel;
+  nodes: THREE.Object3D[];
+  opacity?: number;
+  highlight?: string | null;
+}) => {
+  useEffect(() => {
+    styleImportedNodes(nodes, opacity, highlight);
+  }, [nodes, opacity, highlight]);
+
+  return (
+    <group position={model.offset} scale={model.scale}>
+      {nodes.map((node) => (
+        <primitive key={node.uuid} object={node} dispose={null} />
+      ))}
+    </group>
+  );
+};
+
+const ImportedLayer = ({
+  layer,
+  model,
+  nodes,
+}: {
+  layer: WatchLayer;
+  model: ImportedModel;
+  nodes: THREE.Object3D[];
+}) => {
+  const { hidden, highlighted, opacity } = useLayerAttributes(layer);
+  const layerColor = useLayerMeta(layer).color;
+  if (hidden || nodes.length === 0) return null;
+
+  // Imported parts keep their modelled heights and only lift apart.
+  return (
+    <LayerLift layer={layer} baseHeight={0}>
+      <ImportedNodes
+        model={model}
+        nodes={nodes}
+        opacity={opacity}
+        highlight={highlighted ? layerColor : null}
+      />
+    </LayerLift>
+  );
+};
+
+/**
+ * An imported model in place of the calibre's parts. Nodes follow the
+ * layer they are mapped to; unmapped nodes stay put and always show.
+ */
+const ImportedMovement = ({ model }: { model: ImportedModel }) => {
+  const importedLayers = useWatchStore((state) => state.importedLayers);
+  const layers = useLayerList();
+  const floor = Math.min(...layers.map((layer) => layer.baseHeight));
+  const grouped = useMemo(() => {
+    const byLayer = new Map<WatchLayer | null, THREE.Object3D[]>();
+    model.nodes.forEach((node) => {
+      const layer = importedLayers[node.name] ?? null;
+      byLayer.set(layer, [...(byLayer.get(layer) ?? []), node]);
+    });
+    return byLayer;
+  }, [model, importedLayers]);
+
+  useEffect(() => () => disposeImportedModel(model), [model]);
+
+  return (
+    <group position={[0, floor, 0]}>
+      {layers.map((layer) => (
+        <ImportedLayer
+          key={layer.id}
+          layer={layer.id}
+          model={model}
+          nodes={grouped.get(layer.id) ?? noNodes}
+        />
+      ))}
+      <ImportedNodes model={model} nodes={grouped.get(null) ?? noNodes} />
+    </group>
+  );
+};
+
+/** Height of the point the movement turns about between positions. */
+const MOVEMENT_PIVOT_HEIGHT = 0.9;
+
+/** Turns the whole movement into the selected timing position. */
+const MovementMount = ({ children }: { children: React.ReactNode }) => {
+  const watchPosition = useWatchStore((state) => state.watchPosition);
+  const groupRef = useRef<Group>(null);
+  const target = useMemo(
+    () =>
+      new THREE.Quaternion().setFromEuler(
+        new THREE.Euler(...watchPositionMeta(watchPosition).rotation)
+      ),
+    [watchPosition]
+  );
+  useFrame((_, delta) => {
+    if (!groupRef.current) return;
+    groupRef.current.quaternion.slerp(target, 1 - Math.exp(-delta * 4));
+  });
+
+  return (
+    <group ref={groupRef} position={[0, MOVEMENT_PIVOT_HEIGHT, 0]}>
+      <group position={[0, -MOVEMENT_PIVOT_HEIGHT, 0]}>{children}</group>
+    </group>
   );
 };
 
@@ -849,41 +1571,128 @@ const GroundGrid = () => (
 
 export const WatchScene = () => {
   const highlightedLayer = useWatchStore((state) => state.highlightedLayer);
+  const selectPart = useWatchStore((state) => state.selectPart);
+  const measuring = useWatchStore((state) => state.measureKind !== null);
+  const importedModel = useWatchStore((state) => state.importedModel);
+  const layers = useLayerList();
+  const highlightedMeta = layers.find((layer) => layer.id === highlightedLayer);
+  // Orbiting ends in a click too; only a still click on nothing deselects.
+  const pressRef = useRef<{ x: number; y: number } | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [dropError, setDropError] = useState<string | null>(null);
+
+  const importDropped = async (file: File) => {
+    try {
+      await importModelFile(file);
+      setDropError(null);
+    } catch (error) {
+      setDropError(
+        `${file.name} could not be read${
+          error instanceof Error ? `: ${error.message}` : ""
+        }`
+      );
+    }
+  };
 
   return (
-    <div className="h-full w-full rounded-3xl border border-slate-700/40 bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950 shadow-2xl">
+    <div
+      className={`h-full w-full rounded-3xl border border-slate-700/40 bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950 shadow-2xl ${
+        measuring ? "cursor-crosshair" : ""
+      }`}
+      onDragOver={(event) => {
+        if (!event.dataTransfer.types.includes("Files")) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = "copy";
+        setDragging(true);
+      }}
+      onDragLeave={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+          setDragging(false);
+        }
+      }}
+      onDrop={(event) => {
+        event.preventDefault();
+        setDragging(false);
+        const file = event.dataTransfer.files[0];
+        if (file) void importDropped(file);
+      }}
+    >
       <Canvas
         shadows
+        gl={{ stencil: true, localClippingEnabled: true }}
         resize={{ scroll: false, debounce: { scroll: 50, resize: 0 } }}
+        onPointerDown={(event) => {
+          pressRef.current = { x: event.clientX, y: event.clientY };
+        }}
+        onPointerMissed={(event) => {
+          const press = pressRef.current;
+          if (
+            press &&
+            Math.hypot(event.clientX - press.x, event.clientY - press.y) <=
+              CLICK_TOLERANCE
+          ) {
+            selectPart(null);
+          }
+        }}
       >
         <color attach="background" args={["#05090f"]} />
+        <MovementDriver />
+        <ExplodeDriver />
         <CameraRig />
+        <PartFramer />
+        <SceneExporter />
+        <SceneCapturer />
         <LightingRig />
         <Suspense fallback={null}>
           <group>
-            <WatchCase />
-            <MainPlate />
-            <GearTrain />
-            <Escapement />
-            <BalanceWheel />
-            <WatchHands />
-            {layerOrder.map((layer) => (
-              <LayerLabel key={layer} layer={layer} />
-            ))}
+            <MovementMount>
+              {importedModel ? (
+                <ImportedMovement model={importedModel} />
+              ) : (
+                <>
+                  {layers.map((layer) => (
+                    <CalibreLayer key={layer.id} layer={layer.id} />
+                  ))}
+                  {layers.map((layer) => (
+                    <LayerLabel key={layer.id} layer={layer.id} />
+                  ))}
+                </>
+              )}
+            </MovementMount>
             <GroundGrid />
+            <SectionTool />
+            <MeasureOverlay />
           </group>
         </Suspense>
       </Canvas>
-      {highlightedLayer && (
+      {highlightedMeta && (
         <div className="pointer-events-none absolute bottom-6 left-6 max-w-sm rounded-2xl border border-slate-700/40 bg-slate-900/80 p-4 text-slate-100 shadow-xl backdrop-blur">
           <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
-            {layerMeta[highlightedLayer].title}
+            {highlightedMeta.title}
           </h3>
           <p className="mt-2 text-xs leading-relaxed text-slate-300">
-            {layerMeta[highlightedLayer].description}
+            {highlightedMeta.description}
           </p>
         </div>
       )}
+      <SelectionCard />
+      <TourPlayer />
+      <CaptureMenu />
+      {dragging && (
+        <div className="pointer-events-none absolute inset-4 grid place-items-center rounded-3xl border-2 border-dashed border-cyan-400/60 bg-slate-950/60 text-sm font-semibold uppercase tracking-[0.3em] text-cyan-100">
+          Drop a GLB or glTF file to import it
+        </div>
+      )}
+      {dropError && (
+        <button
+          type="button"
+          onClick={() => setDropError(null)}
+          className="absolute left-1/2 top-6 -translate-x-1/2 rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 font-mono text-[10px] text-rose-200 backdrop-blur"
+          title="Dismiss"
+        >
+          {dropError}
+        </button>
+      )}
     </div>
   );
 };
@@ -897,9 +1706,5 @@ export const cameraViews: { id: CameraView; title: string }[] = [
   { id: "balance", title: "Balance Assembly" },
 ];
 
-export const layerList = layerOrder.map((layer) => ({
-  id: layer,
-  title: layerMeta[layer].title,
-  description: layerMeta[layer].description,
-  color: layerMeta[layer].color,
-}));
+export const useLayerList = () =>
+  useWatchStore((state) => calibreLayers(state.calibre));
@@ -0,0 +1,71 @@
+import * as THREE from "three";
+import { CameraPath } from "@/state/useWatchStore";
+
+/**
+ * Spline playback for recorded camera paths. Positions and look-at targets
+ * each follow a centripetal Catmull-Rom curve through the keyframes, which
+ * stays clear of the loops and cusps uniform splines make at tight corners.
+ */
+
+interface PathCurves {
+  position: THREE.CatmullRomCurve3;
+  lookAt: THREE.CatmullRomCurve3;
+}
+
+/** Paths are replaced rather than edited, so curves are built once each. */
+const curves = new WeakMap<CameraPath, PathCurves>();
+
+const curvesFor = (path: CameraPath) => {
+  let built = curves.get(path);
+  if (!built) {
+    const curve = (points: THREE.Vector3[]) =>
+      new THREE.CatmullRomCurve3(points, false, "centripetal");
+    built = {
+      position: curve(
+        path.keyframes.map((keyframe) =>
+          new THREE.Vector3(...keyframe.position)
+        )
+      ),
+      lookAt: curve(
+        path.keyframes.map((keyframe) => new THREE.Vector3(...keyframe.lookAt))
+      ),
+    };
+    curves.set(path, built);
+  }
+  return built;
+};
+
+export const cameraPathDuration = (path: CameraPath) =>
+  path.keyframes[path.keyframes.length - 1]?.time ?? 0;
+
+/**
+ * Camera pose `time` seconds into `path`, written into `position` and
+ * `lookAt`. Each keyframe is reached at its own time, however far apart the
+ * neighbouring keys sit.
+ */
+export const sampleCameraPath = (
+  path: CameraPath,
+  time: number,
+  position: THREE.Vector3,
+  lookAt: THREE.Vector3
+) => {
+  const { keyframes } = path;
+  if (keyframes.length === 0) return;
+  if (keyframes.length === 1) {
+    position.set(...keyframes[0].position);
+    lookAt.set(...keyframes[0].lookAt);
+    return;
+  }
+  let segment = keyframes.findIndex(
+    (keyframe, index) => index > 0 && time <= keyframe.time
+  );
+  if (segment < 0) segment = keyframes.length - 1;
+  const from = keyframes[segment - 1].time;
+  const span = keyframes[segment].time - from;
+  const progress =
+    span > 0 ? THREE.MathUtils.clamp((time - from) / span, 0, 1) : 1;
+  const t = (segment - 1 + progress) / (keyframes.length - 1);
+  const { position: positions, lookAt: targets } = curvesFor(path);
+  positions.getPoint(t, position);
+  targets.getPoint(t, lookAt);
+};
@@ -0,0 +1,12 @@
+/** Saves `blob` as a file through a throwaway link. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (text: string, fileName: string, type: string) =>
+  downloadBlob(new Blob([text], { type }), fileName);
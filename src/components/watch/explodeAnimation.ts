@@ -0,0 +1,100 @@
+import type { WatchLayer } from "@/state/useWatchStore";
+
+/**
+ * Eased explode/collapse animation. The store holds where the user wants
+ * the assembly; this module holds where it currently is, advanced once per
+ * frame by the scene and read imperatively like the movement clock.
+ */
+
+/** Default vertical gap added per layer at full explode. */
+export const LAYER_SPACING = 0.8;
+/** Extra distance from the layer centre, as a multiple, at full radial. */
+export const RADIAL_SPREAD = 1.5;
+
+/** Seconds a full 0 → 1 transition takes; shorter moves are quicker. */
+const FULL_DURATION = 0.9;
+const MIN_DURATION = 0.25;
+/** Delay between consecutive layers when the explode is staged. */
+const STAGGER = 0.15;
+
+interface Tween {
+  from: number;
+  to: number;
+  start: number;
+  duration: number;
+}
+
+const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2;
+
+const createTween = (value = 0): Tween => ({
+  from: value,
+  to: value,
+  start: 0,
+  duration: 0,
+});
+
+const sample = (tween: Tween, time: number) => {
+  if (tween.duration <= 0 || time >= tween.start + tween.duration) {
+    return tween.to;
+  }
+  if (time <= tween.start) return tween.from;
+  const progress = (time - tween.start) / tween.duration;
+  return tween.from + (tween.to - tween.from) * easeInOutCubic(progress);
+};
+
+/**
+ * Points the tween at a new target from wherever it is now. A tween at rest
+ * waits out `delay` first; one already moving carries straight on so a
+ * dragged slider never stalls.
+ */
+const retarget = (tween: Tween, to: number, time: number, delay: number) => {
+  if (tween.to === to) return;
+  const atRest = time >= tween.start + tween.duration;
+  const from = sample(tween, time);
+  tween.from = from;
+  tween.to = to;
+  tween.start = atRest ? time + delay : time;
+  tween.duration = Math.max(MIN_DURATION, FULL_DURATION * Math.abs(to - from));
+};
+
+export const explodeAnimation = {
+  time: 0,
+  layers: new Map<WatchLayer, Tween>(),
+  radial: createTween(),
+};
+
+/**
+ * Advances the animation by `delta` seconds towards the targets. Staged
+ * explodes lift the top layer first and collapse from the bottom up.
+ */
+export const advanceExplode = (
+  delta: number,
+  layers: readonly WatchLayer[],
+  amount: number,
+  staged: boolean,
+  radial: number
+) => {
+  const time = (explodeAnimation.time += delta);
+  layers.forEach((layer, index) => {
+    let tween = explodeAnimation.layers.get(layer);
+    if (!tween) {
+      tween = createTween(amount);
+      explodeAnimation.layers.set(layer, tween);
+    }
+    const rising = amount > sample(tween, time);
+    const rank = rising ? layers.length - 1 - index : index;
+    retarget(tween, amount, time, staged ? rank * STAGGER : 0);
+  });
+  retarget(explodeAnimation.radial, radial, time, 0);
+};
+
+/** Current explode progress of a layer, 0 (stacked) to 1. */
+export const layerLift = (layer: WatchLayer) => {
+  const tween = explodeAnimation.layers.get(layer);
+  return tween ? sample(tween, explodeAnimation.time) : 0;
+};
+
+/** Current radial spread as a position scale, 1 when parts are in place. */
+export const radialScale = () =>
+  1 + RADIAL_SPREAD * sample(explodeAnimation.radial, explodeAnimation.time);
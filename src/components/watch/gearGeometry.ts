@@ -0,0 +1,37 @@
+import * as THREE from "three";
+import { ToothForm, gearOutline } from "@/calibre";
+
+/**
+ * Solid wheel or pinion for a tooth form, extruded to `thickness`, centred
+ * on its own mid-plane and turned to run on an arbor along y. The outline
+ * is the calibre's, so the pitch circle sits at module × count in scene
+ * units.
+ */
+export const createGearGeometry = (
+  form: ToothForm,
+  thickness: number,
+  holeRadius: number = form.module * form.count * 0.12
+): THREE.BufferGeometry => {
+  const { points } = gearOutline(form, holeRadius * 1.2);
+  const shape = new THREE.Shape(
+    points.map(([x, y]) => new THREE.Vector2(x, y))
+  );
+
+  if (holeRadius > 0) {
+    const holePath = new THREE.Path();
+    holePath.absarc(0, 0, holeRadius, 0, Math.PI * 2, true);
+    shape.holes.push(holePath);
+  }
+
+  const extrudeSettings: THREE.ExtrudeGeometryOptions = {
+    depth: thickness,
+    steps: 1,
+    bevelEnabled: false,
+  };
+
+  const geometry = new THREE.ExtrudeGeometry(shape, extrudeSettings);
+  geometry.translate(0, 0, -thickness / 2);
+  geometry.rotateX(Math.PI / 2);
+
+  return geometry;
+};
@@ -0,0 +1,194 @@
+import * as THREE from "three";
+import { GLTFLoader } from "three-stdlib";
+import { CalibreDefinition, calibreLayers } from "@/calibre";
+import {
+  ImportedModel,
+  WatchLayer,
+  useWatchStore,
+} from "@/state/useWatchStore";
+
+/**
+ * Loads movements modelled elsewhere so they can be taken apart with the
+ * same layer controls as the built-in calibres. Each top-level node of the
+ * file is assigned to a layer; nodes named after a layer are assigned to it
+ * straight away.
+ */
+
+/** Widest span of an imported model, matching the reference case. */
+const IMPORT_SPAN = 5.6;
+
+const normalise = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * The layer whose id or title appears in `name`, ignoring case, spacing and
+ * punctuation, so `Gear Train - centre wheel` and `gear_train.003` both land
+ * on the gear train. Plural ids also match their singular, as in `hourHand`.
+ */
+export const suggestLayer = (
+  name: string,
+  calibre: CalibreDefinition
+): WatchLayer | null => {
+  const key = normalise(name);
+  const match = calibreLayers(calibre).find((layer) =>
+    [layer.id, layer.title, layer.id.replace(/s$/, "")]
+      .map(normalise)
+      .some((term) => term.length > 0 && key.includes(term))
+  );
+  return match?.id ?? null;
+};
+
+/** A layer for every node of `model`, going by the node names. */
+export const suggestLayers = (
+  model: ImportedModel,
+  calibre: CalibreDefinition
+): Record<string, WatchLayer | null> =>
+  Object.fromEntries(
+    model.nodes.map((node) => [node.name, suggestLayer(node.name, calibre)])
+  );
+
+/**
+ * The nodes worth mapping: wrappers holding a single group, as most CAD
+ * exports add, are looked through to the assembly's own parts.
+ */
+const assemblyNodes = (scene: THREE.Object3D) => {
+  let root = scene;
+  while (
+    root.children.length === 1 &&
+    !(root.children[0] instanceof THREE.Mesh) &&
+    root.children[0].children.length > 0
+  ) {
+    root = root.children[0];
+  }
+  return root.children.filter((child) => !(child instanceof THREE.Camera));
+};
+
+/**
+ * Gives each mesh a material of its own, so a layer's opacity and
+ * highlight never reach nodes that share a material with another layer.
+ */
+const ownMaterials = (node: THREE.Object3D) => {
+  node.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return;
+    const copy = (material: THREE.Material) => {
+      const owned = material.clone();
+      owned.userData = {
+        ...owned.userData,
+        baseOpacity: owned.opacity,
+        baseTransparent: owned.transparent,
+      };
+      if (owned instanceof THREE.MeshStandardMaterial) {
+        owned.userData.baseEmissive = owned.emissive.getHex();
+        owned.userData.baseEmissiveIntensity = owned.emissiveIntensity;
+      }
+      return owned;
+    };
+    object.material = Array.isArray(object.material)
+      ? object.material.map(copy)
+      : copy(object.material);
+  });
+};
+
+const materialsOf = (nodes: THREE.Object3D[]) => {
+  const materials: THREE.Material[] = [];
+  nodes.forEach((node) =>
+    node.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        materials.push(
+          ...(Array.isArray(object.material)
+            ? object.material
+            : [object.material])
+        );
+      }
+    })
+  );
+  return materials;
+};
+
+/** Parses a GLB or self-contained glTF file into a model ready to show. */
+export const loadImportedModel = async (
+  file: File
+): Promise<ImportedModel> => {
+  const gltf = await new GLTFLoader().parseAsync(await file.arrayBuffer(), "");
+  const scene = gltf.scene;
+  scene.updateMatrixWorld(true);
+
+  const nodes = assemblyNodes(scene);
+  if (nodes.length === 0) {
+    throw new Error("The file holds no nodes to show.");
+  }
+  // Nodes are lifted out of their wrappers, keeping where they sat.
+  nodes.forEach((node, index) => {
+    node.matrixWorld.decompose(node.position, node.quaternion, node.scale);
+    node.removeFromParent();
+    node.name ||= `Node ${index + 1}`;
+    ownMaterials(node);
+  });
+
+  const box = new THREE.Box3();
+  nodes.forEach((node) => {
+    node.updateMatrixWorld(true);
+    box.expandByObject(node);
+  });
+  if (box.isEmpty()) {
+    throw new Error("The file holds no meshes to show.");
+  }
+  const size = box.getSize(new THREE.Vector3());
+  const centre = box.getCenter(new THREE.Vector3());
+  const scale = IMPORT_SPAN / Math.max(size.x, size.z, Number.EPSILON);
+
+  return {
+    fileName: file.name,
+    nodes,
+    scale,
+    offset: [-centre.x * scale, -box.min.y * scale, -centre.z * scale],
+  };
+};
+
+/** Loads `file` and shows it, each node on the layer its name suggests. */
+export const importModelFile = async (file: File) => {
+  const model = await loadImportedModel(file);
+  const { calibre, setImportedModel } = useWatchStore.getState();
+  setImportedModel(model, suggestLayers(model, calibre));
+};
+
+/**
+ * Applies a layer's opacity to imported nodes and tints them in the layer's
+ * colour while it is highlighted. Pass a null highlight to clear the tint.
+ */
+export const styleImportedNodes = (
+  nodes: THREE.Object3D[],
+  opacity: number,
+  highlight: string | null
+) => {
+  materialsOf(nodes).forEach((material) => {
+    const base = material.userData.baseOpacity as number;
+    material.opacity = base * opacity;
+    material.transparent =
+      material.opacity < 1 || (material.userData.baseTransparent as boolean);
+    if (!(material instanceof THREE.MeshStandardMaterial)) return;
+    if (highlight) {
+      material.emissive.set(highlight);
+      material.emissiveIntensity = 0.35;
+    } else {
+      material.emissive.setHex(material.userData.baseEmissive as number);
+      material.emissiveIntensity = material.userData
+        .baseEmissiveIntensity as number;
+    }
+  });
+};
+
+/** Frees the GPU resources of a model that is no longer shown. */
+export const disposeImportedModel = (model: ImportedModel) => {
+  materialsOf(model.nodes).forEach((material) => {
+    Object.values(material).forEach((value) => {
+      if (value instanceof THREE.Texture) value.dispose();
+    });
+    material.dispose();
+  });
+  model.nodes.forEach((node) =>
+    node.traverse((object) => {
+      if (object instanceof THREE.Mesh) object.geometry.dispose();
+    })
+  );
+};
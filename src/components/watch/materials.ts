@@ -0,0 +1,35 @@
+import * as THREE from "three";
+import { GearMaterial } from "@/calibre";
+
+/**
+ * Finishes for the named gear materials. Each is tagged with its key so
+ * exporters can tell palette surfaces from one-off finishes.
+ */
+export const materialPalette: Record<
+  GearMaterial,
+  THREE.MeshPhysicalMaterialParameters
+> = {
+  brass: {
+    color: new THREE.Color("#f3c86b"),
+    metalness: 0.9,
+    roughness: 0.25,
+    userData: { palette: "brass" },
+  },
+  steel: {
+    color: new THREE.Color("#d8d8dd"),
+    metalness: 1,
+    roughness: 0.18,
+    userData: { palette: "steel" },
+  },
+  ruby: {
+    color: new THREE.Color("#d14b64"),
+    metalness: 0,
+    roughness: 0.1,
+    transmission: 0.8,
+    opacity: 0.8,
+    transparent: true,
+    emissive: new THREE.Color("#821a2e"),
+    emissiveIntensity: 0.4,
+    userData: { palette: "ruby" },
+  },
+};
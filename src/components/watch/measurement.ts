@@ -0,0 +1,209 @@
+import * as THREE from "three";
+import {
+  CalibreDefinition,
+  calibreLayer,
+  partAxis,
+  partMeshing,
+  toothedPartInfo,
+} from "@/calibre";
+import { radialScale } from "@/components/watch/explodeAnimation";
+import { MeasurePick, Measurement, WatchLayer } from "@/state/useWatchStore";
+
+/** A point in a layer's frame that dimension graphics are anchored to. */
+export interface MeasureAnchor {
+  layer: WatchLayer;
+  point: [number, number, number];
+}
+
+export interface MeasurementReadout {
+  title: string;
+  value: string;
+  detail?: string;
+  /** Dimension line, drawn through the anchors in order. */
+  path: MeasureAnchor[];
+  /** The label sits at the average of these anchors. */
+  label: MeasureAnchor[];
+}
+
+const CIRCLE_SEGMENTS = 64;
+
+export const millimetresPerUnit = (
+  calibre: CalibreDefinition,
+  override: number | null
+) => override ?? calibre.millimetresPerUnit;
+
+export const formatMillimetres = (value: number) => `${value.toFixed(2)} mm`;
+
+const formatSigned = (value: number) =>
+  `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+
+/** Where a pick sits in the movement with every layer stacked. */
+const assembled = (calibre: CalibreDefinition, pick: MeasurePick) => {
+  const baseHeight = calibreLayer(calibre, pick.layer)?.baseHeight ?? 0;
+  return new THREE.Vector3(
+    pick.point[0],
+    pick.point[1] + baseHeight,
+    pick.point[2]
+  );
+};
+
+const anchor = (
+  pick: MeasurePick,
+  point: [number, number, number] = pick.point
+): MeasureAnchor => ({ layer: pick.layer, point });
+
+/** On a part's axis, level with where it was picked. */
+const axisAnchor = (calibre: CalibreDefinition, pick: MeasurePick) => {
+  const [x, z] = partAxis(calibre, pick.part) ?? [
+    pick.point[0],
+    pick.point[2],
+  ];
+  return anchor(pick, [x, pick.point[1], z]);
+};
+
+const distanceReadout = (
+  calibre: CalibreDefinition,
+  [from, to]: MeasurePick[],
+  scale: number
+): MeasurementReadout => {
+  const span = assembled(calibre, to).sub(assembled(calibre, from));
+  return {
+    title: "Distance",
+    value: formatMillimetres(span.length() * scale),
+    detail: `In plane ${formatMillimetres(
+      Math.hypot(span.x, span.z) * scale
+    )} · height ${formatMillimetres(Math.abs(span.y) * scale)}`,
+    path: [anchor(from), anchor(to)],
+    label: [anchor(from), anchor(to)],
+  };
+};
+
+const centresReadout = (
+  calibre: CalibreDefinition,
+  [from, to]: MeasurePick[],
+  scale: number
+): MeasurementReadout => {
+  const a = axisAnchor(calibre, from);
+  const b = axisAnchor(calibre, to);
+  const centres =
+    Math.hypot(a.point[0] - b.point[0], a.point[2] - b.point[2]) * scale;
+  const meshes = partMeshing(calibre, from.part).some(
+    (entry) => entry.part.id === to.part
+  );
+  const wheelA = toothedPartInfo(calibre, from.part);
+  const wheelB = toothedPartInfo(calibre, to.part);
+  const nominal =
+    meshes && wheelA && wheelB
+      ? ((wheelA.pitchDiameter + wheelB.pitchDiameter) / 2) * scale
+      : undefined;
+  return {
+    title: "Centre Distance",
+    value: formatMillimetres(centres),
+    detail:
+      nominal === undefined
+        ? undefined
+        : `Nominal ${formatMillimetres(nominal)} (${formatSigned(
+            centres - nominal
+          )})`,
+    path: [a, b],
+    label: [a, b],
+  };
+};
+
+const pitchReadout = (
+  calibre: CalibreDefinition,
+  [pick]: MeasurePick[],
+  scale: number
+): MeasurementReadout => {
+  const centre = axisAnchor(calibre, pick);
+  const wheel = toothedPartInfo(calibre, pick.part);
+  const radius = (wheel?.pitchDiameter ?? 0) / 2;
+  const [x, y, z] = centre.point;
+  // The circle closes at +x and then crosses to -x as the diameter.
+  const circle = Array.from({ length: CIRCLE_SEGMENTS + 1 }, (_, index) => {
+    const angle = (index / CIRCLE_SEGMENTS) * Math.PI * 2;
+    return anchor(pick, [
+      x + Math.cos(angle) * radius,
+      y,
+      z + Math.sin(angle) * radius,
+    ]);
+  });
+  return {
+    title: "Pitch Circle",
+    value: `Ø ${formatMillimetres(radius * 2 * scale)}`,
+    detail: wheel
+      ? `z ${wheel.count} · m ${(wheel.module * scale).toFixed(3)} mm`
+      : undefined,
+    path: [...circle, anchor(pick, [x - radius, y, z])],
+    label: [anchor(pick, [x + radius, y, z])],
+  };
+};
+
+const angleReadout = (
+  calibre: CalibreDefinition,
+  [from, vertex, to]: MeasurePick[]
+): MeasurementReadout => {
+  const corner = assembled(calibre, vertex);
+  const armA = assembled(calibre, from).sub(corner);
+  const armB = assembled(calibre, to).sub(corner);
+  const degrees =
+    armA.lengthSq() > 0 && armB.lengthSq() > 0
+      ? THREE.MathUtils.radToDeg(armA.angleTo(armB))
+      : 0;
+  return {
+    title: "Angle",
+    value: `${degrees.toFixed(1)}°`,
+    path: [anchor(from), anchor(vertex), anchor(to)],
+    label: [anchor(vertex)],
+  };
+};
+
+/** Value, label and dimension line for a finished measurement. */
+export const measurementReadout = (
+  calibre: CalibreDefinition,
+  measurement: Measurement,
+  scale: number
+): MeasurementReadout => {
+  switch (measurement.kind) {
+    case "distance":
+      return distanceReadout(calibre, measurement.picks, scale);
+    case "centres":
+      return centresReadout(calibre, measurement.picks, scale);
+    case "pitch":
+      return pitchReadout(calibre, measurement.picks, scale);
+    case "angle":
+      return angleReadout(calibre, measurement.picks);
+  }
+};
+
+/**
+ * Turns a hit on `object` into a pick in its layer's frame. Parts pushed out
+ * by the radial spread are taken back to where they sit when assembled.
+ */
+export const measurePickAt = (
+  object: THREE.Object3D,
+  point: THREE.Vector3,
+  part: string
+): MeasurePick | null => {
+  let spread: THREE.Object3D | undefined;
+  let frame: THREE.Object3D | null = object;
+  while (frame && !frame.userData.layer) {
+    if (!spread && frame.userData.spreadOrigin) spread = frame;
+    frame = frame.parent;
+  }
+  if (!frame) return null;
+
+  const local = frame.worldToLocal(point.clone());
+  if (spread) {
+    const [x, , z] = spread.userData.spreadOrigin as [number, number, number];
+    const excess = radialScale() - 1;
+    local.x -= x * excess;
+    local.z -= z * excess;
+  }
+  const round = (value: number) => Math.round(value * 1e4) / 1e4;
+  return {
+    part,
+    layer: frame.userData.layer as WatchLayer,
+    point: [round(local.x), round(local.y), round(local.z)],
+  };
+};
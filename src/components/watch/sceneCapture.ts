@@ -0,0 +1,138 @@
+import * as THREE from "three";
+import { RootState } from "@react-three/fiber";
+import { downloadBlob } from "@/components/watch/download";
+import { CaptureRequest } from "@/state/useWatchStore";
+
+/**
+ * Stills and video straight from the renderer, at a size of their own.
+ * The drawing buffer is resized for the capture while the canvas keeps its
+ * place on the page, so nothing laid over the scene ends up in the output.
+ */
+
+export const DEFAULT_FRAME_RATE = 30;
+
+export const DEFAULT_TURNTABLE_SECONDS = 12;
+
+/** Bits per pixel per frame asked of the video encoder. */
+const VIDEO_BITS_PER_PIXEL = 0.1;
+
+const videoTypes = [
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp8",
+  "video/webm",
+];
+
+/** The requested size, shrunk to fit what the GPU can draw. */
+const captureSize = (gl: THREE.WebGLRenderer, request: CaptureRequest) => {
+  const limit = gl.capabilities.maxTextureSize;
+  const shrink = Math.min(1, limit / Math.max(request.width, request.height));
+  return {
+    width: Math.max(1, Math.floor(request.width * shrink)),
+    height: Math.max(1, Math.floor(request.height * shrink)),
+  };
+};
+
+/** Draws at `width` × `height` until the returned function is called. */
+const resizeDrawing = (three: RootState, width: number, height: number) => {
+  const { gl, camera } = three;
+  const pixelRatio = gl.getPixelRatio();
+  const size = gl.getSize(new THREE.Vector2());
+  const perspective =
+    camera instanceof THREE.PerspectiveCamera ? camera : null;
+  const aspect = perspective?.aspect ?? 1;
+
+  gl.setPixelRatio(1);
+  gl.setSize(width, height, false);
+  if (perspective) {
+    perspective.aspect = width / height;
+    perspective.updateProjectionMatrix();
+  }
+
+  return () => {
+    gl.setPixelRatio(pixelRatio);
+    gl.setSize(size.x, size.y, false);
+    if (perspective) {
+      perspective.aspect = aspect;
+      perspective.updateProjectionMatrix();
+    }
+  };
+};
+
+/** Renders one frame at the requested size and saves it as a PNG. */
+export const captureStill = async (
+  three: RootState,
+  request: CaptureRequest,
+  fileName: string
+) => {
+  const { gl, scene, camera } = three;
+  const { width, height } = captureSize(gl, request);
+  const background = scene.background;
+  const clearAlpha = gl.getClearAlpha();
+  const restore = resizeDrawing(three, width, height);
+  let image: Promise<Blob | null>;
+  try {
+    if (request.transparent) {
+      scene.background = null;
+      gl.setClearAlpha(0);
+    }
+    gl.render(scene, camera);
+    // The drawing buffer is copied here, before it is resized back.
+    image = new Promise((resolve) => gl.domElement.toBlob(resolve));
+  } finally {
+    scene.background = background;
+    gl.setClearAlpha(clearAlpha);
+    restore();
+  }
+  const blob = await image;
+  if (!blob) throw new Error("The canvas could not be read.");
+  downloadBlob(blob, fileName);
+};
+
+export interface Recording {
+  /** Ends the recording and saves what was captured. */
+  stop: () => void;
+}
+
+/**
+ * Records the canvas to WebM at the requested size and frame rate until
+ * stopped. The browser takes frames at that rate from whatever is drawn.
+ */
+export const startRecording = (
+  three: RootState,
+  request: CaptureRequest,
+  fileName: string
+): Recording => {
+  const mimeType =
+    typeof MediaRecorder === "undefined"
+      ? undefined
+      : videoTypes.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error("This browser cannot record WebM video.");
+  }
+  const frameRate = request.frameRate ?? DEFAULT_FRAME_RATE;
+  const { width, height } = captureSize(three.gl, request);
+  const restore = resizeDrawing(three, width, height);
+  const stream = three.gl.domElement.captureStream(frameRate);
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: Math.round(
+      width * height * frameRate * VIDEO_BITS_PER_PIXEL
+    ),
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.onstop = () => {
+    stream.getTracks().forEach((track) => track.stop());
+    downloadBlob(new Blob(chunks, { type: "video/webm" }), fileName);
+  };
+  recorder.start();
+
+  return {
+    stop: () => {
+      if (recorder.state !== "inactive") recorder.stop();
+      restore();
+    },
+  };
+};
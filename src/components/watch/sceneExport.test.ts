@@ -0,0 +1,85 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import { gearOutline, referenceCalibre, toothedPartInfo } from "@/calibre";
+import { createGearGeometry } from "@/components/watch/gearGeometry";
+import {
+  buildExportScene,
+  fabricationOutput,
+} from "@/components/watch/sceneExport";
+import { SceneExportRequest } from "@/state/useWatchStore";
+
+const escapeWheel = referenceCalibre.escapement.escapeWheel;
+const info = toothedPartInfo(referenceCalibre, escapeWheel)!;
+
+/** A scene holding just the escape wheel, the way the viewer draws it. */
+const sceneWithWheel = () => {
+  const scene = new THREE.Group();
+  const layer = new THREE.Group();
+  layer.userData = { layer: "escapement" };
+  const wheel = new THREE.Mesh(
+    createGearGeometry(info, info.thickness),
+    new THREE.MeshStandardMaterial()
+  );
+  wheel.userData = { partId: escapeWheel };
+  wheel.position.set(1, 0.5, -2);
+  layer.add(wheel);
+  scene.add(layer);
+  scene.updateMatrixWorld(true);
+  return scene;
+};
+
+/**
+ * Pitch diameter of the written wheel: its tip circle measured about the
+ * arbor, wherever the file puts it, and brought down to the pitch circle
+ * by its tooth form. Positions are single precision, hence the tolerance.
+ */
+const exportedPitchDiameter = (request: SceneExportRequest) => {
+  const { root } = buildExportScene(
+    sceneWithWheel(),
+    referenceCalibre,
+    request
+  );
+  const { object } = fabricationOutput(
+    root,
+    referenceCalibre.millimetresPerUnit,
+    request
+  );
+  const axis = new THREE.Vector3(0, 1, 0).applyQuaternion(root.quaternion);
+  const vertex = new THREE.Vector3();
+  let tipRadius = 0;
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const { position } = (child.geometry as THREE.BufferGeometry).attributes;
+    for (let index = 0; index < position.count; index += 1) {
+      vertex.fromBufferAttribute(position, index);
+      vertex.applyMatrix4(child.matrixWorld);
+      vertex.addScaledVector(axis, -vertex.dot(axis));
+      tipRadius = Math.max(tipRadius, vertex.length());
+    }
+  });
+  const outline = gearOutline(info);
+  return (2 * tipRadius * outline.pitchRadius) / outline.tipRadius;
+};
+
+describe("fabricationOutput", () => {
+  const trueSize =
+    info.module * info.count * referenceCalibre.millimetresPerUnit;
+
+  it("writes a lone wheel at its pitch diameter in millimetres", () => {
+    expect(
+      exportedPitchDiameter({ format: "obj", part: escapeWheel })
+    ).toBeCloseTo(trueSize, 4);
+  });
+
+  it("keeps the pitch diameter when turned z-up and welded for STL", () => {
+    expect(
+      exportedPitchDiameter({ format: "stl", part: escapeWheel, merge: true })
+    ).toBeCloseTo(trueSize, 4);
+  });
+
+  it("multiplies the true size by the print scale", () => {
+    expect(
+      exportedPitchDiameter({ format: "stl", part: escapeWheel, scale: 5 })
+    ).toBeCloseTo(trueSize * 5, 4);
+  });
+});
@@ -0,0 +1,262 @@
+import * as THREE from "three";
+import {
+  GLTFExporter,
+  OBJExporter,
+  STLExporter,
+  mergeBufferGeometries,
+} from "three-stdlib";
+import {
+  CalibreDefinition,
+  GearMaterial,
+  calibreLayer,
+  findCalibrePart,
+} from "@/calibre";
+import { downloadBlob } from "@/components/watch/download";
+import { materialPalette } from "@/components/watch/materials";
+import { SceneExportRequest, WatchLayer } from "@/state/useWatchStore";
+
+/**
+ * Copies the movement out of the scene as it stands, for use in other tools.
+ * Only lit solids are taken, so outlines, labels, section helpers and
+ * dimension lines stay behind. Layers keep their current lift and spread
+ * and are placed in the movement's own frame, whatever position it is held
+ * in for timing.
+ *
+ * glTF keeps scene units for viewing. STL and OBJ are for fabrication and
+ * are written in millimetres at the calibre's true size, so a wheel's module
+ * in millimetres is its module in scene units times the millimetres per
+ * unit, and times the print scale for enlarged models.
+ */
+
+type MaterialCache = Map<string, THREE.MeshPhysicalMaterial>;
+
+/**
+ * Palette surfaces are exported with their palette finish, free of the
+ * opacity and highlight the view puts on them. Other finishes keep their
+ * colour, metalness, roughness and transparency.
+ */
+const exportMaterial = (
+  material: THREE.MeshStandardMaterial,
+  cache: MaterialCache
+) => {
+  const palette = material.userData.palette as GearMaterial | undefined;
+  const transmission =
+    material instanceof THREE.MeshPhysicalMaterial ? material.transmission : 0;
+  const key =
+    palette ??
+    [
+      material.color.getHexString(),
+      material.metalness,
+      material.roughness,
+      transmission,
+      material.opacity,
+    ].join(":");
+  let copy = cache.get(key);
+  if (!copy) {
+    copy = palette
+      ? new THREE.MeshPhysicalMaterial(materialPalette[palette])
+      : new THREE.MeshPhysicalMaterial({
+          color: material.color,
+          metalness: material.metalness,
+          roughness: material.roughness,
+          transmission,
+          opacity: material.opacity,
+          transparent: material.transparent,
+        });
+    copy.name = palette ?? `finish-${material.color.getHexString()}`;
+    cache.set(key, copy);
+  }
+  return copy;
+};
+
+const copyObject = (
+  source: THREE.Object3D,
+  name: string,
+  calibre: CalibreDefinition,
+  materials: MaterialCache
+): THREE.Object3D | null => {
+  if (!source.visible || source.userData.sectionHelper) return null;
+  const part = source.userData.partId
+    ? findCalibrePart(calibre, source.userData.partId as string)
+    : undefined;
+  const ownName = part?.name ?? (source.name || name);
+
+  let copy: THREE.Object3D;
+  if (source instanceof THREE.Mesh) {
+    const material: THREE.Material = Array.isArray(source.material)
+      ? source.material[0]
+      : source.material;
+    if (!(material instanceof THREE.MeshStandardMaterial)) return null;
+    copy = new THREE.Mesh(source.geometry, exportMaterial(material, materials));
+  } else {
+    copy = new THREE.Group();
+  }
+  source.children.forEach((child) => {
+    const childCopy = copyObject(child, ownName, calibre, materials);
+    if (childCopy) copy.add(childCopy);
+  });
+  if (!(copy instanceof THREE.Mesh) && copy.children.length === 0) {
+    return null;
+  }
+
+  copy.name = ownName;
+  copy.position.copy(source.position);
+  copy.quaternion.copy(source.quaternion);
+  copy.scale.copy(source.scale);
+  if (part) copy.userData = { partId: part.id, kind: part.kind };
+  return copy;
+};
+
+const findPart = (scene: THREE.Object3D, partId: string) => {
+  let found: THREE.Object3D | undefined;
+  scene.traverse((object) => {
+    if (!found && object.userData.partId === partId) found = object;
+  });
+  return found;
+};
+
+/**
+ * One node per shown layer, named after it, holding its parts. A request
+ * for a single part yields just that part, moved to the origin.
+ */
+export const buildExportScene = (
+  scene: THREE.Object3D,
+  calibre: CalibreDefinition,
+  request: SceneExportRequest
+) => {
+  const root = new THREE.Group();
+  root.name = calibre.name;
+  root.userData = {
+    calibre: calibre.id,
+    millimetresPerUnit: calibre.millimetresPerUnit,
+  };
+  const materials: MaterialCache = new Map();
+
+  if (request.part) {
+    const source = findPart(scene, request.part);
+    const copy = source && copyObject(source, "", calibre, materials);
+    if (copy) {
+      copy.position.set(0, 0, 0);
+      root.add(copy);
+    }
+    return { root, materials: [...materials.values()] };
+  }
+
+  const seen = new Set<WatchLayer>();
+  scene.traverse((object) => {
+    const layer = object.userData.layer as WatchLayer | undefined;
+    if (!layer || seen.has(layer)) return;
+    seen.add(layer);
+    if (request.layer && request.layer !== layer) return;
+    const title = calibreLayer(calibre, layer)?.title ?? layer;
+    const copy = copyObject(object, title, calibre, materials);
+    if (!copy) return;
+    copy.userData = { layer };
+    root.add(copy);
+  });
+  return { root, materials: [...materials.values()] };
+};
+
+/** Bakes every mesh under `root` into one geometry in root's frame. */
+const mergeMeshes = (root: THREE.Object3D) => {
+  const geometries: THREE.BufferGeometry[] = [];
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return;
+    const source = object.geometry as THREE.BufferGeometry;
+    const geometry = source.index ? source.toNonIndexed() : source.clone();
+    // Merging needs matching attributes, and fabrication only needs these.
+    Object.keys(geometry.attributes).forEach((name) => {
+      if (name !== "position" && name !== "normal") {
+        geometry.deleteAttribute(name);
+      }
+    });
+    if (!geometry.attributes.normal) geometry.computeVertexNormals();
+    geometry.clearGroups();
+    geometries.push(geometry.applyMatrix4(object.matrixWorld));
+  });
+  const merged =
+    geometries.length > 0 ? mergeBufferGeometries(geometries) : null;
+  geometries.forEach((geometry) => geometry.dispose());
+  return merged;
+};
+
+/**
+ * Scales a copy to millimetres for STL or OBJ, and welds it when asked.
+ * STL is turned z-up, the way slicers expect to find it.
+ */
+export const fabricationOutput = (
+  root: THREE.Group,
+  millimetresPerUnit: number,
+  request: SceneExportRequest
+) => {
+  root.scale.setScalar(millimetresPerUnit * (request.scale ?? 1));
+  if (request.format === "stl") root.rotation.x = Math.PI / 2;
+  root.updateMatrixWorld(true);
+  if (!request.merge) return { object: root as THREE.Object3D };
+
+  const merged = mergeMeshes(root);
+  const mesh = new THREE.Mesh(merged ?? new THREE.BufferGeometry());
+  mesh.name = root.children[0]?.name ?? root.name;
+  mesh.updateMatrixWorld(true);
+  return { object: mesh as THREE.Object3D, geometry: mesh.geometry };
+};
+
+const exportFileName = (
+  calibre: CalibreDefinition,
+  request: SceneExportRequest
+) =>
+  `${[calibre.id, request.part ?? request.layer].filter(Boolean).join("-")}.${
+    request.format
+  }`;
+
+/**
+ * Writes the requested export and hands it to the browser as a download.
+ * `millimetresPerUnit` sizes the STL and OBJ output.
+ */
+export const exportScene = async (
+  scene: THREE.Object3D,
+  calibre: CalibreDefinition,
+  request: SceneExportRequest,
+  millimetresPerUnit = calibre.millimetresPerUnit
+) => {
+  const { root, materials } = buildExportScene(scene, calibre, request);
+  const fileName = exportFileName(calibre, request);
+  try {
+    if (request.format === "glb" || request.format === "gltf") {
+      const result = await new GLTFExporter().parseAsync(root, {
+        binary: request.format === "glb",
+      });
+      downloadBlob(
+        result instanceof ArrayBuffer
+          ? new Blob([result], { type: "model/gltf-binary" })
+          : new Blob([JSON.stringify(result)], { type: "model/gltf+json" }),
+        fileName
+      );
+      return;
+    }
+
+    const { object, geometry } = fabricationOutput(
+      root,
+      millimetresPerUnit,
+      request
+    );
+    try {
+      downloadBlob(
+        request.format === "stl"
+          ? new Blob(
+              [
+                new STLExporter().parse(object, { binary: true })
+                  .buffer as ArrayBuffer,
+              ],
+              { type: "model/stl" }
+            )
+          : new Blob([new OBJExporter().parse(object)], { type: "model/obj" }),
+        fileName
+      );
+    } finally {
+      geometry?.dispose();
+    }
+  } finally {
+    materials.forEach((material) => material.dispose());
+  }
+};
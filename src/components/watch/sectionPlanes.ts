@@ -0,0 +1,97 @@
+import * as THREE from "three";
+import {
+  SectionPlane,
+  WatchLayer,
+  useWatchStore,
+} from "@/state/useWatchStore";
+
+/**
+ * Live clipping planes behind the section tool. Materials keep references to
+ * these `THREE.Plane`s, so dragging a gizmo moves the cut straight away and
+ * the store is only written once the drag ends.
+ */
+export const sectionClipping = {
+  /**
+   * Enabled planes in draw order. Replaced rather than mutated when the set
+   * changes, so materials can tell a new set by identity.
+   */
+  planes: [] as THREE.Plane[],
+  byId: new Map<string, THREE.Plane>(),
+  gizmos: new Map<string, THREE.Matrix4>(),
+};
+
+const FORWARD = new THREE.Vector3(0, 0, 1);
+const position = new THREE.Vector3();
+const normal = new THREE.Vector3();
+const rotation = new THREE.Quaternion();
+const unitScale = new THREE.Vector3(1, 1, 1);
+
+/** Brings the live planes in line with the store. */
+export const syncSectionPlanes = (planes: SectionPlane[]) => {
+  const enabled = planes.filter((plane) => plane.enabled);
+  enabled.forEach((plane) => {
+    const live = sectionClipping.byId.get(plane.id) ?? new THREE.Plane();
+    live.normal.set(...plane.normal);
+    live.constant = -plane.offset;
+    sectionClipping.byId.set(plane.id, live);
+  });
+  sectionClipping.byId.forEach((_, id) => {
+    if (!enabled.some((plane) => plane.id === id)) {
+      sectionClipping.byId.delete(id);
+    }
+  });
+  sectionClipping.gizmos.forEach((_, id) => {
+    if (!planes.some((plane) => plane.id === id)) {
+      sectionClipping.gizmos.delete(id);
+    }
+  });
+
+  const next = enabled.map((plane) => sectionClipping.byId.get(plane.id)!);
+  const current = sectionClipping.planes;
+  if (
+    next.length !== current.length ||
+    next.some((plane, index) => plane !== current[index])
+  ) {
+    sectionClipping.planes = next;
+  }
+};
+
+/** World matrix of a plane's drag handle: on the plane, facing along it. */
+export const sectionGizmoMatrix = (id: string) => {
+  let matrix = sectionClipping.gizmos.get(id);
+  if (!matrix) {
+    matrix = new THREE.Matrix4();
+    sectionClipping.gizmos.set(id, matrix);
+  }
+  return matrix;
+};
+
+/**
+ * Turns a plane's handle to face along its normal, sliding it onto the plane
+ * by the shortest way so it stays where the user left it.
+ */
+export const placeSectionGizmo = (plane: SectionPlane) => {
+  const matrix = sectionGizmoMatrix(plane.id);
+  normal.set(...plane.normal);
+  position.setFromMatrixPosition(matrix);
+  position.addScaledVector(normal, plane.offset - normal.dot(position));
+  rotation.setFromUnitVectors(FORWARD, normal);
+  matrix.compose(position, rotation, unitScale);
+};
+
+/** Reads the plane a dragged handle now describes into its live plane. */
+export const dragSectionPlane = (id: string, matrix: THREE.Matrix4) => {
+  const live = sectionClipping.byId.get(id);
+  if (!live) return;
+  normal.setFromMatrixColumn(matrix, 2).normalize();
+  position.setFromMatrixPosition(matrix);
+  live.setFromNormalAndCoplanarPoint(normal, position);
+};
+
+/**
+ * True when `point` lies in the part of `layer` the section cuts away, so a
+ * pointer over empty space there reaches whatever is behind it.
+ */
+export const isSectionedAway = (point: THREE.Vector3, layer: WatchLayer) =>
+  useWatchStore.getState().sectionLayers[layer] &&
+  sectionClipping.planes.some((plane) => plane.distanceToPoint(point) < 0);
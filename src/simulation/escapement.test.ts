@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  EscapementParameters,
+  advanceOscillation,
+  beatCentre,
+  escapementPose,
+  liftDuration,
+  oscillationFrequency,
+} from "@/simulation/escapement";
+
+const params: EscapementParameters = {
+  beatsPerHour: 28800,
+  frequency: 4,
+  amplitude: 280,
+  liftAngle: 52,
+  forkAngle: 10,
+  beatOffset: 0,
+  escapeTeeth: 15,
+};
+
+describe("oscillationFrequency", () => {
+  it("turns beats per hour into hertz", () => {
+    expect(oscillationFrequency(28800)).toBe(4);
+    expect(oscillationFrequency(21600)).toBe(3);
+  });
+});
+
+describe("advanceOscillation", () => {
+  it("advances a full cycle per period", () => {
+    expect(advanceOscillation(0, 0.25, 4)).toBeCloseTo(Math.PI * 2, 12);
+  });
+});
+
+describe("beatCentre", () => {
+  it("falls on the dead point when in beat", () => {
+    expect(beatCentre(3, params)).toBeCloseTo(3 * Math.PI, 12);
+  });
+
+  it("alternates either side of the dead point when out of beat", () => {
+    const skewed = { ...params, beatOffset: 2 };
+    const even = beatCentre(2, skewed) - 2 * Math.PI;
+    const odd = beatCentre(3, skewed) - 3 * Math.PI;
+    expect(even).toBeGreaterThan(0);
+    expect(odd).toBeCloseTo(-even, 12);
+  });
+});
+
+describe("liftDuration", () => {
+  it("is zero without amplitude", () => {
+    expect(liftDuration({ ...params, amplitude: 0 })).toBe(0);
+  });
+
+  it("shortens as the amplitude grows", () => {
+    expect(liftDuration({ ...params, amplitude: 300 })).toBeLessThan(
+      liftDuration({ ...params, amplitude: 200 })
+    );
+  });
+});
+
+describe("escapementPose", () => {
+  const halfPitch = Math.PI / params.escapeTeeth;
+
+  it("is locked away from the dead points", () => {
+    const pose = escapementPose(Math.PI / 2, params);
+    expect(pose.phase).toBe("lock");
+    expect(pose.forkAngle).toBeCloseTo(5 * (Math.PI / 180), 12);
+  });
+
+  it("unlocks, gives impulse and drops through the lift arc", () => {
+    const halfLift = Math.asin(26 / 280);
+    const phaseAt = (fraction: number) =>
+      escapementPose(-halfLift + 2 * halfLift * fraction, params).phase;
+    expect(phaseAt(0.1)).toBe("unlock");
+    expect(phaseAt(0.5)).toBe("impulse");
+    expect(phaseAt(0.95)).toBe("drop");
+  });
+
+  it("advances the escape wheel half a tooth per beat", () => {
+    const before = escapementPose(Math.PI / 2, params);
+    const after = escapementPose((3 * Math.PI) / 2, params);
+    expect(after.beat - before.beat).toBe(1);
+    expect(after.escapeAngle - before.escapeAngle).toBeCloseTo(halfPitch, 12);
+  });
+
+  it("counts an hour of train time for an hour of beats", () => {
+    const pose = escapementPose(28800 * Math.PI - Math.PI / 2, params);
+    expect(pose.trainHours).toBeCloseTo(1, 9);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Swiss lever escapement kinematics. The balance is treated as a harmonic
+ * oscillator; everything else — the fork's swing between the banking pins and
+ * the escape wheel's stepwise advance — is derived from where the balance is
+ * in its swing relative to the lift angle.
+ */
+
+export type EscapementPhase = "lock" | "unlock" | "impulse" | "drop";
+
+export interface EscapementParameters {
+  /** Beats (half oscillations) per hour, e.g. 28,800 vph. */
+  beatsPerHour: number;
+  /**
+   * Actual balance frequency in Hz. Off nominal the train still counts one
+   * nominal beat per swing, which is what makes the watch gain or lose.
+   */
+  frequency: number;
+  /** Balance amplitude in degrees either side of the dead point. */
+  amplitude: number;
+  /** Balance arc over which the roller jewel is engaged with the fork. */
+  liftAngle: number;
+  /** Fork swing in degrees from one banking pin to the other. */
+  forkAngle: number;
+  /**
+   * Angle, in degrees, between the balance's rest position and the line of
+   * centres. Anything but zero puts the escapement out of beat.
+   */
+  beatOffset: number;
+  escapeTeeth: number;
+}
+
+export interface EscapementPose {
+  phase: EscapementPhase;
+  /** Beats completed since the simulation started. */
+  beat: number;
+  balanceAngle: number;
+  forkAngle: number;
+  /** Escape wheel rotation in radians, increasing in its driven direction. */
+  escapeAngle: number;
+  /** Time shown by the train, in hours, as counted by the escapement. */
+  trainHours: number;
+}
+
+/** Fractions of the lift arc spent unlocking and then receiving impulse. */
+const UNLOCK_END = 0.2;
+const IMPULSE_END = 0.85;
+/** Escape wheel recoil during unlocking, as a fraction of the tooth pitch. */
+const RECOIL = 0.03;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const oscillationFrequency = (beatsPerHour: number) =>
+  beatsPerHour / 7200;
+
+/** Advances the balance phase by `seconds` of simulated time. */
+export const advanceOscillation = (
+  oscillation: number,
+  seconds: number,
+  frequency: number
+) => oscillation + Math.PI * 2 * frequency * seconds;
+
+/**
+ * Balance phase at which beat `beat` is centred. With the escapement out of
+ * beat the centre sits either side of the dead point on alternate beats.
+ */
+export const beatCentre = (beat: number, params: EscapementParameters) => {
+  const amplitude = toRadians(params.amplitude);
+  const skew =
+    amplitude > 0
+      ? Math.asin(Math.min(1, toRadians(params.beatOffset) / amplitude))
+      : 0;
+  return beat * Math.PI + (beat % 2 === 0 ? skew : -skew);
+};
+
+/** Time, in seconds, the roller jewel spends engaged with the fork. */
+export const liftDuration = (params: EscapementParameters) => {
+  const amplitude = toRadians(params.amplitude);
+  if (amplitude <= 0) return 0;
+  const halfLift = Math.asin(
+    Math.min(1, toRadians(params.liftAngle) / 2 / amplitude)
+  );
+  return halfLift / (Math.PI * params.frequency);
+};
+
+/**
+ * Resolves the escapement at a given balance phase. Beats fall on the dead
+ * point crossings (phase = kπ); the lift arc straddles each crossing and is
+ * split into unlock, impulse and drop, with the escape wheel locked for the
+ * rest of the swing.
+ */
+export const escapementPose = (
+  oscillation: number,
+  params: EscapementParameters
+): EscapementPose => {
+  const amplitude = toRadians(params.amplitude);
+  const halfFork = toRadians(params.forkAngle) / 2;
+  const halfPitch = Math.PI / params.escapeTeeth;
+  const halfLift =
+    amplitude > 0
+      ? Math.asin(Math.min(1, toRadians(params.liftAngle) / 2 / amplitude))
+      : 0;
+
+  const beat = Math.floor(oscillation / Math.PI + 0.5);
+  const offset = oscillation - beatCentre(beat, params);
+  const side = beat % 2 === 0 ? -1 : 1;
+
+  let phase: EscapementPhase = "lock";
+  let steps = beat;
+  let escapeTravel = 0;
+  let forkAngle = side * halfFork;
+
+  if (offset > halfLift) {
+    steps = beat + 1;
+    forkAngle = -side * halfFork;
+  } else if (offset >= -halfLift && halfLift > 0) {
+    const progress = (offset + halfLift) / (2 * halfLift);
+    const swing = Math.min(1, progress / IMPULSE_END);
+    forkAngle = side * halfFork * (1 - 2 * swing);
+
+    if (progress < UNLOCK_END) {
+      phase = "unlock";
+      escapeTravel = -RECOIL * (progress / UNLOCK_END);
+    } else if (progress < IMPULSE_END) {
+      phase = "impulse";
+      const impulse = (progress - UNLOCK_END) / (IMPULSE_END - UNLOCK_END);
+      escapeTravel = -RECOIL + (IMPULSE_END + RECOIL) * impulse;
+    } else {
+      phase = "drop";
+      const drop = (progress - IMPULSE_END) / (1 - IMPULSE_END);
+      escapeTravel = IMPULSE_END + (1 - IMPULSE_END) * drop;
+    }
+  }
+
+  const escapeAngle = (steps + escapeTravel) * halfPitch;
+  const escapeRevolutionsPerHour =
+    params.beatsPerHour / (2 * params.escapeTeeth);
+
+  return {
+    phase,
+    beat: steps,
+    balanceAngle: amplitude * Math.sin(oscillation),
+    forkAngle,
+    escapeAngle,
+    trainHours: escapeAngle / (Math.PI * 2) / escapeRevolutionsPerHour,
+  };
+};
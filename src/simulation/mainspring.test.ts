@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { referenceCalibre, solveCalibreTrain } from "@/calibre";
+import {
+  balanceAmplitude,
+  powerReserveHours,
+  torqueFraction,
+  windConsumed,
+  windFromCrown,
+} from "@/simulation/mainspring";
+
+describe("torqueFraction", () => {
+  it("delivers full torque fully wound and none let down", () => {
+    expect(torqueFraction(1)).toBeCloseTo(1 - Math.exp(-6), 12);
+    expect(torqueFraction(0)).toBe(0);
+  });
+
+  it("clamps the state of wind", () => {
+    expect(torqueFraction(2)).toBe(torqueFraction(1));
+    expect(torqueFraction(-1)).toBe(0);
+  });
+
+  it("falls steeply only in the last turns", () => {
+    expect(torqueFraction(0.5) / torqueFraction(1)).toBeGreaterThan(0.8);
+    expect(torqueFraction(0.05) / torqueFraction(1)).toBeLessThan(0.3);
+  });
+});
+
+describe("balanceAmplitude", () => {
+  it("follows the square root of the torque", () => {
+    expect(balanceAmplitude(referenceCalibre, 0.5)).toBeCloseTo(
+      referenceCalibre.balance.amplitude * Math.sqrt(torqueFraction(0.5)),
+      12
+    );
+  });
+});
+
+describe("power reserve", () => {
+  const barrel = referenceCalibre.wheels.find(
+    (wheel) => wheel.id === referenceCalibre.mainspring.barrelWheel
+  )!;
+  const barrelSpeed = Math.abs(
+    solveCalibreTrain(referenceCalibre).arborSpeeds[barrel.arbor]
+  );
+
+  it("lasts as long as the barrel takes to unwind its turns", () => {
+    expect(powerReserveHours(referenceCalibre)).toBeCloseTo(
+      referenceCalibre.mainspring.turns / barrelSpeed,
+      9
+    );
+  });
+
+  it("uses the whole wind over the power reserve", () => {
+    expect(
+      windConsumed(referenceCalibre, powerReserveHours(referenceCalibre))
+    ).toBeCloseTo(1, 12);
+  });
+
+  it("winds fully from the crown over every barrel turn", () => {
+    const { turns, crownTurnsPerBarrelTurn } = referenceCalibre.mainspring;
+    expect(
+      windFromCrown(referenceCalibre, turns * crownTurnsPerBarrelTurn)
+    ).toBeCloseTo(1, 12);
+  });
+
+  it("ignores the crown turned backwards", () => {
+    expect(windFromCrown(referenceCalibre, -3)).toBe(0);
+  });
+});
@@ -0,0 +1,44 @@
+import { CalibreDefinition, solveCalibreTrain } from "@/calibre";
+
+/**
+ * Mainspring model. The state of wind runs from 0 (let down) to 1 (fully
+ * wound against the slipping bridle) and is consumed as the barrel drum turns
+ * with the train.
+ */
+
+/**
+ * Delivered torque as a fraction of the fully wound torque: nearly flat
+ * through the working range, falling away steeply in the last turns.
+ */
+export const torqueFraction = (wind: number) => {
+  const clamped = Math.min(1, Math.max(0, wind));
+  return (1 - Math.exp(-6 * clamped)) * (0.7 + 0.3 * clamped);
+};
+
+/** Balance amplitude, in degrees, sustained by the current torque. */
+export const balanceAmplitude = (calibre: CalibreDefinition, wind: number) =>
+  calibre.balance.amplitude * Math.sqrt(torqueFraction(wind));
+
+const barrelSpeed = (calibre: CalibreDefinition) => {
+  const barrel = calibre.wheels.find(
+    (wheel) => wheel.id === calibre.mainspring.barrelWheel
+  )!;
+  return Math.abs(solveCalibreTrain(calibre).arborSpeeds[barrel.arbor]);
+};
+
+/** Hours the movement runs from fully wound, given the barrel drum's speed. */
+export const powerReserveHours = (calibre: CalibreDefinition) =>
+  calibre.mainspring.turns / barrelSpeed(calibre);
+
+/** State of wind given up while the train advances by `trainHours`. */
+export const windConsumed = (calibre: CalibreDefinition, trainHours: number) =>
+  trainHours / powerReserveHours(calibre);
+
+/** State of wind gained from turning the crown; backwards turns just click. */
+export const windFromCrown = (
+  calibre: CalibreDefinition,
+  crownTurns: number
+) =>
+  Math.max(0, crownTurns) /
+  calibre.mainspring.crownTurnsPerBarrelTurn /
+  calibre.mainspring.turns;
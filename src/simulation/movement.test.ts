@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { referenceCalibre } from "@/calibre";
+import { windConsumed } from "@/simulation/mainspring";
+import { advanceMovement, movementClock } from "@/simulation/movement";
+import { balanceFrequency, neutralRegulation } from "@/simulation/regulation";
+
+const regulation = neutralRegulation(referenceCalibre);
+const initial = structuredClone(movementClock);
+
+/** Runs the movement for `seconds` in 60 Hz frames, returning the wind. */
+const run = (seconds: number, wind: number) => {
+  const frames = Math.round(seconds * 60);
+  for (let frame = 0; frame < frames; frame += 1) {
+    wind = advanceMovement(
+      referenceCalibre,
+      1 / 60,
+      wind,
+      regulation,
+      "dialUp"
+    );
+  }
+  return wind;
+};
+
+beforeEach(() => {
+  Object.assign(movementClock, structuredClone(initial));
+});
+
+describe("advanceMovement", () => {
+  it("leaves a let-down movement where it stopped", () => {
+    expect(run(1, 0)).toBe(0);
+    expect(movementClock.elapsed).toBe(0);
+    expect(movementClock.beats).toEqual([]);
+  });
+
+  it("logs two beats per oscillation of the balance", () => {
+    run(2, 1);
+    const expected = 2 * 2 * balanceFrequency(referenceCalibre, regulation);
+    expect(movementClock.elapsed).toBeCloseTo(2, 9);
+    expect(Math.abs(movementClock.beats.length - expected)).toBeLessThanOrEqual(
+      1
+    );
+    const times = movementClock.beats.map((beat) => beat.time);
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+  });
+
+  it("shows the train's time and draws on the mainspring for it", () => {
+    const wind = run(2, 1);
+    expect(movementClock.displayHours).toBe(movementClock.pose.trainHours);
+    expect(movementClock.pose.trainHours).toBeGreaterThan(0);
+    expect(wind).toBeCloseTo(
+      1 - windConsumed(referenceCalibre, movementClock.pose.trainHours),
+      12
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import type { CalibreDefinition } from "@/calibre";
+import {
+  EscapementParameters,
+  EscapementPose,
+  advanceOscillation,
+  beatCentre,
+  escapementPose,
+  liftDuration,
+  oscillationFrequency,
+} from "@/simulation/escapement";
+import { balanceAmplitude, windConsumed } from "@/simulation/mainspring";
+import {
+  SECONDS_PER_DAY,
+  WatchPosition,
+  positionAmplitude,
+  positionalDeviation,
+} from "@/simulation/positions";
+import { RegulationState, balanceFrequency } from "@/simulation/regulation";
+import { BeatEvent } from "@/simulation/timegrapher";
+
+/**
+ * Mutable simulation state shared by everything that animates the movement.
+ * It is advanced once per frame by the scene and read imperatively, so the
+ * per-frame updates never go through React state.
+ */
+export interface MovementClock {
+  oscillation: number;
+  /** Simulated seconds the balance has been running. */
+  elapsed: number;
+  /** Most recent beats, oldest first, for the timing machine. */
+  beats: BeatEvent[];
+  pose: EscapementPose;
+  /**
+   * Time the hands and train display, in hours. Follows the escapement in
+   * demonstration mode and the wall clock in live mode.
+   */
+  displayHours: number;
+  /**
+   * State of wind as the movement runs. The store's `windFraction` follows
+   * it in steps, for the panels, and winding through the store resets it.
+   */
+  wind: number;
+  /** State of wind last published to, or taken up from, the store. */
+  publishedWind: number;
+}
+
+export const escapementParameters = (
+  calibre: CalibreDefinition,
+  amplitude: number = calibre.balance.amplitude,
+  frequency: number = oscillationFrequency(calibre.escapement.beatsPerHour)
+): EscapementParameters => ({
+  beatsPerHour: calibre.escapement.beatsPerHour,
+  frequency,
+  amplitude,
+  liftAngle: calibre.escapement.liftAngle,
+  forkAngle: calibre.escapement.forkAngle,
+  beatOffset: calibre.balance.beatOffset,
+  escapeTeeth: calibre.wheels.find(
+    (wheel) => wheel.id === calibre.escapement.escapeWheel
+  )!.teeth,
+});
+
+// Start with the balance at the end of its swing and the escapement locked.
+const initialOscillation = -Math.PI / 2;
+
+/** Roughly a minute of beats at 28,800 vph. */
+const BEAT_HISTORY = 480;
+
+export const movementClock: MovementClock = {
+  oscillation: initialOscillation,
+  elapsed: 0,
+  beats: [],
+  pose: {
+    phase: "lock",
+    beat: 0,
+    balanceAngle: 0,
+    forkAngle: 0,
+    escapeAngle: 0,
+    trainHours: 0,
+  },
+  displayHours: 0,
+  wind: 1,
+  publishedWind: 1,
+};
+
+/** Logs every beat centred between two balance phases, interpolating its time. */
+const recordBeats = (
+  from: number,
+  to: number,
+  seconds: number,
+  params: EscapementParameters
+) => {
+  if (to <= from) return;
+  const lift = liftDuration(params);
+  let beat = Math.floor(from / Math.PI + 0.5);
+  if (beatCentre(beat, params) <= from) beat += 1;
+  for (; beatCentre(beat, params) <= to; beat += 1) {
+    const fraction = (beatCentre(beat, params) - from) / (to - from);
+    movementClock.beats.push({
+      index: beat,
+      time: movementClock.elapsed + fraction * seconds,
+      liftDuration: lift,
+    });
+  }
+  if (movementClock.beats.length > BEAT_HISTORY) {
+    movementClock.beats.splice(0, movementClock.beats.length - BEAT_HISTORY);
+  }
+};
+
+/**
+ * Runs the movement forward by `seconds` of simulated time on a mainspring
+ * wound to `wind`, with the balance regulated as given and the movement held
+ * in `position`, returning the state of wind left afterwards. A let-down
+ * spring leaves everything where it stopped.
+ */
+export const advanceMovement = (
+  calibre: CalibreDefinition,
+  seconds: number,
+  wind: number,
+  regulation: RegulationState,
+  position: WatchPosition
+) => {
+  if (wind <= 0) return 0;
+
+  const amplitude = positionAmplitude(balanceAmplitude(calibre, wind), position);
+  const deviation = positionalDeviation(
+    calibre,
+    regulation,
+    position,
+    amplitude
+  );
+  const params = escapementParameters(
+    calibre,
+    amplitude,
+    balanceFrequency(calibre, regulation) * (1 + deviation / SECONDS_PER_DAY)
+  );
+  const previousHours = movementClock.pose.trainHours;
+  const from = movementClock.oscillation;
+  const to = advanceOscillation(from, seconds, params.frequency);
+  recordBeats(from, to, seconds, params);
+  movementClock.oscillation = to;
+  movementClock.elapsed += seconds;
+  movementClock.pose = escapementPose(movementClock.oscillation, params);
+  movementClock.displayHours = movementClock.pose.trainHours;
+
+  const elapsed = Math.max(0, movementClock.pose.trainHours - previousHours);
+  return Math.max(0, wind - windConsumed(calibre, elapsed));
+};
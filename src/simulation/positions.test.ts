@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { referenceCalibre } from "@/calibre";
+import type { CalibreDefinition } from "@/calibre";
+import {
+  isochronismError,
+  poiseError,
+  positionAmplitude,
+  sixPositionResults,
+  watchPositions,
+} from "@/simulation/positions";
+import { neutralRegulation, rateError } from "@/simulation/regulation";
+
+const regulation = neutralRegulation(referenceCalibre);
+const { amplitude } = referenceCalibre.balance;
+
+const poised: CalibreDefinition = {
+  ...referenceCalibre,
+  balance: {
+    ...referenceCalibre.balance,
+    poise: { unbalance: 0, angle: 0 },
+    hairspring: { ...referenceCalibre.balance.hairspring, isochronism: 0 },
+  },
+};
+
+describe("positionAmplitude", () => {
+  it("loses amplitude only when the balance stands up", () => {
+    expect(positionAmplitude(280, "dialUp")).toBe(280);
+    expect(positionAmplitude(280, "dialDown")).toBe(280);
+    expect(positionAmplitude(280, "crownUp")).toBeLessThan(280);
+  });
+});
+
+describe("poiseError", () => {
+  it("is zero lying flat", () => {
+    expect(poiseError(referenceCalibre, regulation, "dialUp", amplitude)).toBe(
+      0
+    );
+  });
+
+  it("is zero for a poised balance", () => {
+    watchPositions.forEach(({ id }) =>
+      expect(poiseError(poised, regulation, id, amplitude)).toBeCloseTo(0)
+    );
+  });
+
+  it("is opposite in opposite positions", () => {
+    expect(
+      poiseError(referenceCalibre, regulation, "crownUp", 240)
+    ).toBeCloseTo(-poiseError(referenceCalibre, regulation, "crownDown", 240));
+  });
+
+  it("changes sign either side of about 220° of amplitude", () => {
+    const low = poiseError(referenceCalibre, regulation, "crownUp", 180);
+    const high = poiseError(referenceCalibre, regulation, "crownUp", 260);
+    expect(Math.sign(low)).toBe(-Math.sign(high));
+  });
+});
+
+describe("isochronismError", () => {
+  it("is zero at the nominal amplitude", () => {
+    expect(isochronismError(referenceCalibre, amplitude)).toBeCloseTo(0);
+  });
+});
+
+describe("sixPositionResults", () => {
+  it("reads the regulated rate in every position of a perfect balance", () => {
+    const results = sixPositionResults(poised, regulation, amplitude);
+    results.rows.forEach((row) =>
+      expect(row.rate).toBeCloseTo(rateError(poised, regulation), 9)
+    );
+    expect(results.delta).toBeCloseTo(0, 9);
+    expect(results.flatToVertical).toBeCloseTo(0, 9);
+  });
+
+  it("summarises the spread between positions", () => {
+    const results = sixPositionResults(referenceCalibre, regulation, amplitude);
+    const rates = results.rows.map((row) => row.rate);
+    expect(results.rows.map((row) => row.position.id)).toEqual(
+      watchPositions.map((position) => position.id)
+    );
+    expect(results.delta).toBeCloseTo(
+      Math.max(...rates) - Math.min(...rates),
+      12
+    );
+    expect(results.meanRate).toBeCloseTo(
+      rates.reduce((sum, rate) => sum + rate, 0) / rates.length,
+      12
+    );
+  });
+});
@@ -0,0 +1,241 @@
+import type { CalibreDefinition } from "@/calibre";
+import {
+  RegulationState,
+  hairspringStiffness,
+  rateError,
+} from "@/simulation/regulation";
+
+/**
+ * Six-position timing. Lying flat the balance pivots turn on their end-stones
+ * and gravity has no lever on the balance; standing up, the pivots rub on
+ * their sides, amplitude drops, and any out-of-poise mass pulls the balance
+ * towards or away from its dead point. Both effects, plus the hairspring's
+ * isochronism error, are added to the regulated rate.
+ */
+
+export type WatchPosition =
+  | "dialUp"
+  | "dialDown"
+  | "crownUp"
+  | "crownDown"
+  | "crownLeft"
+  | "crownRight";
+
+export interface WatchPositionMeta {
+  id: WatchPosition;
+  title: string;
+  abbreviation: string;
+  /** Euler rotation that turns the movement into this position. */
+  rotation: [number, number, number];
+  /**
+   * Direction gravity pulls in the balance plane, as (x, z) in the
+   * movement's own frame; null when lying flat.
+   */
+  down: [number, number] | null;
+}
+
+export const watchPositions: WatchPositionMeta[] = [
+  {
+    id: "dialUp",
+    title: "Dial Up",
+    abbreviation: "DU",
+    rotation: [0, 0, 0],
+    down: null,
+  },
+  {
+    id: "dialDown",
+    title: "Dial Down",
+    abbreviation: "DD",
+    rotation: [Math.PI, 0, 0],
+    down: null,
+  },
+  {
+    id: "crownUp",
+    title: "Crown Up",
+    abbreviation: "CU",
+    rotation: [0, 0, Math.PI / 2],
+    down: [-1, 0],
+  },
+  {
+    id: "crownDown",
+    title: "Crown Down",
+    abbreviation: "CD",
+    rotation: [0, 0, -Math.PI / 2],
+    down: [1, 0],
+  },
+  {
+    id: "crownLeft",
+    title: "Crown Left",
+    abbreviation: "CL",
+    rotation: [-Math.PI / 2, 0, 0],
+    down: [0, -1],
+  },
+  {
+    id: "crownRight",
+    title: "Crown Right",
+    abbreviation: "CR",
+    rotation: [Math.PI / 2, 0, 0],
+    down: [0, 1],
+  },
+];
+
+export const watchPositionMeta = (position: WatchPosition) =>
+  watchPositions.find((entry) => entry.id === position)!;
+
+/** Share of the flat amplitude kept when the pivots run on their sides. */
+const VERTICAL_AMPLITUDE = 0.88;
+
+const GRAVITY = 9.81;
+const MG_MM = 1e-9;
+export const SECONDS_PER_DAY = 86400;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Bessel function of the first kind, order one, by Simpson's rule. */
+const besselJ1 = (x: number) => {
+  const steps = 64;
+  const h = Math.PI / steps;
+  let sum = 0;
+  for (let i = 0; i <= steps; i += 1) {
+    const tau = i * h;
+    const weight = i === 0 || i === steps ? 1 : i % 2 === 1 ? 4 : 2;
+    sum += weight * Math.cos(tau - x * Math.sin(tau));
+  }
+  return (sum * h) / 3 / Math.PI;
+};
+
+/** Balance amplitude in this position given the flat amplitude. */
+export const positionAmplitude = (
+  amplitude: number,
+  position: WatchPosition
+) =>
+  watchPositionMeta(position).down ? amplitude * VERTICAL_AMPLITUDE : amplitude;
+
+/**
+ * Out-of-poise moment of the balance as (x, z) in mg·mm: the calibre's
+ * residual heavy spot plus whatever the screws have been turned off centre.
+ */
+export const balanceUnbalance = (
+  calibre: CalibreDefinition,
+  regulation: RegulationState
+): [number, number] => {
+  const { poise, inertia } = calibre.balance;
+  const residual = toRadians(poise.angle);
+  return regulation.screwOffsets.reduce<[number, number]>(
+    ([x, z], offset, index) => {
+      const angle = (index / regulation.screwOffsets.length) * Math.PI * 2;
+      return [
+        x + inertia.screwMass * offset * Math.cos(angle),
+        z + inertia.screwMass * offset * Math.sin(angle),
+      ];
+    },
+    [
+      poise.unbalance * Math.cos(residual),
+      poise.unbalance * Math.sin(residual),
+    ]
+  );
+};
+
+/**
+ * Poise error in s/day. A heavy spot below the balance's rest position acts
+ * as extra restoring torque that scales with J₁(A)/A, so it gains below
+ * about 220° of amplitude and loses above it.
+ */
+export const poiseError = (
+  calibre: CalibreDefinition,
+  regulation: RegulationState,
+  position: WatchPosition,
+  amplitude: number
+) => {
+  const { down } = watchPositionMeta(position);
+  const swing = toRadians(amplitude);
+  if (!down || swing <= 0) return 0;
+  const [x, z] = balanceUnbalance(calibre, regulation);
+  const moment = (x * down[0] + z * down[1]) * MG_MM * GRAVITY;
+  return (
+    ((moment * besselJ1(swing)) /
+      swing /
+      hairspringStiffness(calibre, regulation)) *
+    SECONDS_PER_DAY
+  );
+};
+
+/** Isochronism error in s/day at `amplitude` against the nominal amplitude. */
+export const isochronismError = (
+  calibre: CalibreDefinition,
+  amplitude: number
+) =>
+  (calibre.balance.hairspring.isochronism *
+    (calibre.balance.amplitude - amplitude)) /
+  100;
+
+/**
+ * Rate change in s/day from poise and isochronism, with the balance swinging
+ * at `amplitude` in `position`.
+ */
+export const positionalDeviation = (
+  calibre: CalibreDefinition,
+  regulation: RegulationState,
+  position: WatchPosition,
+  amplitude: number
+) =>
+  poiseError(calibre, regulation, position, amplitude) +
+  isochronismError(calibre, amplitude);
+
+/**
+ * Rate in s/day with the movement in `position` and the balance swinging at
+ * `flatAmplitude` when lying dial up.
+ */
+export const positionalRate = (
+  calibre: CalibreDefinition,
+  regulation: RegulationState,
+  position: WatchPosition,
+  flatAmplitude: number
+) =>
+  rateError(calibre, regulation) +
+  positionalDeviation(
+    calibre,
+    regulation,
+    position,
+    positionAmplitude(flatAmplitude, position)
+  );
+
+export interface PositionResult {
+  position: WatchPositionMeta;
+  amplitude: number;
+  rate: number;
+}
+
+export interface SixPositionResults {
+  rows: PositionResult[];
+  meanRate: number;
+  /** Spread between the fastest and slowest position. */
+  delta: number;
+  /** Mean of the flat positions less the mean of the vertical ones. */
+  flatToVertical: number;
+}
+
+export const sixPositionResults = (
+  calibre: CalibreDefinition,
+  regulation: RegulationState,
+  flatAmplitude: number
+): SixPositionResults => {
+  const rows = watchPositions.map((position) => ({
+    position,
+    amplitude: positionAmplitude(flatAmplitude, position.id),
+    rate: positionalRate(calibre, regulation, position.id, flatAmplitude),
+  }));
+  const rates = rows.map((row) => row.rate);
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+  const flat = rows.filter((row) => !row.position.down);
+  const vertical = rows.filter((row) => row.position.down);
+
+  return {
+    rows,
+    meanRate: mean(rates),
+    delta: Math.max(...rates) - Math.min(...rates),
+    flatToVertical:
+      mean(flat.map((row) => row.rate)) - mean(vertical.map((row) => row.rate)),
+  };
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { referenceCalibre } from "@/calibre";
+import {
+  RegulationState,
+  activeHairspringLength,
+  balanceFrequency,
+  balanceInertia,
+  neutralRegulation,
+  rateError,
+} from "@/simulation/regulation";
+
+const neutral = neutralRegulation(referenceCalibre);
+
+const withScrews = (offset: number): RegulationState => ({
+  ...neutral,
+  screwOffsets: neutral.screwOffsets.map(() => offset),
+});
+
+describe("neutralRegulation", () => {
+  it("centres the regulator and seats every screw", () => {
+    expect(neutral.regulatorIndex).toBe(0);
+    expect(neutral.screwOffsets).toHaveLength(
+      referenceCalibre.balance.inertia.screwCount
+    );
+    expect(neutral.screwOffsets.every((offset) => offset === 0)).toBe(true);
+  });
+});
+
+describe("balanceFrequency", () => {
+  it("runs the reference balance within a few seconds a day of 4 Hz", () => {
+    expect(balanceFrequency(referenceCalibre, neutral)).toBeCloseTo(4, 3);
+    expect(Math.abs(rateError(referenceCalibre, neutral))).toBeLessThan(5);
+  });
+
+  it("speeds up as the regulator shortens the hairspring", () => {
+    const fast = { ...neutral, regulatorIndex: 1 };
+    expect(activeHairspringLength(referenceCalibre, fast)).toBeLessThan(
+      activeHairspringLength(referenceCalibre, neutral)
+    );
+    expect(rateError(referenceCalibre, fast)).toBeGreaterThan(
+      rateError(referenceCalibre, neutral)
+    );
+  });
+
+  it("slows down as the screws are turned out", () => {
+    expect(balanceInertia(referenceCalibre, withScrews(0.05))).toBeGreaterThan(
+      balanceInertia(referenceCalibre, neutral)
+    );
+    expect(rateError(referenceCalibre, withScrews(0.05))).toBeLessThan(
+      rateError(referenceCalibre, neutral)
+    );
+  });
+
+  it("follows the torsion oscillator's square-root law", () => {
+    const ratio =
+      balanceInertia(referenceCalibre, withScrews(0.05)) /
+      balanceInertia(referenceCalibre, neutral);
+    expect(
+      balanceFrequency(referenceCalibre, neutral) /
+        balanceFrequency(referenceCalibre, withScrews(0.05))
+    ).toBeCloseTo(Math.sqrt(ratio), 12);
+  });
+});
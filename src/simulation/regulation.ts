@@ -0,0 +1,86 @@
+import type { CalibreDefinition } from "@/calibre";
+
+/**
+ * Free-sprung balance physics. The balance and hairspring form a torsion
+ * oscillator, f = √(k / I) / 2π, with the inertia I of the rim plus its
+ * screws and the stiffness k = E·h·t³ / 12L of the active hairspring.
+ * Calibre values are in watchmaking units (mg, mm, GPa) and converted to SI
+ * here.
+ */
+
+export interface RegulationState {
+  /** Regulator index from -1 (slow) to 1 (fast). */
+  regulatorIndex: number;
+  /** Radial offset of each inertia screw, in mm; positive is turned out. */
+  screwOffsets: number[];
+}
+
+const MG = 1e-6;
+const MM = 1e-3;
+const GPA = 1e9;
+
+export const neutralRegulation = (
+  calibre: CalibreDefinition
+): RegulationState => ({
+  regulatorIndex: 0,
+  screwOffsets: Array.from(
+    { length: calibre.balance.inertia.screwCount },
+    () => 0
+  ),
+});
+
+/** Moment of inertia of the balance in kg·m². */
+export const balanceInertia = (
+  calibre: CalibreDefinition,
+  regulation: RegulationState
+) => {
+  const { rimMass, rimRadius, screwMass, screwRadius } =
+    calibre.balance.inertia;
+  const rim = rimMass * MG * (rimRadius * MM) ** 2;
+  const screws = regulation.screwOffsets.reduce(
+    (sum, offset) => sum + screwMass * MG * ((screwRadius + offset) * MM) ** 2,
+    0
+  );
+  return rim + screws;
+};
+
+/** Active hairspring length in mm once the curb pins have been moved. */
+export const activeHairspringLength = (
+  calibre: CalibreDefinition,
+  regulation: RegulationState
+) =>
+  calibre.balance.hairspring.length -
+  regulation.regulatorIndex * calibre.balance.hairspring.regulatorTravel;
+
+/** Hairspring torsional stiffness in N·m per radian. */
+export const hairspringStiffness = (
+  calibre: CalibreDefinition,
+  regulation: RegulationState
+) => {
+  const { youngsModulus, height, thickness } = calibre.balance.hairspring;
+  return (
+    (youngsModulus * GPA * height * MM * (thickness * MM) ** 3) /
+    (12 * activeHairspringLength(calibre, regulation) * MM)
+  );
+};
+
+/** Oscillation frequency of the balance in Hz. */
+export const balanceFrequency = (
+  calibre: CalibreDefinition,
+  regulation: RegulationState
+) =>
+  Math.sqrt(
+    hairspringStiffness(calibre, regulation) /
+      balanceInertia(calibre, regulation)
+  ) /
+  (Math.PI * 2);
+
+/** Daily rate against the calibre's nominal beat, in seconds per day. */
+export const rateError = (
+  calibre: CalibreDefinition,
+  regulation: RegulationState
+) =>
+  (balanceFrequency(calibre, regulation) /
+    (calibre.escapement.beatsPerHour / 7200) -
+    1) *
+  86400;
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { BeatEvent, analyseBeats } from "@/simulation/timegrapher";
+
+const BEATS_PER_HOUR = 28800;
+const NOMINAL_PERIOD = 3600 / BEATS_PER_HOUR;
+const LIFT_ANGLE = 52;
+
+/**
+ * Beats at `period` seconds apart, with every tock landing `skew` seconds
+ * late and the escapement lifting for `lift` seconds.
+ */
+const beatsAt = (
+  period: number,
+  { count = 80, skew = 0, lift = 0.0025 } = {}
+): BeatEvent[] =>
+  Array.from({ length: count }, (_, index) => ({
+    index,
+    time: index * period + (index % 2 === 1 ? skew : 0),
+    liftDuration: lift,
+  }));
+
+describe("analyseBeats", () => {
+  it("needs a few beats before it reads anything", () => {
+    expect(
+      analyseBeats(beatsAt(NOMINAL_PERIOD, { count: 3 }), BEATS_PER_HOUR, 52)
+    ).toBeNull();
+  });
+
+  it("reads a nominal movement as on time and in beat", () => {
+    const reading = analyseBeats(
+      beatsAt(NOMINAL_PERIOD),
+      BEATS_PER_HOUR,
+      LIFT_ANGLE
+    )!;
+    expect(reading.rate).toBeCloseTo(0, 6);
+    expect(reading.beatError).toBeCloseTo(0, 6);
+    reading.trace.forEach((point) => expect(point.deviation).toBeCloseTo(0, 6));
+  });
+
+  it("reads a short beat period as a gaining rate", () => {
+    const period = NOMINAL_PERIOD / (1 + 10 / 86400);
+    const reading = analyseBeats(beatsAt(period), BEATS_PER_HOUR, LIFT_ANGLE)!;
+    expect(reading.rate).toBeCloseTo(10, 6);
+  });
+
+  it("keeps beat error out of the rate", () => {
+    const reading = analyseBeats(
+      beatsAt(NOMINAL_PERIOD, { skew: 0.002 }),
+      BEATS_PER_HOUR,
+      LIFT_ANGLE
+    )!;
+    expect(reading.beatError).toBeCloseTo(2, 6);
+    expect(reading.rate).toBeCloseTo(0, 6);
+    expect(reading.trace.filter((point) => point.tick)).toHaveLength(40);
+  });
+
+  it("infers amplitude from the lift time and the dialled lift angle", () => {
+    const lift = 0.0025;
+    const expected = LIFT_ANGLE / (2 * Math.sin(Math.PI * lift * 4));
+    const reading = analyseBeats(
+      beatsAt(NOMINAL_PERIOD, { lift }),
+      BEATS_PER_HOUR,
+      LIFT_ANGLE
+    )!;
+    expect(reading.amplitude).toBeCloseTo(expected, 6);
+    expect(
+      analyseBeats(beatsAt(NOMINAL_PERIOD, { lift }), BEATS_PER_HOUR, 26)!
+        .amplitude
+    ).toBeCloseTo(expected / 2, 6);
+  });
+});
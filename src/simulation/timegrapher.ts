@@ -0,0 +1,104 @@
+/**
+ * Timing machine analysis over the beats the simulated movement produced,
+ * computed the way an acoustic timegrapher does: from the moments each beat
+ * was heard and how long the escapement took to lift.
+ */
+
+export interface BeatEvent {
+  /** Beat number; even and odd beats are the tick and the tock. */
+  index: number;
+  /** Simulated time, in seconds, at which the beat was centred. */
+  time: number;
+  /** Seconds from unlocking to drop. */
+  liftDuration: number;
+}
+
+export interface TracePoint {
+  time: number;
+  /** Offset from the nominal beat grid, in milliseconds. */
+  deviation: number;
+  tick: boolean;
+}
+
+export interface TimegrapherReading {
+  /** Daily rate in seconds per day; positive means the watch gains. */
+  rate: number;
+  /** Amplitude in degrees as inferred from lift time and lift angle. */
+  amplitude: number;
+  /** Beat error in milliseconds. */
+  beatError: number;
+  trace: TracePoint[];
+}
+
+const mean = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const fitSlope = (xs: number[], ys: number[]) => {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  const covariance = mean(xs.map((x, index) => (x - meanX) * (ys[index] - meanY)));
+  const variance = mean(xs.map((x) => (x - meanX) ** 2));
+  return variance > 0 ? covariance / variance : null;
+};
+
+/**
+ * Analyses `beats` against the nominal beat rate. `liftAngle` is the value
+ * the operator dials into the machine; a wrong setting skews only the
+ * amplitude reading, as on a real timegrapher.
+ */
+export const analyseBeats = (
+  beats: BeatEvent[],
+  beatsPerHour: number,
+  liftAngle: number
+): TimegrapherReading | null => {
+  if (beats.length < 4) return null;
+
+  const nominalPeriod = 3600 / beatsPerHour;
+  const first = beats[0];
+  const steps = beats.map((beat) => beat.index - first.index);
+  const offsets = beats.map((beat) => beat.time - first.time);
+
+  // Fitting the tick and tock lines separately keeps beat error out of the
+  // rate; each least-squares slope is the true beat period.
+  const period = mean(
+    [0, 1]
+      .map((parity) =>
+        fitSlope(
+          steps.filter((step) => step % 2 === parity),
+          offsets.filter((_, index) => steps[index] % 2 === parity)
+        )
+      )
+      .map((slope) => slope ?? nominalPeriod)
+  );
+  const rate = ((nominalPeriod - period) / period) * 86400;
+
+  const intervals = beats.slice(1).map((beat, index) => ({
+    fromTick: beats[index].index % 2 === 0,
+    length: beat.time - beats[index].time,
+  }));
+  const tickIntervals = intervals.filter((entry) => entry.fromTick);
+  const tockIntervals = intervals.filter((entry) => !entry.fromTick);
+  const beatError =
+    tickIntervals.length > 0 && tockIntervals.length > 0
+      ? (Math.abs(
+          mean(tickIntervals.map((entry) => entry.length)) -
+            mean(tockIntervals.map((entry) => entry.length))
+        ) /
+          2) *
+        1000
+      : 0;
+
+  // A = L / (2 sin(π t f)), with t the lift time and f the oscillation rate.
+  const oscillationFrequency = beatsPerHour / 7200;
+  const lift = mean(beats.map((beat) => beat.liftDuration));
+  const sine = Math.sin(Math.PI * lift * oscillationFrequency);
+  const amplitude = sine > 0 ? liftAngle / (2 * sine) : 0;
+
+  const trace = beats.map((beat, index) => ({
+    time: offsets[index],
+    deviation: (offsets[index] - steps[index] * nominalPeriod) * 1000,
+    tick: beat.index % 2 === 0,
+  }));
+
+  return { rate, amplitude, beatError, trace };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  isValidTimeZone,
+  quantizeToBeats,
+  wallClockHours,
+} from "@/simulation/wallClock";
+
+const instant = new Date(Date.UTC(2024, 0, 15, 13, 30, 45, 500));
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones and rejects anything else", () => {
+    expect(isValidTimeZone("Europe/Zurich")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+describe("wallClockHours", () => {
+  it("reads the time of day in the given zone, to the millisecond", () => {
+    expect(wallClockHours(instant, "UTC")).toBeCloseTo(
+      13 + 30 / 60 + 45.5 / 3600,
+      9
+    );
+  });
+
+  it("applies the zone's offset", () => {
+    expect(wallClockHours(instant, "Europe/Zurich")).toBeCloseTo(
+      wallClockHours(instant, "UTC") + 1,
+      9
+    );
+    expect(wallClockHours(instant, "Asia/Kolkata")).toBeCloseTo(
+      wallClockHours(instant, "UTC") + 5.5,
+      9
+    );
+  });
+
+  it("wraps past midnight", () => {
+    expect(wallClockHours(instant, "Pacific/Kiritimati")).toBeCloseTo(
+      wallClockHours(instant, "UTC") + 14 - 24,
+      9
+    );
+  });
+});
+
+describe("quantizeToBeats", () => {
+  it("snaps down to the last beat", () => {
+    const beat = 1 / 28800;
+    expect(quantizeToBeats(beat * 10.6, 28800)).toBeCloseTo(beat * 10, 12);
+    expect(quantizeToBeats(beat * 3, 28800)).toBeCloseTo(beat * 3, 12);
+  });
+});
@@ -0,0 +1,45 @@
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string | null) => {
+  const key = timeZone ?? "local";
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timeZone ?? undefined,
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hourCycle: "h23",
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Hours elapsed since midnight in `timeZone` (or the device's zone when
+ * null), including the fractional part down to the millisecond.
+ */
+export const wallClockHours = (date: Date, timeZone: string | null) => {
+  const parts = formatterFor(timeZone).formatToParts(date);
+  const field = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return (
+    field("hour") +
+    field("minute") / 60 +
+    (field("second") + date.getMilliseconds() / 1000) / 3600
+  );
+};
+
+/** Snaps a time down to the last beat so the seconds hand steps like a lever watch. */
+export const quantizeToBeats = (hours: number, beatsPerHour: number) =>
+  Math.floor(hours * beatsPerHour) / beatsPerHour;
@@ -0,0 +1,150 @@
+import {
+  CalibreIssue,
+  Check,
+  isRecord,
+  list,
+  object,
+  string,
+  vec3,
+} from "@/calibre/validate";
+import { CameraBookmark, CameraPath } from "@/state/useWatchStore";
+
+/**
+ * Camera bookmarks and paths as a JSON file, so a set of camera moves can be
+ * handed to someone else or kept outside the browser.
+ */
+
+export const CAMERA_LIBRARY_VERSION = 1;
+
+export interface CameraLibrary {
+  bookmarks: CameraBookmark[];
+  paths: CameraPath[];
+}
+
+export type CameraLibraryIssue = CalibreIssue;
+
+export class CameraLibraryError extends Error {
+  readonly issues: CameraLibraryIssue[];
+
+  constructor(issues: CameraLibraryIssue[]) {
+    super(
+      `Invalid camera library:\n${issues
+        .map((issue) => `  ${issue.path}: ${issue.message}`)
+        .join("\n")}`
+    );
+    this.name = "CameraLibraryError";
+    this.issues = issues;
+  }
+}
+
+const seconds: Check = (value, path, issues) => {
+  if (typeof value !== "number" || !(value >= 0)) {
+    issues.push({ path, message: "expected a number of seconds" });
+  }
+};
+
+const keyframeTimes: Check = (value, path, issues) => {
+  const keyframes = value as { time: number }[];
+  keyframes.forEach((keyframe, index) => {
+    if (index > 0 && keyframe.time < keyframes[index - 1].time) {
+      issues.push({
+        path: `${path}[${index}].time`,
+        message: "keyframe times must not go backwards",
+      });
+    }
+  });
+};
+
+const bookmarkShape = object({
+  id: string,
+  name: string,
+  target: object({ position: vec3, lookAt: vec3 }),
+});
+
+const keyframesShape = list(
+  object({ position: vec3, lookAt: vec3, time: seconds })
+);
+
+const pathShape: Check = (value, path, issues) => {
+  const before = issues.length;
+  object({ id: string, name: string, keyframes: keyframesShape })(
+    value,
+    path,
+    issues
+  );
+  if (issues.length === before) {
+    keyframeTimes((value as CameraPath).keyframes, `${path}.keyframes`, issues);
+  }
+};
+
+const issuesIn = (check: Check, value: unknown) => {
+  const issues: CameraLibraryIssue[] = [];
+  check(value, "$", issues);
+  return issues;
+};
+
+export const isCameraBookmark = (value: unknown): value is CameraBookmark =>
+  issuesIn(bookmarkShape, value).length === 0;
+
+export const isCameraPath = (value: unknown): value is CameraPath =>
+  issuesIn(pathShape, value).length === 0;
+
+export const validateCameraLibrary = (
+  input: unknown
+): CameraLibraryIssue[] => {
+  if (!isRecord(input)) {
+    return [{ path: "$", message: "expected a camera library object" }];
+  }
+  if (input.version !== CAMERA_LIBRARY_VERSION) {
+    return [
+      {
+        path: "$.version",
+        message: `unsupported version ${String(
+          input.version
+        )}, expected ${CAMERA_LIBRARY_VERSION}`,
+      },
+    ];
+  }
+  return issuesIn(
+    object({ bookmarks: list(bookmarkShape), paths: list(pathShape) }),
+    input
+  );
+};
+
+export const stringifyCameraLibrary = (library: CameraLibrary) =>
+  JSON.stringify({ version: CAMERA_LIBRARY_VERSION, ...library }, null, 2);
+
+export const parseCameraLibraryJson = (source: string): CameraLibrary => {
+  let input: unknown;
+  try {
+    input = JSON.parse(source);
+  } catch (error) {
+    throw new CameraLibraryError([
+      {
+        path: "$",
+        message: error instanceof Error ? error.message : "malformed JSON",
+      },
+    ]);
+  }
+  const issues = validateCameraLibrary(input);
+  if (issues.length > 0) {
+    throw new CameraLibraryError(issues);
+  }
+  const { bookmarks, paths } = input as unknown as CameraLibrary;
+  return { bookmarks, paths };
+};
+
+/** Adds `incoming` to `current`; entries with a matching id are replaced. */
+export const mergeCameraLibrary = (
+  current: CameraLibrary,
+  incoming: CameraLibrary
+): CameraLibrary => {
+  const merge = <T extends { id: string }>(kept: T[], added: T[]) => [
+    ...kept.filter((entry) => !added.some((other) => other.id === entry.id)),
+    ...added,
+  ];
+  return {
+    bookmarks: merge(current.bookmarks, incoming.bookmarks),
+    paths: merge(current.paths, incoming.paths),
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { PERSISTED_VERSION, migrateDocument } from "@/state/persistence";
+
+const bookmark = {
+  id: "bookmark-1",
+  name: "Pallets",
+  target: { position: [1, 2, 3], lookAt: [0, 0, 0] },
+};
+
+const savedView = {
+  id: "view-1",
+  name: "Exploded",
+  savedAt: 1700000000000,
+  view: "explode=1",
+};
+
+describe("migrateDocument", () => {
+  it("upgrades a first-version document with an empty camera library", () => {
+    expect(
+      migrateDocument({ version: 1, session: "mode=live", views: [savedView] })
+    ).toEqual({
+      version: PERSISTED_VERSION,
+      session: "mode=live",
+      views: [savedView],
+      bookmarks: [],
+      cameraPaths: [],
+    });
+  });
+
+  it("keeps a current document as it is", () => {
+    const document = {
+      version: PERSISTED_VERSION,
+      session: "",
+      views: [savedView],
+      bookmarks: [bookmark],
+      cameraPaths: [],
+    };
+    expect(migrateDocument(document)).toEqual(document);
+  });
+
+  it("drops malformed entries rather than the whole document", () => {
+    expect(
+      migrateDocument({
+        version: PERSISTED_VERSION,
+        session: 4,
+        views: [savedView, { id: "view-2" }],
+        bookmarks: [bookmark, { ...bookmark, target: null }],
+        cameraPaths: "none",
+      })
+    ).toEqual({
+      version: PERSISTED_VERSION,
+      session: "",
+      views: [savedView],
+      bookmarks: [bookmark],
+      cameraPaths: [],
+    });
+  });
+
+  it("rejects unreadable documents and ones from a newer build", () => {
+    expect(migrateDocument(null)).toBeNull();
+    expect(migrateDocument({ session: "" })).toBeNull();
+    expect(migrateDocument({ version: 0 })).toBeNull();
+    expect(migrateDocument({ version: PERSISTED_VERSION + 1 })).toBeNull();
+  });
+});
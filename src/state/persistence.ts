@@ -0,0 +1,163 @@
+import { useEffect } from "react";
+import { isCameraBookmark, isCameraPath } from "@/state/cameraLibrary";
+import { decodeViewState, encodeViewState, readHash } from "@/state/urlState";
+import {
+  CameraBookmark,
+  CameraPath,
+  SavedView,
+  useWatchStore,
+  viewStateChanged,
+} from "@/state/useWatchStore";
+
+/**
+ * Session and saved-view persistence in localStorage. Views are stored in
+ * the same encoding as shared links, so layers or fields added later simply
+ * decode to their defaults. Changes to the document itself go through the
+ * versioned migrations below.
+ */
+
+const STORAGE_KEY = "precision-mechanique:viewer";
+
+export const PERSISTED_VERSION = 2;
+
+const WRITE_DELAY_MS = 300;
+
+interface PersistedView {
+  id: string;
+  name: string;
+  savedAt: number;
+  /** View encoded as a link fragment. */
+  view: string;
+}
+
+interface PersistedDocument {
+  version: number;
+  /** The last session, encoded as a link fragment. */
+  session: string;
+  views: PersistedView[];
+  bookmarks: CameraBookmark[];
+  cameraPaths: CameraPath[];
+}
+
+type Migration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * `migrations[n]` upgrades a version-n document to version n + 1. Bump
+ * PERSISTED_VERSION and add an entry whenever the document shape changes;
+ * never edit a migration that has shipped.
+ */
+const migrations: Record<number, Migration> = {
+  1: (document) => ({ ...document, bookmarks: [], cameraPaths: [] }),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPersistedView = (value: unknown): value is PersistedView =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  typeof value.savedAt === "number" &&
+  typeof value.view === "string";
+
+/**
+ * Brings a stored document up to the current version, or returns null when
+ * it is unreadable or newer than this build understands.
+ */
+export const migrateDocument = (raw: unknown): PersistedDocument | null => {
+  if (!isRecord(raw) || typeof raw.version !== "number") return null;
+  let document = raw;
+  for (let version = raw.version; version < PERSISTED_VERSION; version += 1) {
+    const migrate = migrations[version];
+    if (!migrate) return null;
+    document = { ...migrate(document), version: version + 1 };
+  }
+  if (document.version !== PERSISTED_VERSION) return null;
+  return {
+    version: PERSISTED_VERSION,
+    session: typeof document.session === "string" ? document.session : "",
+    views: Array.isArray(document.views)
+      ? document.views.filter(isPersistedView)
+      : [],
+    bookmarks: Array.isArray(document.bookmarks)
+      ? document.bookmarks.filter(isCameraBookmark)
+      : [],
+    cameraPaths: Array.isArray(document.cameraPaths)
+      ? document.cameraPaths.filter(isCameraPath)
+      : [],
+  };
+};
+
+const readDocument = () => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? migrateDocument(JSON.parse(stored)) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeDocument = (document: PersistedDocument) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(document));
+  } catch {
+    // Storage can be full or disabled; the session just isn't kept.
+  }
+};
+
+/**
+ * Restores saved views, camera bookmarks and paths and, unless a link says
+ * otherwise, the last session on mount, then writes them back as they
+ * change.
+ */
+export const useSessionPersistence = () => {
+  useEffect(() => {
+    const { calibre, applyViewState, setSavedViews, setCameraLibrary } =
+      useWatchStore.getState();
+    const stored = readDocument();
+    if (stored) {
+      setSavedViews(
+        stored.views.map(
+          (view): SavedView => ({
+            ...view,
+            view: decodeViewState(view.view, calibre),
+          })
+        )
+      );
+      setCameraLibrary(stored.bookmarks, stored.cameraPaths);
+      if (!readHash() && stored.session) {
+        applyViewState(decodeViewState(stored.session, calibre));
+      }
+    }
+
+    let timer: number | undefined;
+    const unsubscribe = useWatchStore.subscribe((state, previous) => {
+      if (
+        state.savedViews === previous.savedViews &&
+        state.cameraBookmarks === previous.cameraBookmarks &&
+        state.cameraPaths === previous.cameraPaths &&
+        !viewStateChanged(state, previous)
+      ) {
+        return;
+      }
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        writeDocument({
+          version: PERSISTED_VERSION,
+          session: encodeViewState(state),
+          views: state.savedViews.map((view) => ({
+            ...view,
+            view: encodeViewState(view.view),
+          })),
+          bookmarks: state.cameraBookmarks,
+          cameraPaths: state.cameraPaths,
+        });
+      }, WRITE_DELAY_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      window.clearTimeout(timer);
+    };
+  }, []);
+};
@@ -0,0 +1,90 @@
+import { useEffect } from "react";
+import { registeredLayerIds } from "@/calibre";
+import { defaultViewState } from "@/state/urlState";
+import {
+  ViewState,
+  WatchLayer,
+  cameraViewPresets,
+  useWatchStore,
+  viewStateOf,
+} from "@/state/useWatchStore";
+import { TourDefinition, TourStep } from "@/tours";
+
+/**
+ * Drives a tour through the store. Each step is applied as a view, so the
+ * camera rig and the explode animation ease from one step into the next.
+ */
+
+/** How long a step holds during autoplay when it doesn't say. */
+export const DEFAULT_STEP_SECONDS = 8;
+
+/** View the tour was started from, restored when it ends. */
+let returnView: ViewState | null = null;
+
+export const tourStepView = (step: TourStep): Partial<ViewState> => {
+  const defaults = defaultViewState();
+  const layers = registeredLayerIds();
+  const shown: readonly WatchLayer[] = step.isolate
+    ? [step.isolate]
+    : step.layers ?? layers;
+  return {
+    hiddenLayers: Object.fromEntries(
+      layers.map((layer) => [layer, !shown.includes(layer)])
+    ) as Record<WatchLayer, boolean>,
+    highlightedLayer: step.isolate ?? step.highlight ?? null,
+    layerOpacity: { ...defaults.layerOpacity, ...step.opacity },
+    explodeAmount: step.explode ?? defaults.explodeAmount,
+    explodeStaged: defaults.explodeStaged,
+    radialExplode: defaults.radialExplode,
+    rotationSpeed: step.speed ?? defaults.rotationSpeed,
+    selectedPart: step.part ?? null,
+    ...(typeof step.camera === "string"
+      ? {
+          cameraView: step.camera,
+          cameraTarget: cameraViewPresets[step.camera],
+        }
+      : { cameraView: null, cameraTarget: step.camera }),
+  };
+};
+
+export const showTourStep = (index: number) => {
+  const { setTourStep, applyViewState } = useWatchStore.getState();
+  setTourStep(index);
+  const { tour, tourStep } = useWatchStore.getState();
+  if (tour) applyViewState(tourStepView(tour.steps[tourStep]));
+};
+
+export const startTour = (tour: TourDefinition) => {
+  const state = useWatchStore.getState();
+  if (!state.tour) returnView = viewStateOf(state);
+  state.setTour(tour);
+  showTourStep(0);
+};
+
+export const stopTour = () => {
+  const { setTour, applyViewState } = useWatchStore.getState();
+  setTour(null);
+  if (returnView) applyViewState(returnView);
+  returnView = null;
+};
+
+/** Moves on after each step's duration while the tour is playing. */
+export const useTourAutoplay = () => {
+  const tour = useWatchStore((state) => state.tour);
+  const tourStep = useWatchStore((state) => state.tourStep);
+  const tourPlaying = useWatchStore((state) => state.tourPlaying);
+  const setTourPlaying = useWatchStore((state) => state.setTourPlaying);
+
+  useEffect(() => {
+    if (!tour || !tourPlaying) return;
+    const seconds = tour.steps[tourStep].duration ?? DEFAULT_STEP_SECONDS;
+    const timer = window.setTimeout(() => {
+      if (tourStep + 1 < tour.steps.length) {
+        showTourStep(tourStep + 1);
+      } else {
+        setTourPlaying(false);
+      }
+    }, seconds * 1000);
+    return () => window.clearTimeout(timer);
+  }, [tour, tourStep, tourPlaying, setTourPlaying]);
+};
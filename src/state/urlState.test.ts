@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { referenceCalibre } from "@/calibre";
+import {
+  decodeViewState,
+  defaultViewState,
+  encodeViewState,
+} from "@/state/urlState";
+import { SECTION_RANGE, ViewState } from "@/state/useWatchStore";
+
+const roundTrip = (view: ViewState) =>
+  decodeViewState(encodeViewState(view), referenceCalibre);
+
+describe("encodeViewState", () => {
+  it("leaves the default view out of the link", () => {
+    expect(encodeViewState(defaultViewState())).toBe("");
+  });
+
+  it("keeps separators readable", () => {
+    const view = defaultViewState();
+    view.hiddenLayers = { ...view.hiddenLayers, case: true, hands: true };
+    expect(encodeViewState(view)).toBe("hidden=case,hands");
+  });
+});
+
+describe("decodeViewState", () => {
+  it("round-trips a customised view", () => {
+    const view: ViewState = {
+      ...defaultViewState(),
+      hiddenLayers: { ...defaultViewState().hiddenLayers, case: true },
+      highlightedLayer: "escapement",
+      explodeAmount: 0.5,
+      explodeStaged: true,
+      radialExplode: 0.25,
+      layerOffsets: { gearTrain: 1.5 },
+      displayMode: "live",
+      timeZone: "Europe/Zurich",
+      watchPosition: "crownUp",
+      selectedPart: referenceCalibre.wheels[0].id,
+      cameraView: null,
+      cameraTarget: { position: [1, 2, 3], lookAt: [0, 0.5, 0] },
+      layerOpacity: { ...defaultViewState().layerOpacity, case: 0.4 },
+      sectionPlanes: [
+        {
+          id: "section-link-0",
+          axis: "x",
+          normal: [1, 0, 0],
+          offset: 0.75,
+          enabled: false,
+        },
+      ],
+      sectionLayers: { ...defaultViewState().sectionLayers, hands: false },
+    };
+    expect(roundTrip(view)).toEqual(view);
+  });
+
+  it("falls back to the defaults for anything malformed", () => {
+    const view = decodeViewState(
+      [
+        "hidden=nowhere",
+        "highlight=nowhere",
+        "explode=lots",
+        "mode=fast",
+        "tz=Mars/Olympus_Mons",
+        "position=upsideDown",
+        "part=nothing",
+        "camera=1,2,3",
+        "view=nowhere",
+        "section=q:1:0:0:0,x:0:0:0:0",
+      ].join("&"),
+      referenceCalibre
+    );
+    expect(view).toEqual(defaultViewState());
+  });
+
+  it("clamps numbers to their range", () => {
+    const view = decodeViewState(
+      "explode=4&speed=-1&section=z:0:0:2:99",
+      referenceCalibre
+    );
+    expect(view.explodeAmount).toBe(1);
+    expect(view.rotationSpeed).toBe(0);
+    expect(view.sectionPlanes[0].offset).toBe(SECTION_RANGE);
+    expect(view.sectionPlanes[0].normal).toEqual([0, 0, 1]);
+  });
+
+  it("reads the on/off explode flag of older links", () => {
+    expect(decodeViewState("exploded=1", referenceCalibre).explodeAmount).toBe(
+      1
+    );
+  });
+});
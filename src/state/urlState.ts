@@ -0,0 +1,269 @@
+import { useEffect } from "react";
+import {
+  CalibreDefinition,
+  findCalibrePart,
+  isRegisteredLayer,
+  registeredLayerIds,
+} from "@/calibre";
+import { watchPositions } from "@/simulation/positions";
+import { isValidTimeZone } from "@/simulation/wallClock";
+import {
+  CameraView,
+  MAX_SECTION_PLANES,
+  SECTION_RANGE,
+  SectionAxis,
+  SectionPlane,
+  ViewState,
+  WatchLayer,
+  cameraViewPresets,
+  layerDefaults,
+  useWatchStore,
+  viewStateChanged,
+  viewStateOf,
+} from "@/state/useWatchStore";
+
+/**
+ * Two-way sync between the viewer state and the URL hash, so a link opens
+ * exactly the view it was copied from. Values at their defaults are left out
+ * to keep links short; anything missing or malformed in a link falls back to
+ * the default.
+ */
+
+const cameraViewIds = Object.keys(cameraViewPresets) as CameraView[];
+
+/** Debounce on hash writes, so dragging a slider doesn't flood history. */
+const WRITE_DELAY_MS = 200;
+
+export const defaultViewState = (): ViewState => ({
+  ...viewStateOf(useWatchStore.getInitialState()),
+  ...layerDefaults(),
+});
+
+const sectionAxes: SectionAxis[] = ["x", "y", "z", "free"];
+
+const isLayer = (value: string): value is WatchLayer =>
+  isRegisteredLayer(value);
+
+const formatNumber = (value: number) => `${Math.round(value * 100) / 100}`;
+
+const parseNumber = (value: string | null, min: number, max: number) => {
+  if (value === null || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed)
+    ? Math.min(max, Math.max(min, parsed))
+    : undefined;
+};
+
+export const encodeViewState = (view: ViewState) => {
+  const defaults = defaultViewState();
+  const params = new URLSearchParams();
+
+  const hidden = registeredLayerIds().filter(
+    (layer) => view.hiddenLayers[layer]
+  );
+  if (hidden.length > 0) params.set("hidden", hidden.join(","));
+  if (view.highlightedLayer) params.set("highlight", view.highlightedLayer);
+  if (view.explodeAmount > 0) {
+    params.set("explode", formatNumber(view.explodeAmount));
+  }
+  if (view.explodeStaged) params.set("staged", "1");
+  if (view.radialExplode > 0) {
+    params.set("radial", formatNumber(view.radialExplode));
+  }
+  const offsets = registeredLayerIds()
+    .filter((layer) => view.layerOffsets[layer] !== undefined)
+    .map((layer) => `${layer}:${formatNumber(view.layerOffsets[layer]!)}`);
+  if (offsets.length > 0) params.set("offsets", offsets.join(","));
+  if (view.rotationSpeed !== defaults.rotationSpeed) {
+    params.set("speed", formatNumber(view.rotationSpeed));
+  }
+  if (view.displayMode !== defaults.displayMode) {
+    params.set("mode", view.displayMode);
+  }
+  if (view.timeZone) params.set("tz", view.timeZone);
+  if (view.watchPosition !== defaults.watchPosition) {
+    params.set("position", view.watchPosition);
+  }
+  if (view.selectedPart) params.set("part", view.selectedPart);
+
+  if (view.cameraView) {
+    if (view.cameraView !== defaults.cameraView) {
+      params.set("view", view.cameraView);
+    }
+  } else {
+    params.set(
+      "camera",
+      [...view.cameraTarget.position, ...view.cameraTarget.lookAt]
+        .map(formatNumber)
+        .join(",")
+    );
+  }
+
+  const opacity = registeredLayerIds()
+    .filter(
+      (layer) => view.layerOpacity[layer] !== defaults.layerOpacity[layer]
+    )
+    .map((layer) => `${layer}:${formatNumber(view.layerOpacity[layer])}`);
+  if (opacity.length > 0) params.set("opacity", opacity.join(","));
+
+  // Each plane is axis:nx:ny:nz:offset, with :off when it is switched off.
+  const sections = view.sectionPlanes.map((plane) =>
+    [
+      plane.axis,
+      ...plane.normal.map((component) =>
+        `${Math.round(component * 1000) / 1000}`
+      ),
+      formatNumber(plane.offset),
+      ...(plane.enabled ? [] : ["off"]),
+    ].join(":")
+  );
+  if (sections.length > 0) params.set("section", sections.join(","));
+  const uncut = registeredLayerIds().filter(
+    (layer) => !view.sectionLayers[layer]
+  );
+  if (uncut.length > 0) params.set("uncut", uncut.join(","));
+
+  // Separators are legal in a fragment and keep pasted links readable.
+  return params.toString().replace(/%2C/g, ",").replace(/%3A/g, ":");
+};
+
+export const decodeViewState = (
+  query: string,
+  calibre: CalibreDefinition
+): ViewState => {
+  const params = new URLSearchParams(query);
+  const view = defaultViewState();
+
+  const hidden = (params.get("hidden") ?? "").split(",").filter(isLayer);
+  view.hiddenLayers = Object.fromEntries(
+    registeredLayerIds().map((layer) => [layer, hidden.includes(layer)])
+  ) as Record<WatchLayer, boolean>;
+
+  const highlight = params.get("highlight");
+  if (highlight && isLayer(highlight)) view.highlightedLayer = highlight;
+  // Links from before the explode slider carry a plain on/off flag.
+  view.explodeAmount =
+    parseNumber(params.get("explode"), 0, 1) ??
+    (params.get("exploded") === "1" ? 1 : 0);
+  view.explodeStaged = params.get("staged") === "1";
+  view.radialExplode = parseNumber(params.get("radial"), 0, 1) ?? 0;
+  const layerOffsets: ViewState["layerOffsets"] = {};
+  (params.get("offsets") ?? "").split(",").forEach((entry) => {
+    const [layer, value] = entry.split(":");
+    const parsed = parseNumber(value ?? null, 0, 4);
+    if (isLayer(layer) && parsed !== undefined) layerOffsets[layer] = parsed;
+  });
+  view.layerOffsets = layerOffsets;
+  view.rotationSpeed =
+    parseNumber(params.get("speed"), 0, 1.5) ?? view.rotationSpeed;
+
+  const mode = params.get("mode");
+  if (mode === "live" || mode === "demonstration") view.displayMode = mode;
+  const timeZone = params.get("tz");
+  if (timeZone && isValidTimeZone(timeZone)) view.timeZone = timeZone;
+  const position = watchPositions.find(
+    (entry) => entry.id === params.get("position")
+  );
+  if (position) view.watchPosition = position.id;
+  const part = params.get("part");
+  if (part && findCalibrePart(calibre, part)) view.selectedPart = part;
+
+  const camera = (params.get("camera") ?? "").split(",").map(Number);
+  const cameraView = cameraViewIds.find((id) => id === params.get("view"));
+  if (camera.length === 6 && camera.every(Number.isFinite)) {
+    view.cameraView = null;
+    view.cameraTarget = {
+      position: [camera[0], camera[1], camera[2]],
+      lookAt: [camera[3], camera[4], camera[5]],
+    };
+  } else if (cameraView) {
+    view.cameraView = cameraView;
+    view.cameraTarget = cameraViewPresets[cameraView];
+  }
+
+  const opacity = { ...view.layerOpacity };
+  (params.get("opacity") ?? "").split(",").forEach((entry) => {
+    const [layer, value] = entry.split(":");
+    const parsed = parseNumber(value ?? null, 0, 1);
+    if (isLayer(layer) && parsed !== undefined) opacity[layer] = parsed;
+  });
+  view.layerOpacity = opacity;
+
+  const sectionPlanes: SectionPlane[] = [];
+  (params.get("section") ?? "").split(",").forEach((entry, index) => {
+    const [axis, nx, ny, nz, offset, state] = entry.split(":");
+    const normal = [nx, ny, nz].map(Number) as [number, number, number];
+    const length = Math.hypot(...normal);
+    const parsedOffset = parseNumber(
+      offset ?? null,
+      -SECTION_RANGE,
+      SECTION_RANGE
+    );
+    if (
+      !sectionAxes.includes(axis as SectionAxis) ||
+      !(length > 0) ||
+      parsedOffset === undefined
+    ) {
+      return;
+    }
+    sectionPlanes.push({
+      id: `section-link-${index}`,
+      axis: axis as SectionAxis,
+      normal: normal.map((component) => component / length) as [
+        number,
+        number,
+        number,
+      ],
+      offset: parsedOffset,
+      enabled: state !== "off",
+    });
+  });
+  view.sectionPlanes = sectionPlanes.slice(0, MAX_SECTION_PLANES);
+  const uncut = (params.get("uncut") ?? "").split(",").filter(isLayer);
+  view.sectionLayers = Object.fromEntries(
+    registeredLayerIds().map((layer) => [layer, !uncut.includes(layer)])
+  ) as Record<WatchLayer, boolean>;
+
+  return view;
+};
+
+export const readHash = () => window.location.hash.replace(/^#/, "");
+
+const applyHash = () => {
+  const { calibre, applyViewState } = useWatchStore.getState();
+  applyViewState(decodeViewState(readHash(), calibre));
+};
+
+/**
+ * Loads the view from the URL on mount, follows links pasted into the same
+ * tab, and keeps the hash up to date as the view changes.
+ */
+export const useUrlStateSync = () => {
+  useEffect(() => {
+    if (readHash()) applyHash();
+
+    // The store also carries simulation state that changes every frame.
+    let timer: number | undefined;
+    const unsubscribe = useWatchStore.subscribe((state, previous) => {
+      if (!viewStateChanged(state, previous)) return;
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        const hash = encodeViewState(state);
+        if (hash === readHash()) return;
+        const { pathname, search } = window.location;
+        window.history.replaceState(
+          window.history.state,
+          "",
+          hash ? `${pathname}${search}#${hash}` : `${pathname}${search}`
+        );
+      }, WRITE_DELAY_MS);
+    });
+
+    window.addEventListener("hashchange", applyHash);
+    return () => {
+      unsubscribe();
+      window.clearTimeout(timer);
+      window.removeEventListener("hashchange", applyHash);
+    };
+  }, []);
+};
@@ -1,12 +1,23 @@
+import type { Object3D } from "three";
 import { create } from "zustand";
+import {
+  CalibreDefinition,
+  findCalibrePart,
+  onLayersRegistered,
+  partAxis,
+  referenceCalibre,
+  registeredLayerIds,
+  registeredLayers,
+  toothedPartInfo,
+} from "@/calibre";
+import { windFromCrown } from "@/simulation/mainspring";
+import { WatchPosition } from "@/simulation/positions";
+import { RegulationState, neutralRegulation } from "@/simulation/regulation";
+import { isValidTimeZone } from "@/simulation/wallClock";
+import type { TourDefinition } from "@/tours/schema";
 
-export type WatchLayer =
-  | "case"
-  | "basePlate"
-  | "gearTrain"
-  | "escapement"
-  | "balance"
-  | "hands";
+/** Id of a layer in the layer registry. */
+export type WatchLayer = string;
 
 export type CameraView =
   | "isometric"
@@ -16,11 +27,128 @@ export type CameraView =
   | "gearTrain"
   | "balance";
 
+export type DisplayMode = "demonstration" | "live";
+
+export type SecondsMotion = "sweep" | "beat";
+
+export type SectionAxis = "x" | "y" | "z" | "free";
+
+/**
+ * A cutting plane. Everything on the far side from `normal` is cut away from
+ * the layers being sectioned.
+ */
+export interface SectionPlane {
+  id: string;
+  /** Axis the plane stays square to; free planes can be tilted. */
+  axis: SectionAxis;
+  /** Unit normal pointing into the half that stays visible. */
+  normal: [number, number, number];
+  /** Signed distance of the plane from the origin along its normal. */
+  offset: number;
+  enabled: boolean;
+}
+
+export type MeasureKind = "distance" | "centres" | "pitch" | "angle";
+
+/**
+ * A point picked on a part, in its layer's frame as if the movement were
+ * assembled, so lifting or spreading the layers doesn't change a dimension.
+ */
+export interface MeasurePick {
+  part: string;
+  layer: WatchLayer;
+  point: [number, number, number];
+}
+
+export interface Measurement {
+  id: string;
+  kind: MeasureKind;
+  picks: MeasurePick[];
+}
+
+/** Picks that complete each kind of measurement. */
+export const measurePickCount: Record<MeasureKind, number> = {
+  distance: 2,
+  centres: 2,
+  pitch: 1,
+  angle: 3,
+};
+
+/** Whether `part` can be picked for a measurement of `kind`. */
+export const acceptsMeasurePick = (
+  calibre: CalibreDefinition,
+  kind: MeasureKind,
+  part: string
+) => {
+  if (kind === "centres") return partAxis(calibre, part) !== undefined;
+  if (kind === "pitch") return toothedPartInfo(calibre, part) !== undefined;
+  return true;
+};
+
 export interface CameraTarget {
   position: [number, number, number];
   lookAt: [number, number, number];
 }
 
+export type SceneExportFormat = "glb" | "gltf" | "stl" | "obj";
+
+export interface SceneExportRequest {
+  format: SceneExportFormat;
+  /** Export only this layer; everything on show when omitted. */
+  layer?: WatchLayer;
+  /** Export only this part, at its own origin. */
+  part?: string;
+  /** STL and OBJ: multiplies the true size, for enlarged models. */
+  scale?: number;
+  /** STL and OBJ: weld everything into a single mesh. */
+  merge?: boolean;
+}
+
+export type CaptureKind = "still" | "turntable" | "tour";
+
+export interface CaptureRequest {
+  kind: CaptureKind;
+  /** Output size in pixels, whatever the size of the canvas on screen. */
+  width: number;
+  height: number;
+  /** Stills: leave the background clear. */
+  transparent?: boolean;
+  /** Video: frames captured per second. */
+  frameRate?: number;
+  /** Turntable: seconds for one turn around the movement. */
+  seconds?: number;
+}
+
+/** A glTF model shown in place of the calibre's own parts. */
+export interface ImportedModel {
+  fileName: string;
+  /** Top-level nodes, each holding its place in the model's own frame. */
+  nodes: Object3D[];
+  /** Uniform scale that brings the model to the movement's size. */
+  scale: number;
+  /** Moves the scaled model to sit centred on the mainplate. */
+  offset: [number, number, number];
+}
+
+/** A camera pose the user has kept alongside the built-in presets. */
+export interface CameraBookmark {
+  id: string;
+  name: string;
+  target: CameraTarget;
+}
+
+export interface CameraKeyframe extends CameraTarget {
+  /** Seconds from the start of the path; ascending along the path. */
+  time: number;
+}
+
+/** A recorded camera move, played back along a spline through its keys. */
+export interface CameraPath {
+  id: string;
+  name: string;
+  keyframes: CameraKeyframe[];
+}
+
 const cameraPresets: Record<CameraView, CameraTarget> = {
   isometric: {
     position: [8, 6, 8],
@@ -49,49 +177,304 @@ const cameraPresets: Record<CameraView, CameraTarget> = {
 };
 
 interface WatchState {
+  calibre: CalibreDefinition;
   hiddenLayers: Record<WatchLayer, boolean>;
   highlightedLayer: WatchLayer | null;
-  exploded: boolean;
+  /** How far the layers are lifted apart, from 0 (stacked) to 1. */
+  explodeAmount: number;
+  /** Lift layers one after another rather than all together. */
+  explodeStaged: boolean;
+  /** How far parts spread out from their layer's centre, 0 to 1. */
+  radialExplode: number;
+  /** Full-explode lift per layer, replacing the default spacing. */
+  layerOffsets: Partial<Record<WatchLayer, number>>;
   rotationSpeed: number;
-  cameraView: CameraView;
+  displayMode: DisplayMode;
+  /** IANA zone shown in live mode; null follows the device. */
+  timeZone: string | null;
+  secondsMotion: SecondsMotion;
+  /** Mainspring state of wind, from 0 (let down) to 1 (fully wound). */
+  windFraction: number;
+  regulation: RegulationState;
+  /** Orientation the movement is held in for positional timing. */
+  watchPosition: WatchPosition;
+  /** Part id under the pointer in the scene. */
+  hoveredPart: string | null;
+  selectedPart: string | null;
+  /** Part the camera has been asked to frame, until the scene picks it up. */
+  cameraFocus: string | null;
+  /** Preset the camera is at; null once it has been moved elsewhere. */
+  cameraView: CameraView | null;
   cameraTarget: CameraTarget;
   layerOpacity: Record<WatchLayer, number>;
+  sectionPlanes: SectionPlane[];
+  /** Layers the section planes cut through; the rest stay whole. */
+  sectionLayers: Record<WatchLayer, boolean>;
+  /** Show drag handles on the enabled section planes. */
+  sectionGizmos: boolean;
+  /** Measurement being taken; clicks in the scene pick points while set. */
+  measureKind: MeasureKind | null;
+  measurePicks: MeasurePick[];
+  measurements: Measurement[];
+  /** Replaces the calibre's millimetres per scene unit; null keeps it. */
+  measureScale: number | null;
+  /** Outline parts the meshing check finds fault with. */
+  meshingOverlay: boolean;
+  /** Export the scene has been asked for, until it picks it up. */
+  sceneExport: SceneExportRequest | null;
+  /** Why the last export failed, if it did. */
+  sceneExportError: string | null;
+  /** Still or recording under way, until it is saved or stopped. */
+  capture: CaptureRequest | null;
+  /** Why the last capture failed, if it did. */
+  captureError: string | null;
+  /** Tour being presented, if any. */
+  tour: TourDefinition | null;
+  tourStep: number;
+  /** Step through the tour on a timer. */
+  tourPlaying: boolean;
+  /** Model loaded from a glTF file; replaces the calibre's parts. */
+  importedModel: ImportedModel | null;
+  /** Layer each imported node name is shown with; null leaves it fixed. */
+  importedLayers: Record<string, WatchLayer | null>;
   toggleLayer: (layer: WatchLayer) => void;
   showOnlyLayer: (layer: WatchLayer) => void;
   setHighlightedLayer: (layer: WatchLayer | null) => void;
   revealAll: () => void;
-  setExploded: (value: boolean) => void;
+  setExplodeAmount: (value: number) => void;
+  setExplodeStaged: (value: boolean) => void;
+  setRadialExplode: (value: number) => void;
+  setLayerOffset: (layer: WatchLayer, offset: number | null) => void;
   setRotationSpeed: (value: number) => void;
+  setDisplayMode: (mode: DisplayMode) => void;
+  setTimeZone: (timeZone: string | null) => void;
+  setSecondsMotion: (motion: SecondsMotion) => void;
+  setWindFraction: (value: number) => void;
+  windCrown: (crownTurns: number) => void;
+  setRegulatorIndex: (value: number) => void;
+  setScrewOffset: (screw: number, offset: number) => void;
+  resetRegulation: () => void;
+  setWatchPosition: (position: WatchPosition) => void;
+  setHoveredPart: (part: string | null) => void;
+  selectPart: (part: string | null) => void;
+  focusPart: (part: string) => void;
+  clearCameraFocus: () => void;
   setCameraView: (view: CameraView) => void;
+  setCameraTarget: (target: CameraTarget) => void;
   setLayerOpacity: (layer: WatchLayer, opacity: number) => void;
+  addSectionPlane: (axis: SectionAxis) => void;
+  updateSectionPlane: (
+    id: string,
+    changes: Partial<Omit<SectionPlane, "id">>
+  ) => void;
+  flipSectionPlane: (id: string) => void;
+  removeSectionPlane: (id: string) => void;
+  setSectionLayer: (layer: WatchLayer, cut: boolean) => void;
+  setSectionGizmos: (visible: boolean) => void;
+  setMeasureKind: (kind: MeasureKind | null) => void;
+  addMeasurePick: (pick: MeasurePick) => void;
+  removeMeasurement: (id: string) => void;
+  clearMeasurements: () => void;
+  setMeasureScale: (scale: number | null) => void;
+  setMeshingOverlay: (visible: boolean) => void;
+  requestSceneExport: (request: SceneExportRequest) => void;
+  clearSceneExport: () => void;
+  setSceneExportError: (error: string | null) => void;
+  requestCapture: (request: CaptureRequest) => void;
+  endCapture: (error?: string | null) => void;
+  setTour: (tour: TourDefinition | null) => void;
+  setTourStep: (index: number) => void;
+  setTourPlaying: (playing: boolean) => void;
+  setImportedModel: (
+    model: ImportedModel | null,
+    layers?: Record<string, WatchLayer | null>
+  ) => void;
+  setImportedLayer: (node: string, layer: WatchLayer | null) => void;
+  setCalibre: (calibre: CalibreDefinition) => void;
+  /**
+   * Swaps in the calibre with its train edited, keeping regulation, the
+   * view, any tour and the selection and measurements that still apply.
+   */
+  updateCalibreTrain: (calibre: CalibreDefinition) => void;
+  applyViewState: (view: Partial<ViewState>) => void;
+  savedViews: SavedView[];
+  saveView: (name: string) => void;
+  renameView: (id: string, name: string) => void;
+  deleteView: (id: string) => void;
+  restoreView: (id: string) => void;
+  setSavedViews: (views: SavedView[]) => void;
+  cameraBookmarks: CameraBookmark[];
+  cameraPaths: CameraPath[];
+  /** Path the camera is flying along; null when it is free. */
+  playingCameraPath: string | null;
+  cameraPathLoop: boolean;
+  addCameraBookmark: (name: string) => void;
+  deleteCameraBookmark: (id: string) => void;
+  addCameraPath: (name: string) => void;
+  deleteCameraPath: (id: string) => void;
+  addCameraKeyframe: (pathId: string) => void;
+  setCameraKeyframeGap: (
+    pathId: string,
+    index: number,
+    seconds: number
+  ) => void;
+  removeCameraKeyframe: (pathId: string, index: number) => void;
+  playCameraPath: (id: string | null) => void;
+  setCameraPathLoop: (loop: boolean) => void;
+  setCameraLibrary: (
+    bookmarks: CameraBookmark[],
+    paths: CameraPath[]
+  ) => void;
 }
 
-const defaultLayerVisibility: Record<WatchLayer, boolean> = {
-  case: false,
-  basePlate: false,
-  gearTrain: false,
-  escapement: false,
-  balance: false,
-  hands: false,
+/** The part of the store that describes what is on screen, for sharing. */
+export type ViewState = Pick<
+  WatchState,
+  | "hiddenLayers"
+  | "highlightedLayer"
+  | "explodeAmount"
+  | "explodeStaged"
+  | "radialExplode"
+  | "layerOffsets"
+  | "rotationSpeed"
+  | "displayMode"
+  | "timeZone"
+  | "watchPosition"
+  | "selectedPart"
+  | "cameraView"
+  | "cameraTarget"
+  | "layerOpacity"
+  | "sectionPlanes"
+  | "sectionLayers"
+>;
+
+const viewStateKeys: (keyof ViewState)[] = [
+  "hiddenLayers",
+  "highlightedLayer",
+  "explodeAmount",
+  "explodeStaged",
+  "radialExplode",
+  "layerOffsets",
+  "rotationSpeed",
+  "displayMode",
+  "timeZone",
+  "watchPosition",
+  "selectedPart",
+  "cameraView",
+  "cameraTarget",
+  "layerOpacity",
+  "sectionPlanes",
+  "sectionLayers",
+];
+
+export const viewStateOf = (state: ViewState): ViewState => ({
+  hiddenLayers: state.hiddenLayers,
+  highlightedLayer: state.highlightedLayer,
+  explodeAmount: state.explodeAmount,
+  explodeStaged: state.explodeStaged,
+  radialExplode: state.radialExplode,
+  layerOffsets: state.layerOffsets,
+  rotationSpeed: state.rotationSpeed,
+  displayMode: state.displayMode,
+  timeZone: state.timeZone,
+  watchPosition: state.watchPosition,
+  selectedPart: state.selectedPart,
+  cameraView: state.cameraView,
+  cameraTarget: state.cameraTarget,
+  layerOpacity: state.layerOpacity,
+  sectionPlanes: state.sectionPlanes,
+  sectionLayers: state.sectionLayers,
+});
+
+/** True when any part of the on-screen view differs between two states. */
+export const viewStateChanged = (a: ViewState, b: ViewState) =>
+  viewStateKeys.some((key) => a[key] !== b[key]);
+
+export interface SavedView {
+  id: string;
+  name: string;
+  /** Epoch milliseconds. */
+  savedAt: number;
+  view: ViewState;
+}
+
+/** Starting visibility, opacity and sectioning of every registered layer. */
+export const layerDefaults = () => {
+  const layers = registeredLayers();
+  const record = <Value>(value: (layer: (typeof layers)[number]) => Value) =>
+    Object.fromEntries(
+      layers.map((layer) => [layer.id, value(layer)])
+    ) as Record<WatchLayer, Value>;
+  return {
+    hiddenLayers: record((layer) => layer.hidden ?? false),
+    layerOpacity: record((layer) => layer.opacity ?? 1),
+    sectionLayers: record((layer) => layer.sectioned ?? true),
+  };
+};
+
+/** More planes than this make the stencil caps too costly to draw. */
+export const MAX_SECTION_PLANES = 3;
+
+/** Furthest a section plane can sit from the origin, in scene units. */
+export const SECTION_RANGE = 6;
+
+/**
+ * Starting normals, facing away from the isometric camera so a new plane
+ * opens up the side in view.
+ */
+const sectionNormals: Record<SectionAxis, [number, number, number]> = {
+  x: [-1, 0, 0],
+  y: [0, -1, 0],
+  z: [0, 0, -1],
+  free: [-Math.SQRT1_2, 0, -Math.SQRT1_2],
 };
 
-const defaultLayerOpacity: Record<WatchLayer, number> = {
-  case: 1,
-  basePlate: 1,
-  gearTrain: 1,
-  escapement: 1,
-  balance: 1,
-  hands: 1,
+/** Seconds between a new keyframe and the one before it. */
+export const DEFAULT_KEYFRAME_GAP = 3;
+
+const normalized = ([x, y, z]: [number, number, number]) => {
+  const length = Math.hypot(x, y, z);
+  return length > 0
+    ? ([x / length, y / length, z / length] as [number, number, number])
+    : null;
 };
 
 export const useWatchStore = create<WatchState>((set) => ({
-  hiddenLayers: { ...defaultLayerVisibility },
+  calibre: referenceCalibre,
+  ...layerDefaults(),
   highlightedLayer: null,
-  exploded: false,
+  explodeAmount: 0,
+  explodeStaged: false,
+  radialExplode: 0,
+  layerOffsets: {},
   rotationSpeed: 0.65,
+  displayMode: "demonstration",
+  timeZone: null,
+  secondsMotion: "beat",
+  windFraction: 1,
+  regulation: neutralRegulation(referenceCalibre),
+  watchPosition: "dialUp",
+  hoveredPart: null,
+  selectedPart: null,
+  cameraFocus: null,
   cameraView: "isometric",
   cameraTarget: cameraPresets.isometric,
-  layerOpacity: { ...defaultLayerOpacity },
+  sectionPlanes: [],
+  sectionGizmos: true,
+  measureKind: null,
+  measurePicks: [],
+  measurements: [],
+  measureScale: null,
+  meshingOverlay: true,
+  sceneExport: null,
+  sceneExportError: null,
+  capture: null,
+  captureError: null,
+  tour: null,
+  tourStep: 0,
+  tourPlaying: false,
+  importedModel: null,
+  importedLayers: {},
   toggleLayer: (layer) =>
     set((state) => ({
       hiddenLayers: {
@@ -103,38 +486,130 @@ export const useWatchStore = create<WatchState>((set) => ({
     })),
   showOnlyLayer: (layer) =>
     set(() => ({
-      hiddenLayers: {
-        case: layer !== "case",
-        basePlate: layer !== "basePlate",
-        gearTrain: layer !== "gearTrain",
-        escapement: layer !== "escapement",
-        balance: layer !== "balance",
-        hands: layer !== "hands",
-      },
+      hiddenLayers: Object.fromEntries(
+        registeredLayerIds().map((id) => [id, id !== layer])
+      ),
       highlightedLayer: layer,
     })),
   revealAll: () =>
     set(() => ({
-      hiddenLayers: { ...defaultLayerVisibility },
+      hiddenLayers: Object.fromEntries(
+        registeredLayerIds().map((id) => [id, false])
+      ),
       highlightedLayer: null,
     })),
   setHighlightedLayer: (layer) =>
     set(() => ({
       highlightedLayer: layer,
     })),
-  setExploded: (value) =>
+  setExplodeAmount: (value) =>
     set(() => ({
-      exploded: value,
+      explodeAmount: Math.min(1, Math.max(0, value)),
     })),
+  setExplodeStaged: (value) =>
+    set(() => ({
+      explodeStaged: value,
+    })),
+  setRadialExplode: (value) =>
+    set(() => ({
+      radialExplode: Math.min(1, Math.max(0, value)),
+    })),
+  setLayerOffset: (layer, offset) =>
+    set((state) => {
+      const layerOffsets = { ...state.layerOffsets };
+      if (offset === null) {
+        delete layerOffsets[layer];
+      } else {
+        layerOffsets[layer] = Math.min(4, Math.max(0, offset));
+      }
+      return { layerOffsets };
+    }),
   setRotationSpeed: (value) =>
     set(() => ({
       rotationSpeed: Math.min(1.5, Math.max(0, value)),
     })),
+  setDisplayMode: (mode) =>
+    set(() => ({
+      displayMode: mode,
+    })),
+  setTimeZone: (timeZone) =>
+    set((state) => ({
+      timeZone:
+        timeZone === null || isValidTimeZone(timeZone)
+          ? timeZone
+          : state.timeZone,
+    })),
+  setSecondsMotion: (motion) =>
+    set(() => ({
+      secondsMotion: motion,
+    })),
+  setWindFraction: (value) =>
+    set(() => ({
+      windFraction: Math.min(1, Math.max(0, value)),
+    })),
+  windCrown: (crownTurns) =>
+    set((state) => ({
+      windFraction: Math.min(
+        1,
+        state.windFraction + windFromCrown(state.calibre, crownTurns)
+      ),
+    })),
+  setRegulatorIndex: (value) =>
+    set((state) => ({
+      regulation: {
+        ...state.regulation,
+        regulatorIndex: Math.min(1, Math.max(-1, value)),
+      },
+    })),
+  setScrewOffset: (screw, offset) =>
+    set((state) => {
+      const travel = state.calibre.balance.inertia.screwTravel;
+      return {
+        regulation: {
+          ...state.regulation,
+          screwOffsets: state.regulation.screwOffsets.map((current, index) =>
+            index === screw
+              ? Math.min(travel, Math.max(-travel, offset))
+              : current
+          ),
+        },
+      };
+    }),
+  resetRegulation: () =>
+    set((state) => ({
+      regulation: neutralRegulation(state.calibre),
+    })),
+  setWatchPosition: (position) =>
+    set(() => ({
+      watchPosition: position,
+    })),
+  setHoveredPart: (part) =>
+    set(() => ({
+      hoveredPart: part,
+    })),
+  selectPart: (part) =>
+    set(() => ({
+      selectedPart: part,
+    })),
+  focusPart: (part) =>
+    set(() => ({
+      selectedPart: part,
+      cameraFocus: part,
+    })),
+  clearCameraFocus: () =>
+    set(() => ({
+      cameraFocus: null,
+    })),
   setCameraView: (view) =>
     set(() => ({
       cameraView: view,
       cameraTarget: cameraPresets[view],
     })),
+  setCameraTarget: (target) =>
+    set(() => ({
+      cameraView: null,
+      cameraTarget: target,
+    })),
   setLayerOpacity: (layer, opacity) =>
     set((state) => ({
       layerOpacity: {
@@ -142,6 +617,363 @@ export const useWatchStore = create<WatchState>((set) => ({
         [layer]: Math.min(1, Math.max(0, opacity)),
       },
     })),
+  addSectionPlane: (axis) =>
+    set((state) =>
+      state.sectionPlanes.length >= MAX_SECTION_PLANES
+        ? {}
+        : {
+            sectionPlanes: [
+              ...state.sectionPlanes,
+              {
+                id: `section-${Date.now().toString(36)}-${
+                  state.sectionPlanes.length
+                }`,
+                axis,
+                normal: sectionNormals[axis],
+                offset: 0,
+                enabled: true,
+              },
+            ],
+          }
+    ),
+  updateSectionPlane: (id, changes) =>
+    set((state) => ({
+      sectionPlanes: state.sectionPlanes.map((plane) => {
+        if (plane.id !== id) return plane;
+        const next = { ...plane, ...changes };
+        // Squaring a plane to an axis snaps it to that axis.
+        if (changes.axis && changes.axis !== "free" && !changes.normal) {
+          next.normal = sectionNormals[changes.axis];
+        }
+        return {
+          ...next,
+          normal: normalized(next.normal) ?? plane.normal,
+          offset: Math.min(
+            SECTION_RANGE,
+            Math.max(-SECTION_RANGE, next.offset)
+          ),
+        };
+      }),
+    })),
+  flipSectionPlane: (id) =>
+    set((state) => ({
+      sectionPlanes: state.sectionPlanes.map((plane) =>
+        plane.id === id
+          ? {
+              ...plane,
+              normal: plane.normal.map((component) => -component) as [
+                number,
+                number,
+                number,
+              ],
+              offset: -plane.offset,
+            }
+          : plane
+      ),
+    })),
+  removeSectionPlane: (id) =>
+    set((state) => ({
+      sectionPlanes: state.sectionPlanes.filter((plane) => plane.id !== id),
+    })),
+  setSectionLayer: (layer, cut) =>
+    set((state) => ({
+      sectionLayers: {
+        ...state.sectionLayers,
+        [layer]: cut,
+      },
+    })),
+  setSectionGizmos: (visible) =>
+    set(() => ({
+      sectionGizmos: visible,
+    })),
+  setMeasureKind: (kind) =>
+    set(() => ({
+      measureKind: kind,
+      measurePicks: [],
+    })),
+  addMeasurePick: (pick) =>
+    set((state) => {
+      const kind = state.measureKind;
+      if (!kind || !acceptsMeasurePick(state.calibre, kind, pick.part)) {
+        return {};
+      }
+      const picks = [...state.measurePicks, pick];
+      if (picks.length < measurePickCount[kind]) {
+        return { measurePicks: picks };
+      }
+      return {
+        measurePicks: [],
+        measurements: [
+          ...state.measurements,
+          {
+            id: `measure-${Date.now().toString(36)}-${
+              state.measurements.length
+            }`,
+            kind,
+            picks,
+          },
+        ],
+      };
+    }),
+  removeMeasurement: (id) =>
+    set((state) => ({
+      measurements: state.measurements.filter(
+        (measurement) => measurement.id !== id
+      ),
+    })),
+  clearMeasurements: () =>
+    set(() => ({
+      measurePicks: [],
+      measurements: [],
+    })),
+  setMeasureScale: (scale) =>
+    set(() => ({
+      measureScale: scale !== null && scale > 0 ? scale : null,
+    })),
+  setMeshingOverlay: (visible) =>
+    set(() => ({
+      meshingOverlay: visible,
+    })),
+  requestSceneExport: (request) =>
+    set(() => ({
+      sceneExport: request,
+      sceneExportError: null,
+    })),
+  clearSceneExport: () =>
+    set(() => ({
+      sceneExport: null,
+    })),
+  setSceneExportError: (error) =>
+    set(() => ({
+      sceneExportError: error,
+    })),
+  requestCapture: (request) =>
+    set(() => ({
+      capture: request,
+      captureError: null,
+    })),
+  endCapture: (error = null) =>
+    set(() => ({
+      capture: null,
+      captureError: error,
+    })),
+  setTour: (tour) =>
+    set(() => ({
+      tour,
+      tourStep: 0,
+      tourPlaying: false,
+    })),
+  setTourStep: (index) =>
+    set((state) => ({
+      tourStep: state.tour
+        ? Math.min(state.tour.steps.length - 1, Math.max(0, index))
+        : 0,
+    })),
+  setTourPlaying: (playing) =>
+    set(() => ({
+      tourPlaying: playing,
+    })),
+  setImportedModel: (model, layers = {}) =>
+    set(() => ({
+      importedModel: model,
+      importedLayers: layers,
+      hoveredPart: null,
+      selectedPart: null,
+      cameraFocus: null,
+    })),
+  setImportedLayer: (node, layer) =>
+    set((state) => ({
+      importedLayers: { ...state.importedLayers, [node]: layer },
+    })),
+  setCalibre: (calibre) =>
+    set(() => ({
+      calibre,
+      measurePicks: [],
+      measurements: [],
+      measureScale: null,
+      tour: null,
+      tourPlaying: false,
+      highlightedLayer: null,
+      regulation: neutralRegulation(calibre),
+      hoveredPart: null,
+      selectedPart: null,
+      cameraFocus: null,
+    })),
+  updateCalibreTrain: (calibre) =>
+    set((state) => {
+      const kept = (part: string | null) =>
+        part !== null && findCalibrePart(calibre, part) ? part : null;
+      const picksKept = (picks: MeasurePick[]) =>
+        picks.every((pick) => kept(pick.part) !== null);
+      return {
+        calibre,
+        measurePicks: picksKept(state.measurePicks) ? state.measurePicks : [],
+        measurements: state.measurements.filter((measurement) =>
+          picksKept(measurement.picks)
+        ),
+        hoveredPart: kept(state.hoveredPart),
+        selectedPart: kept(state.selectedPart),
+        cameraFocus: kept(state.cameraFocus),
+      };
+    }),
+  applyViewState: (view) =>
+    set(() => ({
+      ...view,
+    })),
+  savedViews: [],
+  saveView: (name) =>
+    set((state) => ({
+      savedViews: [
+        ...state.savedViews,
+        {
+          id: `view-${Date.now().toString(36)}-${state.savedViews.length}`,
+          name: name.trim() || `View ${state.savedViews.length + 1}`,
+          savedAt: Date.now(),
+          view: viewStateOf(state),
+        },
+      ],
+    })),
+  renameView: (id, name) =>
+    set((state) => ({
+      savedViews: state.savedViews.map((view) =>
+        view.id === id && name.trim() ? { ...view, name: name.trim() } : view
+      ),
+    })),
+  deleteView: (id) =>
+    set((state) => ({
+      savedViews: state.savedViews.filter((view) => view.id !== id),
+    })),
+  restoreView: (id) =>
+    set((state) => ({
+      ...state.savedViews.find((view) => view.id === id)?.view,
+    })),
+  setSavedViews: (views) =>
+    set(() => ({
+      savedViews: views,
+    })),
+  cameraBookmarks: [],
+  cameraPaths: [],
+  playingCameraPath: null,
+  cameraPathLoop: false,
+  addCameraBookmark: (name) =>
+    set((state) => ({
+      cameraBookmarks: [
+        ...state.cameraBookmarks,
+        {
+          id: `bookmark-${Date.now().toString(36)}-${
+            state.cameraBookmarks.length
+          }`,
+          name: name.trim() || `Bookmark ${state.cameraBookmarks.length + 1}`,
+          target: state.cameraTarget,
+        },
+      ],
+    })),
+  deleteCameraBookmark: (id) =>
+    set((state) => ({
+      cameraBookmarks: state.cameraBookmarks.filter(
+        (bookmark) => bookmark.id !== id
+      ),
+    })),
+  addCameraPath: (name) =>
+    set((state) => ({
+      cameraPaths: [
+        ...state.cameraPaths,
+        {
+          id: `path-${Date.now().toString(36)}-${state.cameraPaths.length}`,
+          name: name.trim() || `Path ${state.cameraPaths.length + 1}`,
+          keyframes: [],
+        },
+      ],
+    })),
+  deleteCameraPath: (id) =>
+    set((state) => ({
+      cameraPaths: state.cameraPaths.filter((path) => path.id !== id),
+      playingCameraPath:
+        state.playingCameraPath === id ? null : state.playingCameraPath,
+    })),
+  addCameraKeyframe: (pathId) =>
+    set((state) => ({
+      cameraPaths: state.cameraPaths.map((path) => {
+        if (path.id !== pathId) return path;
+        const last = path.keyframes[path.keyframes.length - 1];
+        return {
+          ...path,
+          keyframes: [
+            ...path.keyframes,
+            {
+              ...state.cameraTarget,
+              time: last ? last.time + DEFAULT_KEYFRAME_GAP : 0,
+            },
+          ],
+        };
+      }),
+    })),
+  setCameraKeyframeGap: (pathId, index, seconds) =>
+    set((state) => ({
+      cameraPaths: state.cameraPaths.map((path) => {
+        const previous = path.keyframes[index - 1];
+        if (path.id !== pathId || !previous) return path;
+        // Later keys move with this one, so the other gaps are kept.
+        const shift =
+          previous.time + Math.max(0.1, seconds) - path.keyframes[index].time;
+        return {
+          ...path,
+          keyframes: path.keyframes.map((keyframe, position) =>
+            position >= index
+              ? { ...keyframe, time: keyframe.time + shift }
+              : keyframe
+          ),
+        };
+      }),
+    })),
+  removeCameraKeyframe: (pathId, index) =>
+    set((state) => ({
+      cameraPaths: state.cameraPaths.map((path) => {
+        if (path.id !== pathId) return path;
+        const keyframes = path.keyframes.filter(
+          (_, position) => position !== index
+        );
+        // The path keeps starting at zero when its first key goes.
+        const start = keyframes[0]?.time ?? 0;
+        return {
+          ...path,
+          keyframes: keyframes.map((keyframe) => ({
+            ...keyframe,
+            time: keyframe.time - start,
+          })),
+        };
+      }),
+    })),
+  playCameraPath: (id) =>
+    set(() => ({
+      playingCameraPath: id,
+    })),
+  setCameraPathLoop: (loop) =>
+    set(() => ({
+      cameraPathLoop: loop,
+    })),
+  setCameraLibrary: (bookmarks, paths) =>
+    set((state) => ({
+      cameraBookmarks: bookmarks,
+      cameraPaths: paths,
+      playingCameraPath: paths.some(
+        (path) => path.id === state.playingCameraPath
+      )
+        ? state.playingCameraPath
+        : null,
+    })),
 }));
 
+// Layers registered once the store exists start in their own default state.
+onLayersRegistered(() =>
+  useWatchStore.setState((state) => {
+    const defaults = layerDefaults();
+    return {
+      hiddenLayers: { ...defaults.hiddenLayers, ...state.hiddenLayers },
+      layerOpacity: { ...defaults.layerOpacity, ...state.layerOpacity },
+      sectionLayers: { ...defaults.sectionLayers, ...state.sectionLayers },
+    };
+  })
+);
+
 export const cameraViewPresets = cameraPresets;
@@ -0,0 +1,11 @@
+import { referenceCalibre } from "@/calibre";
+import introductionJson from "@/tours/tours/introduction.json";
+import { parseTour } from "@/tours/load";
+
+export * from "@/tours/schema";
+export { validateTour } from "@/tours/validate";
+export type { TourIssue } from "@/tours/validate";
+export { TourValidationError, parseTour, parseTourJson } from "@/tours/load";
+
+/** Tours that ship with the viewer. */
+export const builtInTours = [parseTour(introductionJson, referenceCalibre)];
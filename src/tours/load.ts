@@ -0,0 +1,47 @@
+import { CalibreDefinition } from "@/calibre/schema";
+import { TourDefinition } from "@/tours/schema";
+import { TourIssue, validateTour } from "@/tours/validate";
+
+export class TourValidationError extends Error {
+  readonly issues: TourIssue[];
+
+  constructor(issues: TourIssue[]) {
+    super(
+      `Invalid tour:\n${issues
+        .map((issue) => `  ${issue.path}: ${issue.message}`)
+        .join("\n")}`
+    );
+    this.name = "TourValidationError";
+    this.issues = issues;
+  }
+}
+
+/** Validates untrusted JSON and narrows it to a tour definition. */
+export const parseTour = (
+  input: unknown,
+  calibre?: CalibreDefinition
+): TourDefinition => {
+  const issues = validateTour(input, calibre);
+  if (issues.length > 0) {
+    throw new TourValidationError(issues);
+  }
+  return input as TourDefinition;
+};
+
+export const parseTourJson = (
+  source: string,
+  calibre?: CalibreDefinition
+): TourDefinition => {
+  let input: unknown;
+  try {
+    input = JSON.parse(source);
+  } catch (error) {
+    throw new TourValidationError([
+      {
+        path: "$",
+        message: error instanceof Error ? error.message : "malformed JSON",
+      },
+    ]);
+  }
+  return parseTour(input, calibre);
+};
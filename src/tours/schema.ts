@@ -0,0 +1,47 @@
+import type { Vec3 } from "@/calibre/schema";
+import type { CameraView, WatchLayer } from "@/state/useWatchStore";
+
+/**
+ * Tours are authored presentations: an ordered list of steps, each setting
+ * up the view and carrying the narration to read over it. Anything a step
+ * leaves out falls back to the default view, so a step looks the same
+ * whether it is reached going forwards or backwards.
+ */
+export const TOUR_SCHEMA_VERSION = 1;
+
+export interface TourCameraPose {
+  position: Vec3;
+  lookAt: Vec3;
+}
+
+export interface TourStep {
+  title: string;
+  narration: string;
+  /** A named camera view or a free pose. */
+  camera: CameraView | TourCameraPose;
+  /** Layers left visible; all of them when omitted. */
+  layers?: WatchLayer[];
+  /** Shows only this layer and highlights it, overriding `layers`. */
+  isolate?: WatchLayer;
+  highlight?: WatchLayer;
+  /** Per-layer opacity from 0 to 1; unlisted layers keep their default. */
+  opacity?: Record<WatchLayer, number>;
+  /** Explode amount from 0 (stacked) to 1. */
+  explode?: number;
+  /** Simulation speed, as on the rotation speed slider. */
+  speed?: number;
+  /** Part to select and outline. */
+  part?: string;
+  /** Seconds the step holds during autoplay. */
+  duration?: number;
+}
+
+export interface TourDefinition {
+  schemaVersion: typeof TOUR_SCHEMA_VERSION;
+  id: string;
+  title: string;
+  description?: string;
+  /** Calibre the tour was written for; part ids are checked against it. */
+  calibre?: string;
+  steps: TourStep[];
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { referenceCalibre } from "@/calibre";
+import type { TourDefinition } from "@/tours/schema";
+import introductionJson from "@/tours/tours/introduction.json";
+import { validateTour } from "@/tours/validate";
+
+const tour = () => structuredClone(introductionJson) as TourDefinition;
+
+const pathsOf = (input: unknown) =>
+  validateTour(input, referenceCalibre).map((issue) => issue.path);
+
+describe("validateTour", () => {
+  it("accepts the built-in tour on the reference calibre", () => {
+    expect(validateTour(introductionJson, referenceCalibre)).toEqual([]);
+  });
+
+  it("rejects an unsupported schema version", () => {
+    expect(pathsOf({ ...tour(), schemaVersion: 99 })).toEqual([
+      "$.schemaVersion",
+    ]);
+  });
+
+  it("keeps explode, speed and opacity within range", () => {
+    const input = tour();
+    input.steps[0].explode = 1.5;
+    input.steps[0].speed = Number.NaN;
+    input.steps[0].opacity = { case: -0.1, nowhere: 0.5 };
+    expect(pathsOf(input)).toEqual([
+      "$.steps[0].opacity.case",
+      "$.steps[0].opacity.nowhere",
+      "$.steps[0].explode",
+      "$.steps[0].speed",
+    ]);
+  });
+
+  it("needs at least one step", () => {
+    expect(pathsOf({ ...tour(), steps: [] })).toEqual(["$.steps"]);
+  });
+
+  it("rejects a tour written for another calibre", () => {
+    expect(pathsOf({ ...tour(), calibre: "other" })).toEqual(["$.calibre"]);
+  });
+
+  it("rejects parts the calibre does not have", () => {
+    const input = tour();
+    input.steps[1].part = "nothing";
+    expect(pathsOf(input)).toEqual(["$.steps[1].part"]);
+  });
+});
@@ -0,0 +1,116 @@
+import { findCalibrePart } from "@/calibre/parts";
+import { isRegisteredLayer } from "@/calibre/layers";
+import { CalibreDefinition } from "@/calibre/schema";
+import {
+  CalibreIssue,
+  Check,
+  between,
+  isRecord,
+  layer,
+  list,
+  object,
+  oneOf,
+  optional,
+  positive,
+  string,
+  vec3,
+} from "@/calibre/validate";
+import { cameraViewPresets } from "@/state/useWatchStore";
+import { TOUR_SCHEMA_VERSION, TourDefinition } from "@/tours/schema";
+
+export type TourIssue = CalibreIssue;
+
+const camera: Check = (value, path, issues) => {
+  if (typeof value === "string") {
+    oneOf(Object.keys(cameraViewPresets))(value, path, issues);
+    return;
+  }
+  object({ position: vec3, lookAt: vec3 })(value, path, issues);
+};
+
+const opacity: Check = (value, path, issues) => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: "expected an object" });
+    return;
+  }
+  Object.entries(value).forEach(([key, entry]) => {
+    if (!isRegisteredLayer(key)) {
+      issues.push({
+        path: `${path}.${key}`,
+        message: `unknown layer "${key}"`,
+      });
+      return;
+    }
+    between(0, 1)(entry, `${path}.${key}`, issues);
+  });
+};
+
+const tourShape = object({
+  id: string,
+  title: string,
+  description: optional(string),
+  calibre: optional(string),
+  steps: list(
+    object({
+      title: string,
+      narration: string,
+      camera,
+      layers: optional(list(layer)),
+      isolate: optional(layer),
+      highlight: optional(layer),
+      opacity: optional(opacity),
+      explode: optional(between(0, 1)),
+      speed: optional(between(0, 1.5)),
+      part: optional(string),
+      duration: optional(positive),
+    })
+  ),
+});
+
+/**
+ * Checks a tour's shape and, given the calibre it will play on, that it was
+ * written for that calibre and only names parts it has.
+ */
+export const validateTour = (
+  input: unknown,
+  calibre?: CalibreDefinition
+): TourIssue[] => {
+  if (!isRecord(input)) {
+    return [{ path: "$", message: "expected a tour object" }];
+  }
+  if (input.schemaVersion !== TOUR_SCHEMA_VERSION) {
+    return [
+      {
+        path: "$.schemaVersion",
+        message: `unsupported schema version ${String(
+          input.schemaVersion
+        )}, expected ${TOUR_SCHEMA_VERSION}`,
+      },
+    ];
+  }
+  const issues: TourIssue[] = [];
+  tourShape(input, "$", issues);
+  if (issues.length > 0) return issues;
+
+  const tour = input as unknown as TourDefinition;
+  if (tour.steps.length === 0) {
+    issues.push({ path: "$.steps", message: "a tour needs at least one step" });
+  }
+  if (!calibre) return issues;
+  if (tour.calibre && tour.calibre !== calibre.id) {
+    issues.push({
+      path: "$.calibre",
+      message: `written for calibre "${tour.calibre}", not "${calibre.id}"`,
+    });
+    return issues;
+  }
+  tour.steps.forEach((step, index) => {
+    if (step.part && !findCalibrePart(calibre, step.part)) {
+      issues.push({
+        path: `$.steps[${index}].part`,
+        message: `unknown part "${step.part}"`,
+      });
+    }
+  });
+  return issues;
+};